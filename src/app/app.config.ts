@@ -20,19 +20,23 @@ import { GroupService } from './services/group.service';
 import { DBGroupService } from './services/backend.group.service';
 import { UserService } from './services/user.service';
 import { DBUserService } from './services/backend.user.service';
+import { ProblemViewService } from './services/problem-view.service';
+import { DBProblemViewService } from './services/backend.problem-view.service';
 import { LocaleService } from './services/locale.service';
 import { LocaleGuard } from './guards/locale.guard';
 import { authInitializer } from './initializers/auth.initializer';
 import { httpErrorInterceptor } from './interceptors/http-error.interceptor';
+import { httpRetryInterceptor } from './interceptors/http-retry.interceptor';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     { provide: ProblemService, useClass: DBProblemService },
     { provide: GroupService, useClass: DBGroupService },
     { provide: UserService, useClass: DBUserService },
+    { provide: ProblemViewService, useClass: DBProblemViewService },
     LocaleService,
     LocaleGuard,
-    provideHttpClient(withInterceptors([httpErrorInterceptor])),
+    provideHttpClient(withInterceptors([httpErrorInterceptor, httpRetryInterceptor])),
     {
       provide: APP_INITIALIZER,
       useFactory: authInitializer,
@@ -12,12 +12,20 @@ import { CustomerSearchComponent } from './components/Pages/customer-search.comp
 import { DashboardComponent } from './components/Pages/dashboard.component';
 import { FindProblemOutletComponent } from './components/Pages/find-problem-outlet.component';
 import { ProblemAddComponent } from './components/Pages/problem-add.component';
+import { ProblemDetailComponent } from './components/Pages/problem-detail.component';
 import { UserManagementComponent } from './components/Pages/user-management.component';
 import { GroupManagementComponent } from './components/Pages/group-management.component';
 import { WelcomeComponent } from './components/Pages/welcome.component';
 import { SignupComponent } from './components/Pages/signup.component';
 import { LoginComponent } from './components/Pages/login.component';
+import { ForgotPasswordComponent } from './components/Pages/forgot-password.component';
+import { ResetPasswordComponent } from './components/Pages/reset-password.component';
+import { ProfileComponent } from './components/Pages/profile.component';
 import { LocaleGuard } from './guards/locale.guard';
+import { authGuard, authMatchGuard } from './guards/auth.guard';
+import { unsavedChangesGuard } from './guards/unsaved-changes.guard';
+import { AuthRouteData } from './interfaces/auth-route-data.interface';
+import { UserRole } from './model/user-role';
 
 export const routes: Routes = [
   // Root redirects to current build locale using LocaleGuard
@@ -26,7 +34,7 @@ export const routes: Routes = [
     canActivate: [LocaleGuard],
     children: []
   },
-  // Locale-based routes
+  // Locale-based routes (welcome, signup, login and password recovery are public, the others require authentication)
   {
     path: ':locale',
     canActivate: [LocaleGuard],
@@ -38,31 +46,53 @@ export const routes: Routes = [
       },
       {
         path: 'dashboard',
-        component: DashboardComponent
+        component: DashboardComponent,
+        canActivate: [authGuard]
       },
       {
         path: 'orders',
-        component: FindProblemOutletComponent
+        component: FindProblemOutletComponent,
+        canActivate: [authGuard]
       },
       {
         path: 'problem-add',
-        component: ProblemAddComponent
+        component: ProblemAddComponent,
+        canActivate: [authGuard],
+        canDeactivate: [unsavedChangesGuard]
+      },
+      {
+        path: 'problem/:id',
+        component: ProblemDetailComponent,
+        canActivate: [authGuard]
       },
       {
         path: 'customer-search',
-        component: CustomerSearchComponent
+        component: CustomerSearchComponent,
+        canActivate: [authGuard]
+      },
+      {
+        path: 'profile',
+        component: ProfileComponent,
+        canActivate: [authGuard],
+        canDeactivate: [unsavedChangesGuard]
       },
       {
         path: 'admin',
-        component: AdminComponent
+        component: AdminComponent,
+        canMatch: [authMatchGuard],
+        data: { roles: [UserRole.ADMIN] } satisfies AuthRouteData
       },
       {
         path: 'user-management',
-        component: UserManagementComponent
+        component: UserManagementComponent,
+        canMatch: [authMatchGuard],
+        data: { roles: [UserRole.ADMIN] } satisfies AuthRouteData
       },
       {
         path: 'group-management',
-        component: GroupManagementComponent
+        component: GroupManagementComponent,
+        canMatch: [authMatchGuard],
+        data: { roles: [UserRole.ADMIN] } satisfies AuthRouteData
       },
       {
         path: 'signup',
@@ -72,9 +102,18 @@ export const routes: Routes = [
         path: 'login',
         component: LoginComponent
       },
+      {
+        path: 'forgot-password',
+        component: ForgotPasswordComponent
+      },
+      {
+        path: 'reset-password/:token',
+        component: ResetPasswordComponent
+      },
       {
         path: 'app',
-        component: AppComponent
+        component: AppComponent,
+        canActivate: [authGuard]
       }
     ]
   },
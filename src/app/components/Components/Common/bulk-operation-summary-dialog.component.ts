@@ -0,0 +1,57 @@
+/**
+ * Summary of a bulk operation: how many items succeeded or were left unchanged, and why each of the others failed.
+ */
+
+import { CommonModule } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+
+/**
+ * Failed item of the summary.
+ */
+export interface BulkOperationSummaryFailure {
+  /**
+   * Name of the item (e.g. the problem name).
+   */
+  readonly label: string;
+  readonly message: string;
+}
+
+@Component({
+  selector: 'app-bulk-operation-summary-dialog',
+  standalone: true,
+  templateUrl: './bulk-operation-summary-dialog.component.html',
+  imports: [CommonModule]
+})
+export class BulkOperationSummaryDialogComponent {
+  /**
+   * Service for managing the modal dialog.
+   */
+  public activeModal: NgbActiveModal = inject(NgbActiveModal);
+
+  public title: string = '';
+  public succeededCount: number = 0;
+  public unchangedCount: number = 0;
+  public failures: ReadonlyArray<BulkOperationSummaryFailure> = [];
+
+  /**
+   * Initializes the summary.
+   * @param title Title of the dialog (the operation)
+   * @param succeededCount Number of items the operation succeeded for
+   * @param failures Items the operation failed for
+   * @param unchangedCount Number of items the operation had nothing to change on
+   */
+  public initialize(title: string, succeededCount: number, failures: ReadonlyArray<BulkOperationSummaryFailure>, unchangedCount: number = 0): void {
+    this.title = title;
+    this.succeededCount = succeededCount;
+    this.failures = failures;
+    this.unchangedCount = unchangedCount;
+  }
+
+  /**
+   * Closes the summary.
+   */
+  public onClose(): void {
+    this.activeModal.close();
+  }
+}
@@ -4,23 +4,107 @@
  */
 
 import { CommonModule } from '@angular/common';
-import { Component, Input, Output, EventEmitter, OnInit } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnChanges, OnInit, SimpleChanges } from '@angular/core';
 import { NgbDropdownModule, NgbDatepickerModule, NgbDateStruct, NgbDropdown, NgbDatepicker } from '@ng-bootstrap/ng-bootstrap';
-import { format, isAfter, isBefore, isEqual } from 'date-fns';
+import { format, isAfter, isBefore, isEqual, parseISO } from 'date-fns';
 import {
   ngbDateToDate,
   dateToNgbDate
 } from '../../../utils/date-sort-utils';
 
+/**
+ * Identifiers of the date range presets (stable values, e.g. stored in saved views).
+ */
+export type DateRangePresetId = 'today' | 'last7Days' | 'last30Days' | 'thisMonth' | 'lastMonth' | 'thisYear';
+
+/**
+ * Computes the range of each preset, relative to the current date.
+ */
+const DATE_RANGE_PRESET_RANGES: Readonly<Record<DateRangePresetId, () => { from: Date; to: Date }>> = {
+  today: (): { from: Date; to: Date } => {
+    const now: Date = new Date();
+    const today: Date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const end: Date = new Date(today);
+    end.setHours(23, 59, 59, 999);
+    return { from: today, to: end };
+  },
+  last7Days: (): { from: Date; to: Date } => {
+    const now: Date = new Date();
+    const today: Date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const from: Date = new Date(today);
+    from.setDate(today.getDate() - 6);
+    const to: Date = new Date(today);
+    to.setHours(23, 59, 59, 999);
+    return { from, to };
+  },
+  last30Days: (): { from: Date; to: Date } => {
+    const now: Date = new Date();
+    const today: Date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const from: Date = new Date(today);
+    from.setDate(today.getDate() - 29);
+    const to: Date = new Date(today);
+    to.setHours(23, 59, 59, 999);
+    return { from, to };
+  },
+  thisMonth: (): { from: Date; to: Date } => {
+    const now: Date = new Date();
+    const from: Date = new Date(now.getFullYear(), now.getMonth(), 1);
+    const to: Date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    to.setHours(23, 59, 59, 999);
+    return { from, to };
+  },
+  lastMonth: (): { from: Date; to: Date } => {
+    const now: Date = new Date();
+    const from: Date = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+    const to: Date = new Date(now.getFullYear(), now.getMonth(), 0);
+    to.setHours(23, 59, 59, 999);
+    return { from, to };
+  },
+  thisYear: (): { from: Date; to: Date } => {
+    const now: Date = new Date();
+    const from: Date = new Date(now.getFullYear(), 0, 1);
+    const to: Date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    to.setHours(23, 59, 59, 999);
+    return { from, to };
+  }
+};
+
 interface DateRangePreset {
+  id: DateRangePresetId;
   label: string;
   icon: string;
-  getValue: () => { from: Date; to: Date };
 }
 
 export interface DateRangeChange {
   from: string;
   to: string;
+  /**
+   * Preset the range was selected with, undefined for ranges picked in the calendar.
+   */
+  preset?: DateRangePresetId;
+}
+
+/**
+ * Checks whether a value is a known preset identifier (e.g. read from a saved view).
+ * @param value The value to check
+ * @returns True if the value is a preset identifier
+ */
+export function isDateRangePresetId(value: string): value is DateRangePresetId {
+  return Object.prototype.hasOwnProperty.call(DATE_RANGE_PRESET_RANGES, value);
+}
+
+/**
+ * Computes the current range of a preset (e.g. "This month" applied again next month).
+ * @param preset The preset
+ * @returns The range, with from and to dates in YYYY-MM-DD format
+ */
+export function resolveDateRangePreset(preset: DateRangePresetId): DateRangeChange {
+  const range: { from: Date; to: Date } = DATE_RANGE_PRESET_RANGES[preset]();
+  return {
+    from: format(range.from, 'yyyy-MM-dd'),
+    to: format(range.to, 'yyyy-MM-dd'),
+    preset
+  };
 }
 
 @Component({
@@ -30,7 +114,7 @@ export interface DateRangeChange {
   styleUrls: ['./date-range-filter.component.scss'],
   imports: [CommonModule, NgbDropdownModule, NgbDatepickerModule]
 })
-export class DateRangeFilterComponent implements OnInit {
+export class DateRangeFilterComponent implements OnInit, OnChanges {
   /**
    * Initial from date in YYYY-MM-DD format.
    */
@@ -56,76 +140,12 @@ export class DateRangeFilterComponent implements OnInit {
    * Using $localize for runtime translation of labels.
    */
   public readonly dateRangePresets: ReadonlyArray<DateRangePreset> = [
-    {
-      label: $localize`Today`,
-      icon: 'bi-calendar-day',
-      getValue: (): { from: Date; to: Date } => {
-        const now: Date = new Date();
-        const today: Date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        const end: Date = new Date(today);
-        end.setHours(23, 59, 59, 999);
-        return { from: today, to: end };
-      }
-    },
-    {
-      label: $localize`Last 7 days`,
-      icon: 'bi-calendar-week',
-      getValue: (): { from: Date; to: Date } => {
-        const now: Date = new Date();
-        const today: Date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        const from: Date = new Date(today);
-        from.setDate(today.getDate() - 6);
-        const to: Date = new Date(today);
-        to.setHours(23, 59, 59, 999);
-        return { from, to };
-      }
-    },
-    {
-      label: $localize`Last 30 days`,
-      icon: 'bi-calendar-range',
-      getValue: (): { from: Date; to: Date } => {
-        const now: Date = new Date();
-        const today: Date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        const from: Date = new Date(today);
-        from.setDate(today.getDate() - 29);
-        const to: Date = new Date(today);
-        to.setHours(23, 59, 59, 999);
-        return { from, to };
-      }
-    },
-    {
-      label: $localize`This month`,
-      icon: 'bi-calendar-month',
-      getValue: (): { from: Date; to: Date } => {
-        const now: Date = new Date();
-        const from: Date = new Date(now.getFullYear(), now.getMonth(), 1);
-        const to: Date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        to.setHours(23, 59, 59, 999);
-        return { from, to };
-      }
-    },
-    {
-      label: $localize`Last month`,
-      icon: 'bi-calendar3',
-      getValue: (): { from: Date; to: Date } => {
-        const now: Date = new Date();
-        const from: Date = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-        const to: Date = new Date(now.getFullYear(), now.getMonth(), 0);
-        to.setHours(23, 59, 59, 999);
-        return { from, to };
-      }
-    },
-    {
-      label: $localize`This year`,
-      icon: 'bi-calendar4',
-      getValue: (): { from: Date; to: Date } => {
-        const now: Date = new Date();
-        const from: Date = new Date(now.getFullYear(), 0, 1);
-        const to: Date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        to.setHours(23, 59, 59, 999);
-        return { from, to };
-      }
-    }
+    { id: 'today', label: $localize`Today`, icon: 'bi-calendar-day' },
+    { id: 'last7Days', label: $localize`Last 7 days`, icon: 'bi-calendar-week' },
+    { id: 'last30Days', label: $localize`Last 30 days`, icon: 'bi-calendar-range' },
+    { id: 'thisMonth', label: $localize`This month`, icon: 'bi-calendar-month' },
+    { id: 'lastMonth', label: $localize`Last month`, icon: 'bi-calendar3' },
+    { id: 'thisYear', label: $localize`This year`, icon: 'bi-calendar4' }
   ];
 
   /**
@@ -142,6 +162,18 @@ export class DateRangeFilterComponent implements OnInit {
     }
   }
 
+  /**
+   * Follows the input dates when the parent changes them (e.g. filters restored from the URL).
+   */
+  public ngOnChanges(changes: SimpleChanges): void {
+    if (changes['initialFromDate'] !== undefined && changes['initialFromDate'].firstChange === false) {
+      this.fromDate = this.initialFromDate ? dateToNgbDate(parseISO(this.initialFromDate)) : null;
+    }
+    if (changes['initialToDate'] !== undefined && changes['initialToDate'].firstChange === false) {
+      this.toDate = this.initialToDate ? dateToNgbDate(parseISO(this.initialToDate)) : null;
+    }
+  }
+
   /**
    * Handles date selection in the datepicker.
    * @param date The selected date
@@ -209,10 +241,10 @@ export class DateRangeFilterComponent implements OnInit {
    * @param dropdown The dropdown instance to close
    */
   public applyPreset(preset: DateRangePreset, dropdown?: NgbDropdown): void {
-    const range: { from: Date; to: Date } = preset.getValue();
+    const range: { from: Date; to: Date } = DATE_RANGE_PRESET_RANGES[preset.id]();
     this.fromDate = dateToNgbDate(range.from);
     this.toDate = dateToNgbDate(range.to);
-    this.applyDateRange();
+    this.applyDateRange(preset.id);
     if (dropdown) {
       setTimeout(() => dropdown.close(), 300);
     }
@@ -220,14 +252,16 @@ export class DateRangeFilterComponent implements OnInit {
 
   /**
    * Applies the selected date range to the filter.
+   * @param preset The preset the range was selected with, if any
    */
-  private applyDateRange(): void {
+  private applyDateRange(preset?: DateRangePresetId): void {
     const fromDateStr: string = this.fromDate ? format(ngbDateToDate(this.fromDate), 'yyyy-MM-dd') : '';
     const toDateStr: string = this.toDate ? format(ngbDateToDate(this.toDate), 'yyyy-MM-dd') : '';
     
     this.dateRangeChange.emit({
       from: fromDateStr,
-      to: toDateStr
+      to: toDateStr,
+      preset
     });
   }
 
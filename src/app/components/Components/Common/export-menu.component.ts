@@ -0,0 +1,27 @@
+/**
+ * Export button of a table: downloads the filtered and sorted rows as CSV or JSON.
+ */
+
+import { CommonModule } from '@angular/common';
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { NgbDropdownModule } from '@ng-bootstrap/ng-bootstrap';
+
+import { ExportFormat } from '../../../utils/table-export';
+
+@Component({
+  selector: 'app-export-menu',
+  standalone: true,
+  templateUrl: './export-menu.component.html',
+  imports: [CommonModule, NgbDropdownModule]
+})
+export class ExportMenuComponent {
+  /**
+   * Whether an export is being prepared (e.g. the rows are fetched).
+   */
+  @Input() exporting: boolean = false;
+
+  /**
+   * Emits the format selected by the user.
+   */
+  @Output() exportRequested: EventEmitter<ExportFormat> = new EventEmitter<ExportFormat>();
+}
@@ -0,0 +1,93 @@
+/**
+ * Sign-in dialog shown when the session expires in the middle of an action.
+ * Closes with true once the user is signed in again, dismisses on cancel.
+ */
+
+import { CommonModule } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { FormControl, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { AuthService } from '../../../services/auth.service';
+
+@Component({
+  selector: 'app-reauthentication-dialog',
+  standalone: true,
+  templateUrl: './reauthentication-dialog.component.html',
+  imports: [CommonModule, ReactiveFormsModule]
+})
+export class ReauthenticationDialogComponent {
+  /**
+   * Service for managing the modal dialog.
+   */
+  public activeModal: NgbActiveModal = inject(NgbActiveModal);
+
+  private readonly authService: AuthService = inject(AuthService);
+
+  /**
+   * Email of the user whose session expired, used to lock the email field so the same account signs back in.
+   */
+  public readonly knownEmail: string | null = this.authService.getCurrentUserEmail();
+
+  /**
+   * Reactive form group containing email and password controls.
+   */
+  public form: FormGroup<{
+    emailCtrl: FormControl<string | null>;
+    passwordCtrl: FormControl<string | null>;
+  }> = new FormGroup<{
+    emailCtrl: FormControl<string | null>;
+    passwordCtrl: FormControl<string | null>;
+  }>({
+    emailCtrl: new FormControl<string | null>(this.knownEmail ?? '', [Validators.required, Validators.email]),
+    passwordCtrl: new FormControl<string | null>('', [Validators.required])
+  });
+
+  /**
+   * Indicates whether the sign-in request is in progress.
+   */
+  public isSubmitting: boolean = false;
+
+  /**
+   * Error message to display if authentication fails.
+   */
+  public errorMessage: string | null = null;
+
+  /**
+   * Signs the user in again and closes the dialog on success.
+   */
+  public onSubmit(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const emailValue: string | null = this.form.controls.emailCtrl.value;
+    const passwordValue: string | null = this.form.controls.passwordCtrl.value;
+    if (emailValue === null || passwordValue === null) {
+      this.errorMessage = $localize`Email and password are required`;
+      return;
+    }
+
+    this.isSubmitting = true;
+    this.errorMessage = null;
+
+    this.authService.signIn(emailValue, passwordValue).subscribe({
+      next: () => {
+        this.isSubmitting = false;
+        this.activeModal.close(true);
+      },
+      error: (error: unknown) => {
+        this.isSubmitting = false;
+        this.errorMessage = error instanceof Error ? error.message : $localize`Failed to sign in`;
+      }
+    });
+  }
+
+  /**
+   * Handles the cancel button click.
+   * Dismisses the modal so the pending requests are rejected.
+   */
+  public onCancel(): void {
+    this.activeModal.dismiss('cancel');
+  }
+}
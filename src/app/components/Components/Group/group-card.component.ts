@@ -4,43 +4,102 @@
  */
 
 import { CommonModule } from '@angular/common';
-import { Component, OnInit } from '@angular/core';
+import { Component, computed, DestroyRef, effect, Inject, LOCALE_ID, OnInit, Signal, signal, WritableSignal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, ParamMap, Params, Router } from '@angular/router';
 import { NgbModalModule, NgbModal, NgbTooltipModule, NgbDropdownModule } from '@ng-bootstrap/ng-bootstrap';
-import { Group } from '../../../model/model';
+import { Group, User } from '../../../model/model';
 import { GroupService } from '../../../services/group.service';
+import { GroupStore } from '../../../services/group-store.service';
+import { UnsavedChangesService } from '../../../services/unsaved-changes.service';
 import { GroupAddComponent } from '../../Pages/group-add.component';
 import { ConfirmationDialogComponent } from '../Common/confirmation-dialog.component';
+import { ExportMenuComponent } from '../Common/export-menu.component';
 import { UserMembershipPanelComponent } from './user-membership-panel.component';
 import { DateRangeFilterComponent, DateRangeChange } from '../Common/date-range-filter.component';
-import { Observable, Subscription, of } from 'rxjs';
-import { map } from 'rxjs/operators';
+import {
+  formatSortParam,
+  isListQueryParamsNavigation,
+  LIST_QUERY_PARAMS,
+  ListSort,
+  parseSortParam,
+  readDateParam,
+  readTextParam,
+  toParamValue,
+  writeListQueryParams
+} from '../../../utils/list-query-params';
+import { ExportColumn, ExportFormat, exportRows } from '../../../utils/table-export';
+import { Subscription } from 'rxjs';
+import { skip } from 'rxjs/operators';
 
 type SortColumn = 'id' | 'name' | 'description' | 'creationDate' | 'creator' | '';
 type SortDirection = 'asc' | 'desc' | '';
 
+/**
+ * Columns the table can be sorted by (accepted in the `sort` query parameter).
+ */
+const SORT_COLUMNS: ReadonlyArray<Exclude<SortColumn, ''>> = ['id', 'name', 'description', 'creationDate', 'creator'];
+
+/**
+ * Query parameters holding the group text filters.
+ */
+const GROUP_QUERY_PARAMS = {
+  name: 'name',
+  description: 'description',
+  creator: 'creator'
+} as const;
+
+/**
+ * Columns of the group exports, including the derived ones (member count and names).
+ */
+const GROUP_EXPORT_COLUMNS: ReadonlyArray<ExportColumn<Group>> = [
+  { key: 'id', header: $localize`ID`, value: (group: Group) => group.id },
+  { key: 'name', header: $localize`Name`, value: (group: Group) => group.name },
+  { key: 'description', header: $localize`Description`, value: (group: Group) => group.description },
+  { key: 'creationDate', header: $localize`Creation Date`, value: (group: Group) => group.creationDate ? new Date(group.creationDate) : null },
+  { key: 'creator', header: $localize`Creator`, value: (group: Group) => group.creatorName },
+  { key: 'memberCount', header: $localize`Members`, value: (group: Group) => countMembers(group) },
+  {
+    key: 'memberNames',
+    header: $localize`Member names`,
+    value: (group: Group) => (group.members ?? [])
+      .map((member: User) => `${member.firstName || ''} ${member.surname || ''}`.trim() || member.email || '')
+      .join('; ')
+  }
+];
+
+/**
+ * Returns the number of members of a group (from the member IDs, or the members when only they are loaded).
+ */
+function countMembers(group: Group): number {
+  return group.memberIds?.length || group.members?.length || 0;
+}
+
 @Component({
   selector: 'app-group-card',
   standalone: true,
   templateUrl: './group-card.component.html',
   styleUrls: ['./group-card.component.scss'],
-  imports: [CommonModule, NgbModalModule, NgbTooltipModule, NgbDropdownModule, FormsModule, UserMembershipPanelComponent, DateRangeFilterComponent]
+  imports: [CommonModule, NgbModalModule, NgbTooltipModule, NgbDropdownModule, FormsModule, UserMembershipPanelComponent, DateRangeFilterComponent, ExportMenuComponent]
 })
 export class GroupCardComponent implements OnInit {
   /**
-   * Observable emitting the list of groups, filtered and sorted according to current settings.
+   * Groups displayed in the table: the cached list filtered and sorted in memory (no backend call).
    */
-  public groups$!: Observable<Group[] | undefined>;
+  public readonly groups: Signal<Group[] | undefined> = computed<Group[] | undefined>(
+    () => this.filterAndSortGroups(this.groupStore.items())
+  );
 
   /**
    * The column currently used for sorting the groups table.
    */
-  public sortColumn: SortColumn = '';
+  public readonly sortColumn: WritableSignal<SortColumn> = signal<SortColumn>('');
 
   /**
    * The direction of the current sort (ascending or descending).
    */
-  public sortDirection: SortDirection = '';
+  public readonly sortDirection: WritableSignal<SortDirection> = signal<SortDirection>('');
 
   /**
    * Filter text for filtering groups by name.
@@ -49,7 +108,7 @@ export class GroupCardComponent implements OnInit {
    * When populated, only groups whose name contains this text (case-insensitive) are displayed.
    * The filtering uses substring matching, so partial matches are included.
    */
-  public filterName: string = '';
+  public readonly filterName: WritableSignal<string> = signal<string>('');
 
   /**
    * Filter text for filtering groups by description.
@@ -58,7 +117,7 @@ export class GroupCardComponent implements OnInit {
    * When populated, only groups whose description contains this text (case-insensitive) are displayed.
    * The filtering uses substring matching, so partial matches are included.
    */
-  public filterDescription: string = '';
+  public readonly filterDescription: WritableSignal<string> = signal<string>('');
 
   /**
    * Filter text for filtering groups by creator name.
@@ -67,21 +126,21 @@ export class GroupCardComponent implements OnInit {
    * When populated, only groups whose creator name contains this text (case-insensitive) are displayed.
    * The filtering uses substring matching, so partial matches are included.
    */
-  public filterCreator: string = '';
+  public readonly filterCreator: WritableSignal<string> = signal<string>('');
 
   /**
    * Filter for creation date range - start date (from).
    * Contains the start date in YYYY-MM-DD format for filtering groups by creation date.
    * When empty string (''), no start date filtering is applied.
    */
-  public filterCreationDateFrom: string = '';
+  public readonly filterCreationDateFrom: WritableSignal<string> = signal<string>('');
 
   /**
    * Filter for creation date range - end date (to).
    * Contains the end date in YYYY-MM-DD format for filtering groups by creation date.
    * When empty string (''), no end date filtering is applied.
    */
-  public filterCreationDateTo: string = '';
+  public readonly filterCreationDateTo: WritableSignal<string> = signal<string>('');
   
   /**
    * ID of the group that was last created or updated, used to highlight the row temporarily.
@@ -98,40 +157,75 @@ export class GroupCardComponent implements OnInit {
    */
   public selectedGroupForMembership: Group | null = null;
 
-
   /**
-   * Raw groups data fetched from the server, before filtering and sorting.
-   * Used to avoid unnecessary server refetches when only filters or sorting change.
+   * Service for managing group operations.
    */
-  private rawGroups: Group[] | undefined;
+  private groupService: GroupService;
 
   /**
-   * Service for managing group operations.
+   * Cache of the group list, shared with later visits of the page.
    */
-  private groupService: GroupService;
+  private groupStore: GroupStore;
 
   /**
    * Service for opening modal dialogs.
    */
   private modalService: NgbModal;
 
+  /**
+   * Asks before the edits of the group modal are discarded.
+   */
+  private unsavedChangesService: UnsavedChangesService;
+
+  /**
+   * Router and current route, used to keep the filters and sort order in the URL query string.
+   */
+  private router: Router;
+  private route: ActivatedRoute;
+
+  private destroyRef: DestroyRef;
+
+  /**
+   * Locale of the application, used to format the dates of CSV exports.
+   */
+  private localeId: string;
+
   constructor(
     groupService: GroupService,
-    modalService: NgbModal
+    groupStore: GroupStore,
+    modalService: NgbModal,
+    unsavedChangesService: UnsavedChangesService,
+    router: Router,
+    route: ActivatedRoute,
+    destroyRef: DestroyRef,
+    @Inject(LOCALE_ID) localeId: string
   ) {
     this.groupService = groupService;
+    this.groupStore = groupStore;
     this.modalService = modalService;
+    this.unsavedChangesService = unsavedChangesService;
+    this.router = router;
+    this.route = route;
+    this.destroyRef = destroyRef;
+    this.localeId = localeId;
+    // Records the filters and sort order in the URL whenever they change
+    effect(() => writeListQueryParams(this.router, this.route, this.toQueryParams()));
   }
 
   public ngOnInit(): void {
-    // Fetch groups - creatorName comes from backend via GroupDto
-    this.groups$ = this.groupService.fetchGroups().pipe(
-      map((groups: Group[] | undefined) => {
-        // Store raw groups for filtering/sorting without refetch
-        this.rawGroups = groups;
-        return this.filterAndSortGroups(groups);
-      })
-    );
+    // The URL holds the filters: restore them, then follow its changes (links, back and forward navigation)
+    this.readQueryParams(this.route.snapshot.queryParamMap);
+    this.route.queryParamMap.pipe(
+      skip(1),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe((params: ParamMap) => {
+      if (isListQueryParamsNavigation(this.router) === false) {
+        this.readQueryParams(params);
+      }
+    });
+
+    // Uses the cached list when it is still fresh
+    this.groupStore.load();
   }
 
   /**
@@ -139,32 +233,31 @@ export class GroupCardComponent implements OnInit {
    * @param column The column to sort by
    */
   public onSort(column: SortColumn): void {
-    if (this.sortColumn === column) {
-      this.sortDirection = this.sortDirection === 'asc' ? 'desc' : 'asc';
+    if (this.sortColumn() === column) {
+      this.sortDirection.set(this.sortDirection() === 'asc' ? 'desc' : 'asc');
     } else {
-      this.sortColumn = column;
-      this.sortDirection = 'asc';
+      this.sortColumn.set(column);
+      this.sortDirection.set('asc');
     }
-    this.refreshData(false); // No server refetch needed for sorting
   }
 
   /**
-   * Handles filter changes.
+   * Clears all filters.
    */
-  public onFilterChange(): void {
-    this.refreshData(false); // No server refetch needed for filtering
+  public clearFilters(): void {
+    this.filterName.set('');
+    this.filterDescription.set('');
+    this.filterCreator.set('');
+    this.filterCreationDateFrom.set('');
+    this.filterCreationDateTo.set('');
   }
 
   /**
-   * Clears all filters.
+   * Exports the displayed groups (filtered and sorted).
+   * @param format The file format
    */
-  public clearFilters(): void {
-    this.filterName = '';
-    this.filterDescription = '';
-    this.filterCreator = '';
-    this.filterCreationDateFrom = '';
-    this.filterCreationDateTo = '';
-    this.refreshData(false); // No server refetch needed for clearing filters
+  public exportGroups(format: ExportFormat): void {
+    exportRows(this.groups() ?? [], GROUP_EXPORT_COLUMNS, format, 'groups', this.localeId);
   }
 
   /**
@@ -172,32 +265,45 @@ export class GroupCardComponent implements OnInit {
    * @param change The date range change event
    */
   public onDateRangeChange(change: DateRangeChange): void {
-    this.filterCreationDateFrom = change.from;
-    this.filterCreationDateTo = change.to;
-    this.onFilterChange();
+    this.filterCreationDateFrom.set(change.from);
+    this.filterCreationDateTo.set(change.to);
   }
 
   /**
-   * Refreshes the data by reapplying filters and sorting.
-   * Only refetches groups from server if forceRefresh is true (for CRUD operations).
-   * Otherwise, just reapplies filters/sorting to existing data.
-   * @param forceRefresh If true, refetches from server. If false, only reapplies filters/sorting.
+   * Sets the filters and sort order from the query parameters (invalid values are ignored).
+   * @param params The query parameters
    */
-  private refreshData(forceRefresh: boolean = false): void {
-    if (forceRefresh || !this.rawGroups) {
-      // Refetch from server (CRUD operations or initial load)
-      this.groups$ = this.groupService.fetchGroups().pipe(
-        map((groups: Group[] | undefined) => {
-          this.rawGroups = groups;
-          return this.filterAndSortGroups(groups);
-        })
-      );
-    } else {
-      // Just reapply filters/sorting to existing data (filter/sort changes)
-      this.groups$ = of(this.rawGroups).pipe(
-        map((groups: Group[] | undefined) => this.filterAndSortGroups(groups))
-      );
-    }
+  private readQueryParams(params: ParamMap): void {
+    const sort: ListSort<Exclude<SortColumn, ''>> | null = parseSortParam(params.get(LIST_QUERY_PARAMS.sort), SORT_COLUMNS);
+    this.filterName.set(readTextParam(params, GROUP_QUERY_PARAMS.name));
+    this.filterDescription.set(readTextParam(params, GROUP_QUERY_PARAMS.description));
+    this.filterCreator.set(readTextParam(params, GROUP_QUERY_PARAMS.creator));
+    this.filterCreationDateFrom.set(readDateParam(params, LIST_QUERY_PARAMS.from));
+    this.filterCreationDateTo.set(readDateParam(params, LIST_QUERY_PARAMS.to));
+    this.sortColumn.set(sort?.column ?? '');
+    this.sortDirection.set(sort?.direction ?? '');
+  }
+
+  /**
+   * Converts the filters and sort order to query parameters (empty filters are left out of the URL).
+   * @returns The query parameters, null values removing the parameter
+   */
+  private toQueryParams(): Params {
+    return {
+      [GROUP_QUERY_PARAMS.name]: toParamValue(this.filterName()),
+      [GROUP_QUERY_PARAMS.description]: toParamValue(this.filterDescription()),
+      [GROUP_QUERY_PARAMS.creator]: toParamValue(this.filterCreator()),
+      [LIST_QUERY_PARAMS.from]: toParamValue(this.filterCreationDateFrom()),
+      [LIST_QUERY_PARAMS.to]: toParamValue(this.filterCreationDateTo()),
+      [LIST_QUERY_PARAMS.sort]: formatSortParam(this.sortColumn(), this.sortDirection())
+    };
+  }
+
+  /**
+   * Fetches the groups again after a mutation.
+   */
+  private refreshData(): void {
+    this.groupStore.refresh();
   }
 
   /**
@@ -211,32 +317,39 @@ export class GroupCardComponent implements OnInit {
     }
 
     let filteredGroups: Group[] = [...groups];
+    const filterName: string = this.filterName();
+    const filterDescription: string = this.filterDescription();
+    const filterCreator: string = this.filterCreator();
+    const filterCreationDateFrom: string = this.filterCreationDateFrom();
+    const filterCreationDateTo: string = this.filterCreationDateTo();
+    const sortColumn: SortColumn = this.sortColumn();
+    const sortDirection: SortDirection = this.sortDirection();
 
     // Apply filters
-    if (this.filterName) {
-      const lowerFilterName: string = this.filterName.toLowerCase();
+    if (filterName) {
+      const lowerFilterName: string = filterName.toLowerCase();
       filteredGroups = filteredGroups.filter((group: Group) => 
         group.name?.toLowerCase().includes(lowerFilterName)
       );
     }
 
-    if (this.filterDescription) {
-      const lowerFilterDescription: string = this.filterDescription.toLowerCase();
+    if (filterDescription) {
+      const lowerFilterDescription: string = filterDescription.toLowerCase();
       filteredGroups = filteredGroups.filter((group: Group) => 
         group.description?.toLowerCase().includes(lowerFilterDescription)
       );
     }
 
-    if (this.filterCreator) {
-      const lowerFilterCreator: string = this.filterCreator.toLowerCase();
+    if (filterCreator) {
+      const lowerFilterCreator: string = filterCreator.toLowerCase();
       filteredGroups = filteredGroups.filter((group: Group) => {
         const creatorName: string = (group.creatorName || '').toLowerCase();
         return creatorName.includes(lowerFilterCreator);
       });
     }
 
-    if (this.filterCreationDateFrom) {
-      const fromDate: Date = new Date(this.filterCreationDateFrom);
+    if (filterCreationDateFrom) {
+      const fromDate: Date = new Date(filterCreationDateFrom);
       filteredGroups = filteredGroups.filter((group: Group) => {
         if (!group.creationDate) {
           return false;
@@ -246,8 +359,8 @@ export class GroupCardComponent implements OnInit {
       });
     }
 
-    if (this.filterCreationDateTo) {
-      const toDate: Date = new Date(this.filterCreationDateTo);
+    if (filterCreationDateTo) {
+      const toDate: Date = new Date(filterCreationDateTo);
       toDate.setHours(23, 59, 59, 999);
       filteredGroups = filteredGroups.filter((group: Group) => {
         if (!group.creationDate) {
@@ -259,12 +372,12 @@ export class GroupCardComponent implements OnInit {
     }
 
     // Apply sorting using native JavaScript
-    if (this.sortColumn && this.sortDirection) {
+    if (sortColumn && sortDirection) {
       filteredGroups.sort((a: Group, b: Group) => {
         let aValue: any;
         let bValue: any;
 
-        switch (this.sortColumn) {
+        switch (sortColumn) {
           case 'id':
             aValue = a.id || 0;
             bValue = b.id || 0;
@@ -292,10 +405,10 @@ export class GroupCardComponent implements OnInit {
 
         // Compare values
         if (aValue < bValue) {
-          return this.sortDirection === 'asc' ? -1 : 1;
+          return sortDirection === 'asc' ? -1 : 1;
         }
         if (aValue > bValue) {
-          return this.sortDirection === 'asc' ? 1 : -1;
+          return sortDirection === 'asc' ? 1 : -1;
         }
         return 0;
       });
@@ -310,10 +423,10 @@ export class GroupCardComponent implements OnInit {
    * @returns The Bootstrap icon class
    */
   public getSortIcon(column: SortColumn): string {
-    if (this.sortColumn !== column) {
+    if (this.sortColumn() !== column) {
       return 'bi-arrow-down-up';
     }
-    return this.sortDirection === 'asc' ? 'bi-arrow-up' : 'bi-arrow-down';
+    return this.sortDirection() === 'asc' ? 'bi-arrow-up' : 'bi-arrow-down';
   }
 
   /**
@@ -322,7 +435,7 @@ export class GroupCardComponent implements OnInit {
    * @returns The number of members
    */
   public getMemberCount(group: Group): number {
-    return group.memberIds?.length || group.members?.length || 0;
+    return countMembers(group);
   }
 
   /**
@@ -371,7 +484,9 @@ export class GroupCardComponent implements OnInit {
     const modalRef = this.modalService.open(GroupAddComponent, {
       size: 'lg',
       backdrop: 'static',
-      keyboard: false
+      keyboard: false,
+      // Ask before discarding the edits (Cancel and close buttons)
+      beforeDismiss: () => this.unsavedChangesService.confirmDiscard(modalRef.componentInstance)
     });
 
     modalRef.componentInstance.initialValue = null;
@@ -385,7 +500,7 @@ export class GroupCardComponent implements OnInit {
         // Highlight the newly created row
         this.lastModifiedGroupId = result.id || null;
         
-        this.refreshData(true); // Refetch from server after creation
+        this.refreshData();
         
         // Remove highlight after 3 seconds
         setTimeout(() => {
@@ -412,7 +527,9 @@ export class GroupCardComponent implements OnInit {
     const modalRef = this.modalService.open(GroupAddComponent, {
       size: 'lg',
       backdrop: 'static',
-      keyboard: false
+      keyboard: false,
+      // Ask before discarding the edits (Cancel and close buttons)
+      beforeDismiss: () => this.unsavedChangesService.confirmDiscard(modalRef.componentInstance)
     });
 
     modalRef.componentInstance.initialValue = group;
@@ -426,7 +543,7 @@ export class GroupCardComponent implements OnInit {
         // Highlight the updated row
         this.lastModifiedGroupId = result.id || null;
         
-        this.refreshData(true); // Refetch from server after update
+        this.refreshData();
         
         // Remove highlight after 3 seconds
         setTimeout(() => {
@@ -491,7 +608,7 @@ export class GroupCardComponent implements OnInit {
     const sub: Subscription = this.groupService.deleteGroup(groupId).subscribe({
       next: (): void => {
         console.log('Group deleted successfully:', groupId);
-        this.refreshData(true); // Refetch from server after deletion
+        this.refreshData();
       },
       error: (error: unknown): void => {
         console.error('Error deleting group:', error);
@@ -533,7 +650,7 @@ export class GroupCardComponent implements OnInit {
     // Highlight the updated row
     this.lastModifiedGroupId = groupId;
     
-    this.refreshData(true); // Refetch from server after member update
+    this.refreshData();
     
     // Remove highlight after 3 seconds
     setTimeout(() => {
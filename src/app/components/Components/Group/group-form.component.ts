@@ -18,6 +18,7 @@
  * ```
  */
 import { CommonModule } from '@angular/common';
+import { HttpContext } from '@angular/common/http';
 import { Component, DestroyRef, EventEmitter, Input, OnChanges, OnInit, Output, SimpleChanges, inject } from '@angular/core';
 import { FormControl, FormGroup, ReactiveFormsModule, Validators, FormsModule } from '@angular/forms';
 import { debounceTime, Observable, Subscription } from 'rxjs';
@@ -27,6 +28,10 @@ import type { Group } from '../../../model/model';
 import { LocaleService } from '../../../services/locale.service';
 import { GroupService } from '../../../services/group.service';
 import { AuthService } from '../../../services/auth.service';
+import { HasUnsavedChanges } from '../../../interfaces/has-unsaved-changes.interface';
+import { UnsavedChangesService } from '../../../services/unsaved-changes.service';
+import { FIELD_ERRORS_HANDLED_BY_FORM } from '../../../interceptors/field-errors-handled.token';
+import { applyValidationError } from '../../../utils/form-error-utils';
 
 @Component({
   selector: 'app-group-form',
@@ -34,7 +39,7 @@ import { AuthService } from '../../../services/auth.service';
   templateUrl: './group-form.component.html',
   imports: [CommonModule, ReactiveFormsModule, FormsModule],
 })
-export class GroupFormComponent implements OnInit, OnChanges {
+export class GroupFormComponent implements OnInit, OnChanges, HasUnsavedChanges {
   /**
    * Optional initial group value to patch into the form.
    */
@@ -76,6 +81,7 @@ export class GroupFormComponent implements OnInit, OnChanges {
   @Output() changed: EventEmitter<Group | null> = new EventEmitter<Group | null>();
 
   private readonly destroyRef: DestroyRef = inject(DestroyRef);
+  private readonly unsavedChangesService: UnsavedChangesService = inject(UnsavedChangesService);
   private readonly router: Router = inject(Router);
   private readonly localeService: LocaleService = inject(LocaleService);
   private readonly groupService: GroupService = inject(GroupService);
@@ -100,6 +106,7 @@ export class GroupFormComponent implements OnInit, OnChanges {
 
   /** @internal */
   ngOnInit(): void {
+    this.unsavedChangesService.warnBeforeUnload(this, this.destroyRef);
     this.patchFromInitial(this.initialValue);
     // Ensure form is ready before subscribing
     if (this.form && this.form.valueChanges) {
@@ -152,18 +159,19 @@ export class GroupFormComponent implements OnInit, OnChanges {
       }
       console.log('Form update data:', updateData);
 
-      const sub: Subscription = this.groupService.updateGroup(rawId, updateData as any).subscribe({
+      const sub: Subscription = this.groupService.updateGroup(rawId, updateData as any, this.createRequestContext()).subscribe({
         next: (updated: Group): void => {
           console.log('Group updated successfully:', updated);
+          this.form.markAsPristine();
           this.submitGroup.emit(updated);
           // Only navigate if we're showing actions (standalone mode, not in a modal)
           if (this.showActions) {
             void this.localeService.navigateWithLocale(['group-management']);
           }
         },
-        error: (_err: unknown): void => {
-          // Keep simple UX for now; could surface an alert/Toast
-          console.log('Update group failed');
+        error: (err: unknown): void => {
+          console.log('Update group failed', err);
+          applyValidationError(this.form, err);
         },
       });
       this.destroyRef.onDestroy((): void => sub.unsubscribe());
@@ -188,9 +196,10 @@ export class GroupFormComponent implements OnInit, OnChanges {
       };
       console.log('Form submission data:', createData);
 
-      const sub: Subscription = this.groupService.createGroup(createData as any).subscribe({
+      const sub: Subscription = this.groupService.createGroup(createData as any, this.createRequestContext()).subscribe({
         next: (created: Group): void => {
           console.log('Group created successfully:', created);
+          this.form.markAsPristine();
           this.submitGroup.emit(created);
           // Only navigate if we're showing actions (standalone mode, not in a modal)
           if (this.showActions) {
@@ -199,13 +208,21 @@ export class GroupFormComponent implements OnInit, OnChanges {
         },
         error: (err: unknown): void => {
           console.error('Create group failed:', err);
-          // Keep simple UX for now; could surface an alert/Toast
+          applyValidationError(this.form, err);
         },
       });
       this.destroyRef.onDestroy((): void => sub.unsubscribe());
     }
   }
 
+  /**
+   * Whether the form holds edits that are not submitted yet.
+   */
+  hasUnsavedChanges(): boolean {
+    return this.form.dirty;
+  }
+
+
   /**
    * Resets the form to the last provided {@link Group} initial value.
    */
@@ -277,5 +294,11 @@ export class GroupFormComponent implements OnInit, OnChanges {
     const g: Group = this.toGroup();
     return g;
   }
-}
 
+  /**
+   * Request context letting the form display the field errors of the backend instead of the global toast.
+   */
+  private createRequestContext(): HttpContext {
+    return new HttpContext().set(FIELD_ERRORS_HANDLED_BY_FORM, true);
+  }
+}
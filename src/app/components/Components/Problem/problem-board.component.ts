@@ -0,0 +1,378 @@
+/**
+ * Kanban board of the problems: one column per {@link ProblemStatus}, in workflow order.
+ * Problems are dragged between columns to change their status; the card moves at once and goes back
+ * to its column when the backend rejects the change.
+ */
+
+import { CommonModule } from '@angular/common';
+import { Component, computed, inject, Input, OnChanges, OnDestroy, Signal, signal, SimpleChanges, WritableSignal } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { NgbDropdownModule, NgbModal, NgbTooltipModule } from '@ng-bootstrap/ng-bootstrap';
+import { UpdateProblemDto } from '@shared/dto';
+import { ProblemStatus } from '@shared/dto/problem/problem-status.enum';
+import { Subscription } from 'rxjs';
+
+import { PagedResult, Problem, ProblemQuery, User } from '../../../model';
+import { AppError } from '../../../errors/app-error';
+import { LocaleService } from '../../../services/locale.service';
+import { NotificationService } from '../../../services/notification.service';
+import { PermissionService } from '../../../services/permission.service';
+import { ProblemService } from '../../../services/problem.service';
+import { ProblemStore } from '../../../services/problem-store.service';
+import { getProblemStatusBadgeClass, PROBLEM_STATUS_LABELS } from '../../../utils/problem-status-labels';
+import {
+  isStatusReasonRequired,
+  isStatusTransitionAllowed,
+  PROBLEM_STATUS_ORDER,
+  PROBLEM_STATUS_TRANSITIONS,
+  toProblemStatus
+} from '../../../utils/problem-status-workflow';
+import { StatusReasonDialogComponent } from './status-reason-dialog.component';
+
+/**
+ * Maximum number of problems displayed on the board (the board is not paged).
+ */
+export const PROBLEM_BOARD_MAX_PROBLEMS: number = 500;
+
+/**
+ * Column of the board.
+ */
+interface ProblemBoardColumn {
+  /**
+   * Status of the column, null for the problems with an unknown (legacy) status.
+   */
+  readonly status: ProblemStatus | null;
+  readonly label: string;
+  readonly badgeClass: string;
+  readonly problems: ReadonlyArray<Problem>;
+}
+
+@Component({
+  selector: 'app-problem-board',
+  standalone: true,
+  templateUrl: './problem-board.component.html',
+  styleUrls: ['./problem-board.component.scss'],
+  imports: [CommonModule, RouterLink, NgbDropdownModule, NgbTooltipModule]
+})
+export class ProblemBoardComponent implements OnChanges, OnDestroy {
+  /**
+   * Sort and filters of the problem list (the paging settings are ignored: the board shows all matching problems).
+   */
+  @Input() query: ProblemQuery | null = null;
+
+  private readonly problemService: ProblemService = inject(ProblemService);
+  private readonly problemStore: ProblemStore = inject(ProblemStore);
+  private readonly permissionService: PermissionService = inject(PermissionService);
+  private readonly notificationService: NotificationService = inject(NotificationService);
+  private readonly localeService: LocaleService = inject(LocaleService);
+  private readonly modalService: NgbModal = inject(NgbModal);
+
+  /**
+   * Problems matching the filters, with the optimistic status changes applied.
+   */
+  public readonly problems: WritableSignal<Problem[]> = signal<Problem[]>([]);
+
+  /**
+   * Number of problems matching the filters (may exceed the displayed ones, see {@link PROBLEM_BOARD_MAX_PROBLEMS}).
+   */
+  public readonly total: WritableSignal<number> = signal<number>(0);
+
+  public readonly loading: WritableSignal<boolean> = signal<boolean>(false);
+
+  /**
+   * Problem being dragged, null when no drag is in progress.
+   */
+  public readonly draggedProblem: WritableSignal<Problem | null> = signal<Problem | null>(null);
+
+  /**
+   * Column the dragged problem is over.
+   */
+  public readonly dropTarget: WritableSignal<ProblemStatus | null> = signal<ProblemStatus | null>(null);
+
+  /**
+   * IDs of the problems whose status change is being saved.
+   */
+  public readonly pendingIds: WritableSignal<ReadonlySet<number>> = signal<ReadonlySet<number>>(new Set<number>());
+
+  /**
+   * Columns of the board: the statuses selected by the status filter (all statuses without filter),
+   * followed by a column of the problems with an unknown status when there are some.
+   */
+  public readonly columns: Signal<ProblemBoardColumn[]> = computed<ProblemBoardColumn[]>(() => {
+    const problems: Problem[] = this.problems();
+    const selectedStatuses: ReadonlyArray<string> = this.queryStatuses();
+    const statuses: ReadonlyArray<ProblemStatus> = selectedStatuses.length > 0
+      ? PROBLEM_STATUS_ORDER.filter((status: ProblemStatus) => selectedStatuses.includes(status))
+      : PROBLEM_STATUS_ORDER;
+    const columns: ProblemBoardColumn[] = statuses.map((status: ProblemStatus) => ({
+      status,
+      label: PROBLEM_STATUS_LABELS[status],
+      badgeClass: getProblemStatusBadgeClass(status),
+      problems: problems.filter((problem: Problem) => toProblemStatus(problem.status) === status)
+    }));
+    const unknownStatusProblems: Problem[] = problems.filter((problem: Problem) => toProblemStatus(problem.status) === null);
+    if (unknownStatusProblems.length > 0) {
+      columns.push({
+        status: null,
+        label: $localize`Other`,
+        badgeClass: getProblemStatusBadgeClass(null),
+        problems: unknownStatusProblems
+      });
+    }
+    return columns;
+  });
+
+  private readonly queryStatuses: WritableSignal<ReadonlyArray<string>> = signal<ReadonlyArray<string>>([]);
+  private fetchSubscription: Subscription | null = null;
+
+  public ngOnChanges(changes: SimpleChanges): void {
+    const previous: ProblemQuery | null = changes['query']?.previousValue ?? null;
+    if (changes['query'] !== undefined && this.toBoardQueryKey(previous) !== this.toBoardQueryKey(this.query)) {
+      this.queryStatuses.set(this.query?.statuses ?? []);
+      this.refresh();
+    }
+  }
+
+  public ngOnDestroy(): void {
+    this.fetchSubscription?.unsubscribe();
+  }
+
+  /**
+   * Fetches the problems matching the filters again.
+   */
+  public refresh(): void {
+    if (this.query === null) {
+      return;
+    }
+    this.fetchSubscription?.unsubscribe();
+    this.loading.set(true);
+    const query: ProblemQuery = { ...this.query, page: 1, pageSize: PROBLEM_BOARD_MAX_PROBLEMS };
+    this.fetchSubscription = this.problemService.fetchProblemsOfUserGroups(query).subscribe({
+      next: (result: PagedResult<Problem>): void => {
+        this.problems.set(result.items);
+        this.total.set(result.total);
+        this.loading.set(false);
+      },
+      error: (error: unknown): void => {
+        console.error('Error loading problem board:', error);
+        this.loading.set(false);
+      }
+    });
+  }
+
+  /**
+   * Whether the current user can move a problem to another column.
+   * @param problem The problem
+   */
+  public canMove(problem: Problem): boolean {
+    return problem.id !== undefined
+      && problem.archived !== true
+      && this.pendingIds().has(problem.id) === false
+      && this.permissionService.canChangeStatus(problem);
+  }
+
+  /**
+   * Returns the statuses a problem can be moved to, displayed in its "Move to" menu.
+   * @param problem The problem
+   */
+  public getTargetStatuses(problem: Problem): ReadonlyArray<ProblemStatus> {
+    const current: ProblemStatus | null = toProblemStatus(problem.status);
+    return current === null ? [ProblemStatus.NEW] : PROBLEM_STATUS_TRANSITIONS[current];
+  }
+
+  /**
+   * Whether the dragged problem can be dropped on a column (the workflow allows the transition).
+   * @param status The status of the column
+   */
+  public canDrop(status: ProblemStatus | null): boolean {
+    const problem: Problem | null = this.draggedProblem();
+    if (problem === null || status === null) {
+      return false;
+    }
+    const current: ProblemStatus | null = toProblemStatus(problem.status);
+    return current !== status && isStatusTransitionAllowed(current, status);
+  }
+
+  public onDragStart(event: DragEvent, problem: Problem): void {
+    if (this.canMove(problem) === false) {
+      event.preventDefault();
+      return;
+    }
+    event.dataTransfer?.setData('text/plain', String(problem.id));
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+    }
+    this.draggedProblem.set(problem);
+  }
+
+  public onDragEnd(): void {
+    this.draggedProblem.set(null);
+    this.dropTarget.set(null);
+  }
+
+  public onDragOver(event: DragEvent, status: ProblemStatus | null): void {
+    if (this.canDrop(status) === false) {
+      return;
+    }
+    // Accepting the drop: without preventDefault, the browser refuses it
+    event.preventDefault();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = 'move';
+    }
+    this.dropTarget.set(status);
+  }
+
+  public onDragLeave(event: DragEvent, status: ProblemStatus | null): void {
+    const column: EventTarget | null = event.currentTarget;
+    const target: EventTarget | null = event.relatedTarget;
+    // Leaving a card for the column around it is not leaving the column
+    if (column instanceof HTMLElement && target instanceof Node && column.contains(target)) {
+      return;
+    }
+    if (this.dropTarget() === status) {
+      this.dropTarget.set(null);
+    }
+  }
+
+  public onDrop(event: DragEvent, status: ProblemStatus | null): void {
+    event.preventDefault();
+    const problem: Problem | null = this.draggedProblem();
+    const canDrop: boolean = this.canDrop(status);
+    this.onDragEnd();
+    if (problem !== null && status !== null && canDrop === true) {
+      this.requestMove(problem, status);
+    }
+  }
+
+  /**
+   * Moves a problem to another status, asking for a reason first when the status requires one.
+   * @param problem The problem
+   * @param status The new status
+   */
+  public requestMove(problem: Problem, status: ProblemStatus): void {
+    const current: ProblemStatus | null = toProblemStatus(problem.status);
+    if (this.canMove(problem) === false || isStatusTransitionAllowed(current, status) === false) {
+      return;
+    }
+    if (isStatusReasonRequired(current, status) === false) {
+      this.moveProblem(problem, status, undefined);
+      return;
+    }
+
+    // Blur any focused element to prevent aria-hidden accessibility warning
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+
+    const modalRef = this.modalService.open(StatusReasonDialogComponent, {
+      size: 'md',
+      backdrop: 'static',
+      keyboard: false
+    });
+
+    modalRef.componentInstance.initialize(problem.name || $localize`:@@unknown:Unknown`, PROBLEM_STATUS_LABELS[status]);
+
+    modalRef.result.then(
+      (reason: string) => this.moveProblem(problem, status, reason),
+      (reason: unknown) => {
+        console.log('Status reason dialog dismissed', reason);
+      }
+    );
+  }
+
+  /**
+   * Returns the localized label of a status.
+   * @param status The status
+   */
+  public getStatusLabel(status: ProblemStatus): string {
+    return PROBLEM_STATUS_LABELS[status];
+  }
+
+  /**
+   * Returns the full name of the author by concatenating firstName and surname.
+   * @param creator The problem creator
+   * @returns The full name, or '-' if no creator is provided
+   */
+  public getAuthorFullName(creator: User | undefined): string {
+    if (!creator) {
+      return '-';
+    }
+    return `${creator.firstName || ''} ${creator.surname || ''}`.trim() || '-';
+  }
+
+  /**
+   * Expose current locale signal for template usage (links to the problem detail page).
+   */
+  public currentLocale(): string {
+    return this.localeService.currentLocale();
+  }
+
+  /**
+   * Whether the status change of a problem is being saved.
+   * @param problem The problem
+   */
+  public isPending(problem: Problem): boolean {
+    return problem.id !== undefined && this.pendingIds().has(problem.id);
+  }
+
+  /**
+   * Moves the card at once, then saves the new status; the card goes back to its column when saving fails
+   * (the error itself is reported by the HTTP error interceptor).
+   */
+  private moveProblem(problem: Problem, status: ProblemStatus, statusReason: string | undefined): void {
+    const id: number | undefined = problem.id;
+    if (id === undefined) {
+      return;
+    }
+    const previousStatus: string | undefined = problem.status;
+    this.setProblemStatus(id, status);
+    this.setPending(id, true);
+
+    const body: UpdateProblemDto = { status };
+    this.problemService.updateProblemWithReason(id, body, statusReason).subscribe({
+      next: (): void => {
+        this.setPending(id, false);
+        // The cached pages of the table hold the previous status
+        this.problemStore.invalidate();
+        this.notificationService.showSuccess($localize`Problem moved to ${PROBLEM_STATUS_LABELS[status]}:status:.`);
+      },
+      error: (error: unknown): void => {
+        console.error('Error moving problem:', error);
+        this.setProblemStatus(id, previousStatus);
+        this.setPending(id, false);
+        if (error instanceof AppError === false) {
+          this.notificationService.showWarning($localize`The problem could not be moved.`);
+        }
+      }
+    });
+  }
+
+  private setProblemStatus(id: number, status: string | undefined): void {
+    this.problems.update((problems: Problem[]) =>
+      problems.map((problem: Problem) => problem.id === id ? { ...problem, status } : problem)
+    );
+  }
+
+  private setPending(id: number, pending: boolean): void {
+    this.pendingIds.update((ids: ReadonlySet<number>) => {
+      const nextIds: Set<number> = new Set<number>(ids);
+      if (pending === true) {
+        nextIds.add(id);
+      } else {
+        nextIds.delete(id);
+      }
+      return nextIds;
+    });
+  }
+
+  /**
+   * Key of the filters and sort of a query (the paging settings do not change the board).
+   */
+  private toBoardQueryKey(query: ProblemQuery | null): string {
+    if (query === null) {
+      return '';
+    }
+    const { page, pageSize, ...filters } = query;
+    return JSON.stringify(filters);
+  }
+}
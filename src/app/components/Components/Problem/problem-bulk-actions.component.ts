@@ -0,0 +1,408 @@
+/**
+ * Toolbar of the actions applied to the problems selected in the table: status change, visibility change,
+ * group authorization grant or revocation, and deletion.
+ *
+ * @remarks
+ * The requests run a few at a time (see {@link runBulkOperation}) without one toast per failure:
+ * the outcome of every problem is reported once, in a summary. Problems the action would not change
+ * (e.g. already in the target status) get no request and are reported as unchanged.
+ */
+
+import { CommonModule } from '@angular/common';
+import { HttpContext } from '@angular/common/http';
+import { Component, EventEmitter, inject, Input, Output, signal, WritableSignal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { NgbDropdownModule, NgbModal, NgbTooltipModule } from '@ng-bootstrap/ng-bootstrap';
+import { UpdateProblemDto } from '@shared/dto';
+import { Authorization } from '@shared/dto/group/authorization.enum';
+import { ProblemStatus } from '@shared/dto/problem/problem-status.enum';
+import { Observable } from 'rxjs';
+
+import { Group, GroupAuthorization, Problem } from '../../../model';
+import { SKIP_ERROR_NOTIFICATION } from '../../../interceptors/skip-error-notification.token';
+import { GroupService } from '../../../services/group.service';
+import { NotificationService } from '../../../services/notification.service';
+import { PermissionService } from '../../../services/permission.service';
+import { ProblemService } from '../../../services/problem.service';
+import { BulkItemFailure, BulkOperationResult, runBulkOperation, withRefusedItems } from '../../../utils/bulk-operation';
+import { getProblemStatusBadgeClass, PROBLEM_STATUS_LABELS } from '../../../utils/problem-status-labels';
+import {
+  isStatusReasonRequired,
+  isStatusTransitionAllowed,
+  PROBLEM_STATUS_ORDER,
+  toProblemStatus
+} from '../../../utils/problem-status-workflow';
+import { BulkOperationSummaryDialogComponent, BulkOperationSummaryFailure } from '../Common/bulk-operation-summary-dialog.component';
+import { ConfirmationDialogComponent } from '../Common/confirmation-dialog.component';
+import { StatusReasonDialogComponent } from './status-reason-dialog.component';
+
+/**
+ * Problems split by whether the current user may apply an action to them, and whether it changes them.
+ */
+interface BulkTargets {
+  readonly eligible: Problem[];
+  readonly refused: BulkItemFailure<Problem>[];
+  /**
+   * Problems the action applies to but would leave as they are (no request is sent).
+   */
+  readonly unchanged: Problem[];
+}
+
+@Component({
+  selector: 'app-problem-bulk-actions',
+  standalone: true,
+  templateUrl: './problem-bulk-actions.component.html',
+  imports: [CommonModule, FormsModule, NgbDropdownModule, NgbTooltipModule]
+})
+export class ProblemBulkActionsComponent {
+  /**
+   * Selected problems.
+   */
+  @Input() selection: ReadonlyArray<Problem> = [];
+
+  /**
+   * Emits the outcome of each action once all its requests are done.
+   */
+  @Output() completed: EventEmitter<BulkOperationResult<Problem>> = new EventEmitter<BulkOperationResult<Problem>>();
+
+  /**
+   * Emits when the user clears the selection.
+   */
+  @Output() selectionCleared: EventEmitter<void> = new EventEmitter<void>();
+
+  private readonly problemService: ProblemService = inject(ProblemService);
+  private readonly groupService: GroupService = inject(GroupService);
+  private readonly permissionService: PermissionService = inject(PermissionService);
+  private readonly notificationService: NotificationService = inject(NotificationService);
+  private readonly modalService: NgbModal = inject(NgbModal);
+
+  public readonly statusOptions: ReadonlyArray<ProblemStatus> = PROBLEM_STATUS_ORDER;
+
+  public readonly authorizationLevels: ReadonlyArray<Authorization> = [
+    Authorization.ADMINISTRATOR,
+    Authorization.CONTRIBUTOR,
+    Authorization.READER
+  ];
+
+  /**
+   * Groups offered by the group authorization menu (fetched when the menu first opens).
+   */
+  public readonly groups: WritableSignal<Group[]> = signal<Group[]>([]);
+
+  public selectedGroupId: number | null = null;
+  public selectedAuthLevel: Authorization = Authorization.READER;
+
+  /**
+   * Whether an action is running.
+   */
+  public readonly running: WritableSignal<boolean> = signal<boolean>(false);
+
+  /**
+   * Number of problems processed by the running action, out of {@link progressTotal}.
+   */
+  public readonly progress: WritableSignal<number> = signal<number>(0);
+  public readonly progressTotal: WritableSignal<number> = signal<number>(0);
+
+  private groupsLoaded: boolean = false;
+
+  /**
+   * Fetches the groups the first time the group authorization menu opens.
+   * @param open Whether the menu opens
+   */
+  public onAuthorizationMenuOpenChange(open: boolean): void {
+    if (open === false || this.groupsLoaded === true) {
+      return;
+    }
+    this.groupsLoaded = true;
+    this.groupService.fetchGroups().subscribe({
+      next: (groups: Group[]): void => this.groups.set(groups),
+      error: (error: unknown): void => {
+        console.error('Error loading groups:', error);
+        this.groupsLoaded = false;
+      }
+    });
+  }
+
+  /**
+   * Sets the status of the selected problems, asking for a reason first when the status requires one.
+   * Problems already in this status are left as they are.
+   * @param status The new status
+   */
+  public changeStatus(status: ProblemStatus): void {
+    const targets: BulkTargets = this.splitTargets(
+      (problem: Problem) => this.permissionService.canChangeStatus(problem),
+      $localize`You are not allowed to change the status of this problem.`,
+      (problem: Problem) => isStatusTransitionAllowed(toProblemStatus(problem.status), status)
+        ? null
+        : $localize`This status change is not allowed.`,
+      (problem: Problem) => toProblemStatus(problem.status) === status
+    );
+    const run = (statusReason: string | undefined): void => {
+      const body: UpdateProblemDto = { status };
+      this.run(
+        $localize`Change status`,
+        targets,
+        (problem: Problem) => this.problemService.updateProblemWithReason(problem.id!, body, statusReason, this.createContext()),
+        (count: number) => $localize`Status changed for ${count}:count: problems.`
+      );
+    };
+
+    const reasonRequired: boolean = targets.eligible
+      .some((problem: Problem) => isStatusReasonRequired(toProblemStatus(problem.status), status));
+    if (reasonRequired === false) {
+      run(undefined);
+      return;
+    }
+
+    // Blur any focused element to prevent aria-hidden accessibility warning
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+
+    const modalRef = this.modalService.open(StatusReasonDialogComponent, {
+      size: 'md',
+      backdrop: 'static',
+      keyboard: false
+    });
+
+    modalRef.componentInstance.initialize($localize`${targets.eligible.length}:count: problems`, PROBLEM_STATUS_LABELS[status]);
+
+    modalRef.result.then(
+      (reason: string) => run(reason),
+      (reason: unknown) => {
+        console.log('Status reason dialog dismissed', reason);
+      }
+    );
+  }
+
+  /**
+   * Makes the selected problems public or private.
+   * @param open True for public, false for private
+   */
+  public changeVisibility(open: boolean): void {
+    const targets: BulkTargets = this.splitTargets(
+      (problem: Problem) => this.permissionService.canEdit(problem),
+      $localize`You are not allowed to edit this problem.`
+    );
+    this.run(
+      $localize`Change visibility`,
+      targets,
+      (problem: Problem) => this.problemService.updateProblem(problem.id!, { open }, this.createContext()),
+      (count: number) => $localize`Visibility changed for ${count}:count: problems.`
+    );
+  }
+
+  /**
+   * Grants the selected group the selected authorization level on the selected problems.
+   */
+  public grantGroupAuthorization(): void {
+    const group: Group | undefined = this.getSelectedGroup();
+    if (group?.id === undefined) {
+      return;
+    }
+    const groupId: number = group.id;
+    const level: Authorization = this.selectedAuthLevel;
+    const targets: BulkTargets = this.splitTargets(
+      (problem: Problem) => this.permissionService.canManageAuthorizations(problem),
+      $localize`You are not allowed to manage the authorizations of this problem.`,
+      (problem: Problem) => this.findGroupAuthorization(problem, groupId) === undefined
+        ? null
+        : $localize`This group already has an authorization on this problem.`
+    );
+    this.run(
+      $localize`Grant access`,
+      targets,
+      (problem: Problem) => this.problemService.createGroupAuthorization(groupId, problem.id!, level, this.createContext()),
+      (count: number) => $localize`Access granted on ${count}:count: problems.`
+    );
+  }
+
+  /**
+   * Revokes the authorization of the selected group on the selected problems (problems the group has no
+   * authorization on are left as they are).
+   */
+  public revokeGroupAuthorization(): void {
+    const group: Group | undefined = this.getSelectedGroup();
+    if (group?.id === undefined) {
+      return;
+    }
+    const groupId: number = group.id;
+    const targets: BulkTargets = this.splitTargets(
+      (problem: Problem) => this.permissionService.canManageAuthorizations(problem),
+      $localize`You are not allowed to manage the authorizations of this problem.`,
+      (): null => null,
+      (problem: Problem) => this.findGroupAuthorization(problem, groupId)?.id === undefined
+    );
+    this.run(
+      $localize`Revoke access`,
+      targets,
+      (problem: Problem) => this.problemService.deleteGroupAuthorization(this.findGroupAuthorization(problem, groupId)!.id!, this.createContext()),
+      (count: number) => $localize`Access revoked on ${count}:count: problems.`
+    );
+  }
+
+  /**
+   * Opens the confirmation dialog before deleting the selected problems.
+   */
+  public openDeleteConfirmation(): void {
+    // Blur any focused element to prevent aria-hidden accessibility warning
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+
+    const modalRef = this.modalService.open(ConfirmationDialogComponent, {
+      size: 'md',
+      backdrop: 'static',
+      keyboard: false
+    });
+
+    const count: number = this.selection.length;
+    modalRef.componentInstance.initialize(
+      $localize`Confirm Deletion`,
+      $localize`Are you sure you want to delete the <strong>${count}:count: selected problems</strong>? This action cannot be undone.`,
+      $localize`Delete`,
+      $localize`Cancel`,
+      'btn-danger',
+      'delete'
+    );
+
+    modalRef.result.then(
+      (result: string) => {
+        if (result === 'delete') {
+          this.deleteProblems();
+        }
+      },
+      (reason: unknown) => {
+        console.log('Delete confirmation dismissed', reason);
+      }
+    );
+  }
+
+  /**
+   * Returns the localized label of a status.
+   * @param status The status
+   */
+  public getStatusLabel(status: ProblemStatus): string {
+    return PROBLEM_STATUS_LABELS[status];
+  }
+
+  /**
+   * Returns the badge color class of a status.
+   * @param status The status
+   */
+  public getStatusBadgeClass(status: ProblemStatus): string {
+    return getProblemStatusBadgeClass(status);
+  }
+
+  private deleteProblems(): void {
+    const targets: BulkTargets = this.splitTargets(
+      (problem: Problem) => this.permissionService.canDelete(problem),
+      $localize`You are not allowed to delete this problem.`
+    );
+    this.run(
+      $localize`Delete problems`,
+      targets,
+      (problem: Problem) => this.problemService.deleteProblem(problem.id!, this.createContext()),
+      (count: number) => $localize`${count}:count: problems deleted.`
+    );
+  }
+
+  /**
+   * Splits the selection between the problems the action applies to and the refused ones.
+   * @param isAllowed Whether the current user may apply the action to a problem
+   * @param notAllowedMessage Reason reported for the problems the user may not change
+   * @param getRefusal Returns the reason the action does not apply to a problem, null when it applies
+   * @param isUnchanged Whether the action would leave a problem as it is
+   */
+  private splitTargets(
+    isAllowed: (problem: Problem) => boolean,
+    notAllowedMessage: string,
+    getRefusal: (problem: Problem) => string | null = (): null => null,
+    isUnchanged: (problem: Problem) => boolean = (): boolean => false
+  ): BulkTargets {
+    const eligible: Problem[] = [];
+    const refused: BulkItemFailure<Problem>[] = [];
+    const unchanged: Problem[] = [];
+    for (const problem of this.selection) {
+      const refusal: string | null = problem.id === undefined || isAllowed(problem) === false
+        ? notAllowedMessage
+        : getRefusal(problem);
+      if (refusal !== null) {
+        refused.push({ item: problem, message: refusal });
+      } else if (isUnchanged(problem)) {
+        unchanged.push(problem);
+      } else {
+        eligible.push(problem);
+      }
+    }
+    return { eligible, refused, unchanged };
+  }
+
+  /**
+   * Runs an action on the eligible problems, then reports the outcome: a toast when every problem succeeded,
+   * the summary dialog otherwise. Unchanged problems are counted apart from the succeeded ones.
+   */
+  private run(
+    title: string,
+    targets: BulkTargets,
+    operation: (problem: Problem) => Observable<unknown>,
+    getSuccessMessage: (count: number) => string
+  ): void {
+    this.running.set(true);
+    this.progress.set(0);
+    this.progressTotal.set(targets.eligible.length);
+    runBulkOperation(targets.eligible, operation, (doneCount: number) => this.progress.set(doneCount)).subscribe(
+      (operationResult: BulkOperationResult<Problem>): void => {
+        this.running.set(false);
+        const result: BulkOperationResult<Problem> = withRefusedItems(operationResult, targets.refused);
+        const unchangedCount: number = targets.unchanged.length;
+        if (result.failed.length > 0) {
+          this.openSummary(title, result, unchangedCount);
+        } else if (result.succeeded.length === 0) {
+          this.notificationService.showInfo(getUnchangedMessage(unchangedCount));
+        } else {
+          const successMessage: string = getSuccessMessage(result.succeeded.length);
+          this.notificationService.showSuccess(unchangedCount > 0 ? `${successMessage} ${getUnchangedMessage(unchangedCount)}` : successMessage);
+        }
+        this.completed.emit(result);
+      }
+    );
+  }
+
+  private openSummary(title: string, result: BulkOperationResult<Problem>, unchangedCount: number): void {
+    const modalRef = this.modalService.open(BulkOperationSummaryDialogComponent, {
+      size: 'md',
+      backdrop: 'static',
+      keyboard: false
+    });
+
+    const failures: BulkOperationSummaryFailure[] = result.failed.map((failure: BulkItemFailure<Problem>) => ({
+      label: failure.item.name || `#${failure.item.id}`,
+      message: failure.message
+    }));
+    modalRef.componentInstance.initialize(title, result.succeeded.length, failures, unchangedCount);
+  }
+
+  private getSelectedGroup(): Group | undefined {
+    return this.groups().find((group: Group) => group.id === this.selectedGroupId);
+  }
+
+  private findGroupAuthorization(problem: Problem, groupId: number): GroupAuthorization | undefined {
+    return problem.groupAuthorizations?.find((authorization: GroupAuthorization) => authorization.group?.id === groupId);
+  }
+
+  /**
+   * Request context of the bulk requests: their errors are reported in the summary rather than in toasts.
+   */
+  private createContext(): HttpContext {
+    return new HttpContext().set(SKIP_ERROR_NOTIFICATION, true);
+  }
+}
+
+/**
+ * Returns the message reporting the problems an action left as they were.
+ * @param count Number of unchanged problems
+ */
+function getUnchangedMessage(count: number): string {
+  return $localize`${count}:count: problems were already up to date.`;
+}
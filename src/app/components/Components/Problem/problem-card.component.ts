@@ -6,64 +6,302 @@
 */
 
 import { CommonModule } from '@angular/common';
-import { Component, OnInit } from '@angular/core';
+import { Component, computed, DestroyRef, Inject, LOCALE_ID, OnInit, Signal, signal, ViewChild, WritableSignal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { FormsModule } from '@angular/forms';
-import { NgbPopoverModule, NgbTooltipModule, NgbDropdownModule, NgbModalModule, NgbModal } from '@ng-bootstrap/ng-bootstrap';
+import { ActivatedRoute, ParamMap, Params, Router, RouterLink } from '@angular/router';
+import { NgbPopoverModule, NgbTooltipModule, NgbDropdownModule, NgbModalModule, NgbModal, NgbPaginationModule } from '@ng-bootstrap/ng-bootstrap';
 import { Authorization } from '@shared/dto/group/authorization.enum';
 import { ProblemStatus } from '@shared/dto/problem/problem-status.enum';
-import { Problem, User, GroupAuthorization } from '../../../model';
+import { GroupAuthorization, PagedResult, Problem, ProblemQuery, ProblemSortColumn, ProblemViewFilters, SavedProblemView, User } from '../../../model';
 import { ProblemService } from '../../../services/problem.service';
+import { ProblemStore } from '../../../services/problem-store.service';
+import { LocaleService } from '../../../services/locale.service';
+import { NotificationService } from '../../../services/notification.service';
+import { PermissionService } from '../../../services/permission.service';
+import { ProblemViewService } from '../../../services/problem-view.service';
+import { UnsavedChangesService } from '../../../services/unsaved-changes.service';
 import { ProblemAddComponent } from '../../Pages/problem-add.component';
-import { DateRangeFilterComponent, DateRangeChange } from '../Common/date-range-filter.component';
-import { Observable } from 'rxjs';
-import { map } from 'rxjs/operators';
+import { ConfirmationDialogComponent } from '../Common/confirmation-dialog.component';
+import { ExportMenuComponent } from '../Common/export-menu.component';
+import {
+  DateRangeChange,
+  DateRangeFilterComponent,
+  DateRangePresetId,
+  isDateRangePresetId,
+  resolveDateRangePreset
+} from '../Common/date-range-filter.component';
+import { ProblemBoardComponent } from './problem-board.component';
+import { ProblemBulkActionsComponent } from './problem-bulk-actions.component';
+import { ProblemImportComponent } from './problem-import.component';
+import { ProblemViewMenuComponent } from './problem-view-menu.component';
+import { PROBLEM_STATUS_ORDER, toProblemStatus } from '../../../utils/problem-status-workflow';
+import { BulkItemFailure, BulkOperationResult } from '../../../utils/bulk-operation';
+import { ExportColumn, ExportFormat, exportRows } from '../../../utils/table-export';
+import { getProblemStatusBadgeClass, getProblemStatusLabel } from '../../../utils/problem-status-labels';
+import { getProblemVisibilityLabel } from '../../../utils/problem-visibility-labels';
+import {
+  formatSortParam,
+  isListQueryParamsNavigation,
+  LIST_QUERY_PARAMS,
+  ListSort,
+  parseSortParam,
+  readBooleanParam,
+  readDateParam,
+  readPositiveIntParam,
+  readTextParam,
+  toParamValue,
+  writeListQueryParams
+} from '../../../utils/list-query-params';
+import { EMPTY, Observable, Subject } from 'rxjs';
+import { debounceTime, expand, reduce, skip } from 'rxjs/operators';
 
-type SortColumn = 'name' | 'description' | 'status' | 'creationDate' | 'author' | '';
+type SortColumn = ProblemSortColumn | '';
 type SortDirection = 'asc' | 'desc' | '';
 
+/**
+ * Display of the problems: paged table, or board with one column per status.
+ */
+type ProblemListDisplay = 'table' | 'board';
+
+/**
+ * Filter, sort and paging settings of the problems table.
+ */
+interface ProblemListCriteria {
+  readonly name: string;
+  readonly description: string;
+  readonly statuses: ReadonlyArray<ProblemStatus>;
+  readonly author: string;
+  readonly groups: string;
+  readonly creationDateFrom: string;
+  readonly creationDateTo: string;
+  readonly showArchived: boolean;
+  readonly sortColumn: SortColumn;
+  readonly sortDirection: SortDirection;
+  readonly page: number;
+  readonly pageSize: number;
+  readonly display: ProblemListDisplay;
+}
+
+/**
+ * Text filters, applied once the user stops typing.
+ */
+type TextFilterChange = Partial<Pick<ProblemListCriteria, 'name' | 'description' | 'author' | 'groups'>>;
+
+const DEFAULT_CRITERIA: ProblemListCriteria = {
+  name: '',
+  description: '',
+  statuses: [],
+  author: '',
+  groups: '',
+  creationDateFrom: '',
+  creationDateTo: '',
+  showArchived: false,
+  sortColumn: '',
+  sortDirection: '',
+  page: 1,
+  pageSize: 25,
+  display: 'table'
+};
+
+/**
+ * Delay before a text filter is sent to the backend.
+ */
+const TEXT_FILTER_DEBOUNCE_MS: number = 300;
+
+/**
+ * Columns the table can be sorted by (accepted in the `sort` query parameter).
+ */
+const SORT_COLUMNS: ReadonlyArray<ProblemSortColumn> = ['name', 'description', 'status', 'creationDate', 'author'];
+
+/**
+ * Maximum number of problems selected by "select all matching problems".
+ */
+const SELECT_ALL_MAX_PROBLEMS: number = 1000;
+
+/**
+ * Number of problems fetched per request when exporting all the problems matching the filters.
+ */
+const EXPORT_PAGE_SIZE: number = 500;
+
+/**
+ * Columns of the problem exports, including the derived ones (author name, group authorizations).
+ */
+const PROBLEM_EXPORT_COLUMNS: ReadonlyArray<ExportColumn<Problem>> = [
+  { key: 'id', header: $localize`ID`, value: (problem: Problem) => problem.id },
+  { key: 'name', header: $localize`Name`, value: (problem: Problem) => problem.name },
+  { key: 'description', header: $localize`Description`, value: (problem: Problem) => problem.description },
+  { key: 'status', header: $localize`Status`, value: (problem: Problem) => problem.status ? getProblemStatusLabel(problem.status) : null },
+  { key: 'visibility', header: $localize`Visibility`, value: (problem: Problem) => getProblemVisibilityLabel(problem.open) },
+  { key: 'creationDate', header: $localize`Creation date`, value: (problem: Problem) => problem.creationDate ? new Date(problem.creationDate) : null },
+  {
+    key: 'author',
+    header: $localize`Author`,
+    value: (problem: Problem) => `${problem.creator?.firstName || ''} ${problem.creator?.surname || ''}`.trim() || null
+  },
+  { key: 'authorEmail', header: $localize`Author email`, value: (problem: Problem) => problem.creator?.email },
+  {
+    key: 'groupAuthorizations',
+    header: $localize`Group authorizations`,
+    value: (problem: Problem) => (problem.groupAuthorizations ?? [])
+      .map((authorization: GroupAuthorization) => `${authorization.group?.name ?? '?'} (${authorization.authorizationLevel ?? '?'})`)
+      .join('; ')
+  },
+  { key: 'archived', header: $localize`Archived`, value: (problem: Problem) => problem.archived === true }
+];
+
+/**
+ * Query parameters holding the problem filters (e.g. `?status=Blocked&status=New&sort=creationDate:desc&from=2026-01-01`).
+ */
+const PROBLEM_QUERY_PARAMS = {
+  name: 'name',
+  description: 'description',
+  status: 'status',
+  author: 'author',
+  groups: 'groups',
+  archived: 'archived',
+  display: 'display'
+} as const;
+
 @Component({
   selector: 'app-problem-card',
   standalone: true,
   templateUrl: './problem-card.component.html',
   styleUrls: ['./problem-card.component.scss'],
-  imports: [CommonModule, NgbPopoverModule, NgbTooltipModule, NgbDropdownModule, NgbModalModule, FormsModule, DateRangeFilterComponent]
+  imports: [CommonModule, RouterLink, NgbPopoverModule, NgbTooltipModule, NgbDropdownModule, NgbModalModule, NgbPaginationModule, FormsModule, DateRangeFilterComponent, ProblemViewMenuComponent, ProblemBoardComponent, ProblemBulkActionsComponent, ExportMenuComponent]
 })
 export class ProblemCardComponent implements OnInit {
-  public currentUserProblems$!: Observable<Problem[] | undefined>;
-  public sortColumn: SortColumn = '';
-  public sortDirection: SortDirection = '';
-  public filterName: string = '';
-  public filterDescription: string = '';
-  public filterStatusSet: Set<string> = new Set<string>();
-  public filterAuthor: string = '';
-  public filterGroups: string = '';
-  public filterCreationDateFrom: string = '';
-  public filterCreationDateTo: string = '';
+  /**
+   * Current filter, sort and paging settings.
+   */
+  public readonly criteria: WritableSignal<ProblemListCriteria> = signal<ProblemListCriteria>(DEFAULT_CRITERIA);
+
+  /**
+   * Problems of the displayed page (filtered, sorted and paged by the backend).
+   */
+  public readonly problems: Signal<Problem[] | undefined> = computed<Problem[] | undefined>(
+    () => this.problemStore.page()?.items
+  );
+
+  /**
+   * Total number of problems matching the filters.
+   */
+  public readonly total: Signal<number> = computed<number>(() => this.problemStore.page()?.total ?? 0);
+
+  /**
+   * Whether the problem list is being fetched.
+   */
+  public readonly loading: Signal<boolean>;
+
+  /**
+   * Page sizes offered by the pager.
+   */
+  public readonly pageSizeOptions: ReadonlyArray<number> = [10, 25, 50, 100];
   
   // Row highlighting for updates
   public lastUpdatedProblemId: number | null = null;
   
   /**
-   * Available status options from ProblemStatus enum.
-   * Using $localize for runtime translation.
+   * Status values offered by the status filter, in workflow order (displayed with {@link getLocalizedStatus}).
+   */
+  public readonly statusOptions: ReadonlyArray<ProblemStatus> = PROBLEM_STATUS_ORDER;
+
+  /**
+   * Saved views of the current user.
    */
-  public readonly statusOptions: ReadonlyArray<string> = [
-    $localize`New`,
-    $localize`In Progress`,
-    $localize`Blocked`,
-    $localize`Resolved`,
-    $localize`Closed`
-  ];
+  public readonly views: WritableSignal<SavedProblemView[]> = signal<SavedProblemView[]>([]);
+
+  /**
+   * Preset the creation date range was selected with (saved in views instead of the dates), null for other ranges.
+   */
+  private readonly dateRangePreset: WritableSignal<DateRangePresetId | null> = signal<DateRangePresetId | null>(null);
+
+  /**
+   * Current filters, in the format of saved views.
+   */
+  public readonly viewFilters: Signal<ProblemViewFilters> = computed<ProblemViewFilters>(
+    () => this.toViewFilters(this.criteria(), this.dateRangePreset())
+  );
+
+  /**
+   * Filters and sort order of the board (which is not paged).
+   */
+  public readonly boardQuery: Signal<ProblemQuery> = computed<ProblemQuery>(() => this.toQuery(this.criteria()));
+
+  /**
+   * Problems selected for bulk actions, by ID (kept across pages, cleared when the filters change).
+   */
+  public readonly selectedProblems: WritableSignal<ReadonlyMap<number, Problem>> = signal<ReadonlyMap<number, Problem>>(new Map<number, Problem>());
+
+  public readonly selection: Signal<Problem[]> = computed<Problem[]>(() => [...this.selectedProblems().values()]);
+
+  /**
+   * Whether every problem of the displayed page is selected.
+   */
+  public readonly pageSelected: Signal<boolean> = computed<boolean>(() => {
+    const problems: Problem[] = this.problems() ?? [];
+    const selected: ReadonlyMap<number, Problem> = this.selectedProblems();
+    return problems.length > 0 && problems.every((problem: Problem) => problem.id !== undefined && selected.has(problem.id));
+  });
+
+  /**
+   * Whether all the problems matching the filters are being fetched to be selected.
+   */
+  public readonly selectingAll: WritableSignal<boolean> = signal<boolean>(false);
+
+  /**
+   * Filters the selection was made with.
+   */
+  private selectionFiltersKey: string = '';
+
+  /**
+   * Whether the problems are being fetched for an export.
+   */
+  public readonly exporting: WritableSignal<boolean> = signal<boolean>(false);
+
+  /**
+   * Board of the problems, when displayed.
+   */
+  @ViewChild(ProblemBoardComponent) private board?: ProblemBoardComponent;
+
+  private readonly textFilterChanges: Subject<TextFilterChange> = new Subject<TextFilterChange>();
 
   constructor(
     private problemService: ProblemService,
-    private modalService: NgbModal
-  ) {}
+    private problemStore: ProblemStore,
+    private modalService: NgbModal,
+    private localeService: LocaleService,
+    private notificationService: NotificationService,
+    private permissionService: PermissionService,
+    private problemViewService: ProblemViewService,
+    private unsavedChangesService: UnsavedChangesService,
+    private router: Router,
+    private route: ActivatedRoute,
+    private destroyRef: DestroyRef,
+    @Inject(LOCALE_ID) private localeId: string
+  ) {
+    this.loading = this.problemStore.loading;
+    this.textFilterChanges.pipe(
+      debounceTime(TEXT_FILTER_DEBOUNCE_MS),
+      takeUntilDestroyed()
+    ).subscribe((change: TextFilterChange) => this.updateCriteria(change));
+  }
 
   public ngOnInit(): void {
-    this.currentUserProblems$ = this.problemService.fetchProblemsOfUserGroups().pipe(
-      map((problems: Problem[] | undefined) => this.filterAndSortProblems(problems))
-    );
+    // The URL holds the filters: restore them, then follow its changes (links, back and forward navigation)
+    const params: ParamMap = this.route.snapshot.queryParamMap;
+    this.criteria.set(this.fromQueryParams(params));
+    if (params.keys.length > 0) {
+      this.loadPage();
+      this.loadViews(false);
+    } else {
+      // Without filters in the URL, the list opens with the default view of the user (if any)
+      this.loadViews(true);
+    }
+    this.route.queryParamMap.pipe(
+      skip(1),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe((params: ParamMap) => this.onQueryParamsChange(params));
   }
 
   /**
@@ -71,44 +309,146 @@ export class ProblemCardComponent implements OnInit {
    * @param column The column to sort by
    */
   public onSort(column: SortColumn): void {
-    if (this.sortColumn === column) {
-      this.sortDirection = this.sortDirection === 'asc' ? 'desc' : 'asc';
+    const current: ProblemListCriteria = this.criteria();
+    if (current.sortColumn === column) {
+      this.updateCriteria({ sortDirection: current.sortDirection === 'asc' ? 'desc' : 'asc' });
     } else {
-      this.sortColumn = column;
-      this.sortDirection = 'asc';
+      this.updateCriteria({ sortColumn: column, sortDirection: 'asc' });
     }
-    this.refreshData();
   }
 
   /**
-   * Handles filter changes.
+   * Updates some of the filter and sort settings, going back to the first page.
+   * @param changes The settings to change
    */
-  public onFilterChange(): void {
-    this.refreshData();
+  public updateCriteria(changes: Partial<ProblemListCriteria>): void {
+    this.criteria.update((current: ProblemListCriteria) => ({ ...current, page: 1, ...changes }));
+    this.loadPage();
   }
 
   /**
-   * Clears all filters.
+   * Handles typing in a text filter: the filter is applied once the user stops typing.
+   * @param change The text filter change
+   */
+  public onTextFilterChange(change: TextFilterChange): void {
+    this.textFilterChanges.next(change);
+  }
+
+  /**
+   * Handles page changes from the pager.
+   * @param page The 1-based page number
+   */
+  public onPageChange(page: number): void {
+    if (page !== this.criteria().page) {
+      this.updateCriteria({ page });
+    }
+  }
+
+  /**
+   * Handles page size changes.
+   * @param pageSize The number of problems per page
+   */
+  public onPageSizeChange(pageSize: number): void {
+    this.updateCriteria({ pageSize: Number(pageSize) });
+  }
+
+  /**
+   * Applies the filters and sort order of a saved view (a date range preset is computed again for the current date).
+   * @param filters The filters of the view
+   */
+  public applyView(filters: ProblemViewFilters): void {
+    const preset: DateRangePresetId | null = filters.dateRangePreset !== null && isDateRangePresetId(filters.dateRangePreset)
+      ? filters.dateRangePreset
+      : null;
+    const range: DateRangeChange = preset !== null
+      ? resolveDateRangePreset(preset)
+      : { from: filters.creationDateFrom, to: filters.creationDateTo };
+    this.dateRangePreset.set(preset);
+    this.criteria.set({
+      ...DEFAULT_CRITERIA,
+      name: filters.name,
+      description: filters.description,
+      statuses: this.toProblemStatuses(filters.statuses),
+      author: filters.author,
+      groups: filters.groups,
+      creationDateFrom: range.from,
+      creationDateTo: range.to,
+      showArchived: filters.showArchived,
+      sortColumn: filters.sortColumn ?? '',
+      sortDirection: filters.sortDirection ?? '',
+      pageSize: this.criteria().pageSize,
+      display: this.criteria().display
+    });
+    this.loadPage();
+  }
+
+  /**
+   * Fetches the saved views of the current user.
+   * @param applyDefault Whether to apply the default view (or load the unfiltered list when there is none)
+   */
+  public loadViews(applyDefault: boolean = false): void {
+    this.problemViewService.fetchViews().subscribe({
+      next: (views: SavedProblemView[]): void => {
+        this.views.set(views);
+        if (applyDefault === true) {
+          const defaultView: SavedProblemView | undefined = views.find((view: SavedProblemView) => view.isDefault);
+          if (defaultView !== undefined) {
+            this.applyView(defaultView.filters);
+          } else {
+            this.loadPage();
+          }
+        }
+      },
+      error: (error: unknown): void => {
+        console.error('Error loading problem views:', error);
+        if (applyDefault === true) {
+          this.loadPage();
+        }
+      }
+    });
+  }
+
+  /**
+   * Clears all filters (the sort order, the archived toggle and the page size are kept).
    */
   public clearFilters(): void {
-    this.filterName = '';
-    this.filterDescription = '';
-    this.filterStatusSet.clear();
-    this.filterAuthor = '';
-    this.filterGroups = '';
-    this.filterCreationDateFrom = '';
-    this.filterCreationDateTo = '';
+    this.dateRangePreset.set(null);
+    const current: ProblemListCriteria = this.criteria();
+    this.criteria.set({
+      ...DEFAULT_CRITERIA,
+      showArchived: current.showArchived,
+      sortColumn: current.sortColumn,
+      sortDirection: current.sortDirection,
+      pageSize: current.pageSize,
+      display: current.display
+    });
+    this.loadPage();
+  }
+
+  /**
+   * Fetches the problems again from the backend.
+   */
+  public refresh(): void {
     this.refreshData();
   }
 
+  /**
+   * Switches between the table and the board (the filters and sort order are kept).
+   * @param display The display to switch to
+   */
+  public setDisplay(display: ProblemListDisplay): void {
+    if (display !== this.criteria().display) {
+      this.updateCriteria({ display });
+    }
+  }
+
   /**
    * Handles date range changes from the date range filter component.
    * @param change The date range change event
    */
   public onDateRangeChange(change: DateRangeChange): void {
-    this.filterCreationDateFrom = change.from;
-    this.filterCreationDateTo = change.to;
-    this.onFilterChange();
+    this.dateRangePreset.set(change.preset ?? null);
+    this.updateCriteria({ creationDateFrom: change.from, creationDateTo: change.to });
   }
 
 
@@ -116,13 +456,13 @@ export class ProblemCardComponent implements OnInit {
    * Toggles a status filter selection.
    * @param status The status to toggle
    */
-  public toggleStatusFilter(status: string): void {
-    if (this.filterStatusSet.has(status)) {
-      this.filterStatusSet.delete(status);
-    } else {
-      this.filterStatusSet.add(status);
-    }
-    this.onFilterChange();
+  public toggleStatusFilter(status: ProblemStatus): void {
+    const statuses: ReadonlyArray<ProblemStatus> = this.criteria().statuses;
+    this.updateCriteria({
+      statuses: statuses.includes(status)
+        ? statuses.filter((selected: ProblemStatus) => selected !== status)
+        : [...statuses, status]
+    });
   }
 
   /**
@@ -130,8 +470,8 @@ export class ProblemCardComponent implements OnInit {
    * @param status The status to check
    * @returns True if the status is selected
    */
-  public isStatusSelected(status: string): boolean {
-    return this.filterStatusSet.has(status);
+  public isStatusSelected(status: ProblemStatus): boolean {
+    return this.criteria().statuses.includes(status);
   }
 
   /**
@@ -139,135 +479,288 @@ export class ProblemCardComponent implements OnInit {
    * @returns The number of selected statuses
    */
   public getSelectedStatusCount(): number {
-    return this.filterStatusSet.size;
+    return this.criteria().statuses.length;
   }
 
   /**
-   * Refreshes the data by reapplying filters and sorting.
+   * Exports all the problems matching the filters (on every page), in the current sort order.
+   * @param format The file format
    */
-  private refreshData(): void {
-    this.currentUserProblems$ = this.problemService.fetchProblemsOfUserGroups().pipe(
-      map((problems: Problem[] | undefined) => this.filterAndSortProblems(problems))
-    );
+  public exportProblems(format: ExportFormat): void {
+    this.exporting.set(true);
+    this.fetchAllMatchingProblems(this.toQuery(this.criteria())).subscribe({
+      next: (problems: Problem[]): void => {
+        this.exporting.set(false);
+        exportRows(problems, PROBLEM_EXPORT_COLUMNS, format, 'problems', this.localeId);
+      },
+      error: (error: unknown): void => {
+        console.error('Error exporting problems:', error);
+        this.exporting.set(false);
+      }
+    });
+  }
+
+  /**
+   * Whether a problem is selected for bulk actions.
+   * @param problem The problem
+   */
+  public isSelected(problem: Problem): boolean {
+    return problem.id !== undefined && this.selectedProblems().has(problem.id);
   }
 
   /**
-   * Filters and sorts the problems based on current filter and sort settings.
-   * @param problems The array of problems to filter and sort
-   * @returns The filtered and sorted array of problems
+   * Selects or unselects a problem.
+   * @param problem The problem
    */
-  private filterAndSortProblems(problems: Problem[] | undefined): Problem[] | undefined {
-    if (!problems) {
-      return problems;
+  public toggleSelection(problem: Problem): void {
+    const id: number | undefined = problem.id;
+    if (id === undefined) {
+      return;
     }
+    this.selectedProblems.update((selected: ReadonlyMap<number, Problem>) => {
+      const nextSelected: Map<number, Problem> = new Map<number, Problem>(selected);
+      if (nextSelected.delete(id) === false) {
+        nextSelected.set(id, problem);
+      }
+      return nextSelected;
+    });
+  }
 
-    let filteredProblems: Problem[] = [...problems];
+  /**
+   * Selects the problems of the displayed page, or unselects them when they all are selected.
+   */
+  public togglePageSelection(): void {
+    const problems: Problem[] = this.problems() ?? [];
+    const select: boolean = this.pageSelected() === false;
+    this.selectedProblems.update((selected: ReadonlyMap<number, Problem>) => {
+      const nextSelected: Map<number, Problem> = new Map<number, Problem>(selected);
+      for (const problem of problems) {
+        if (problem.id === undefined) {
+          continue;
+        }
+        if (select === true) {
+          nextSelected.set(problem.id, problem);
+        } else {
+          nextSelected.delete(problem.id);
+        }
+      }
+      return nextSelected;
+    });
+  }
 
-    // Apply filters
-    if (this.filterName) {
-      const lowerFilterName: string = this.filterName.toLowerCase();
-      filteredProblems = filteredProblems.filter((problem: Problem) => 
-        problem.name?.toLowerCase().includes(lowerFilterName)
-      );
-    }
+  /**
+   * Selects all the problems matching the filters, on every page (up to {@link SELECT_ALL_MAX_PROBLEMS}).
+   */
+  public selectAllMatching(): void {
+    this.selectingAll.set(true);
+    const query: ProblemQuery = { ...this.toQuery(this.criteria()), page: 1, pageSize: SELECT_ALL_MAX_PROBLEMS };
+    this.problemService.fetchProblemsOfUserGroups(query).subscribe({
+      next: (result: PagedResult<Problem>): void => {
+        this.selectingAll.set(false);
+        this.selectedProblems.set(new Map<number, Problem>(
+          result.items
+            .filter((problem: Problem) => problem.id !== undefined)
+            .map((problem: Problem): [number, Problem] => [problem.id!, problem])
+        ));
+        if (result.total > result.items.length) {
+          this.notificationService.showWarning($localize`Only the first ${result.items.length}:count: problems were selected.`);
+        }
+      },
+      error: (error: unknown): void => {
+        console.error('Error selecting problems:', error);
+        this.selectingAll.set(false);
+      }
+    });
+  }
 
-    if (this.filterDescription) {
-      const lowerFilterDescription: string = this.filterDescription.toLowerCase();
-      filteredProblems = filteredProblems.filter((problem: Problem) => 
-        problem.description?.toLowerCase().includes(lowerFilterDescription)
-      );
-    }
+  public clearSelection(): void {
+    this.selectedProblems.set(new Map<number, Problem>());
+  }
 
-    if (this.filterStatusSet.size > 0) {
-      filteredProblems = filteredProblems.filter((problem: Problem) => 
-        problem.status ? this.filterStatusSet.has(problem.status) : false
-      );
-    }
+  /**
+   * Keeps the problems a bulk action failed for selected (to retry or handle them), and fetches the problems again.
+   * @param result The outcome of the bulk action
+   */
+  public onBulkActionCompleted(result: BulkOperationResult<Problem>): void {
+    this.selectedProblems.set(new Map<number, Problem>(
+      result.failed.map((failure: BulkItemFailure<Problem>): [number, Problem] => [failure.item.id!, failure.item])
+    ));
+    this.refreshData();
+  }
 
-    if (this.filterAuthor) {
-      const lowerFilterAuthor: string = this.filterAuthor.toLowerCase();
-      filteredProblems = filteredProblems.filter((problem: Problem) => {
-        const authorName: string = this.getAuthorFullName(problem.creator).toLowerCase();
-        return authorName.includes(lowerFilterAuthor);
-      });
-    }
+  /**
+   * Fetches the problems matching a query page after page.
+   * @param query The sort and filters (the paging settings are ignored)
+   * @returns Observable emitting all the problems, in the sort order of the query
+   */
+  private fetchAllMatchingProblems(query: ProblemQuery): Observable<Problem[]> {
+    const fetchPage = (page: number): Observable<PagedResult<Problem>> =>
+      this.problemService.fetchProblemsOfUserGroups({ ...query, page, pageSize: EXPORT_PAGE_SIZE });
+    return fetchPage(1).pipe(
+      expand((result: PagedResult<Problem>, index: number) =>
+        result.items.length === EXPORT_PAGE_SIZE && (index + 1) * EXPORT_PAGE_SIZE < result.total ? fetchPage(index + 2) : EMPTY
+      ),
+      reduce((problems: Problem[], result: PagedResult<Problem>) => [...problems, ...result.items], [] as Problem[])
+    );
+  }
 
-    if (this.filterGroups) {
-      const lowerFilterGroups: string = this.filterGroups.toLowerCase();
-      filteredProblems = filteredProblems.filter((problem: Problem) => {
-        return problem.groupAuthorizations?.some((auth: GroupAuthorization) => 
-          auth.group?.name?.toLowerCase().includes(lowerFilterGroups)
-        );
-      });
+  /**
+   * Fetches the problems again after a mutation.
+   */
+  private refreshData(): void {
+    if (this.criteria().display === 'board') {
+      this.problemStore.invalidate();
+      this.board?.refresh();
+    } else {
+      this.problemStore.refresh();
     }
+  }
 
-    if (this.filterCreationDateFrom) {
-      const fromDate: Date = new Date(this.filterCreationDateFrom);
-      filteredProblems = filteredProblems.filter((problem: Problem) => {
-        if (!problem.creationDate) {
-          return false;
-        }
-        const problemDate: Date = new Date(problem.creationDate);
-        return problemDate >= fromDate;
-      });
+  /**
+   * Loads the page matching the current settings (from the store cache when fresh) and records the settings in the URL.
+   * The board fetches its problems itself, when its query changes.
+   */
+  private loadPage(): void {
+    const criteria: ProblemListCriteria = this.criteria();
+    writeListQueryParams(this.router, this.route, this.toQueryParams(criteria));
+    // The selection is made among the problems matching the filters: other filters start a new selection
+    const { page, pageSize, sortColumn, sortDirection, ...filters } = this.toQuery(criteria);
+    const filtersKey: string = JSON.stringify(filters);
+    if (filtersKey !== this.selectionFiltersKey) {
+      this.selectionFiltersKey = filtersKey;
+      this.clearSelection();
+    }
+    if (criteria.display === 'table') {
+      this.problemStore.load(this.toQuery(criteria));
     }
+  }
 
-    if (this.filterCreationDateTo) {
-      const toDate: Date = new Date(this.filterCreationDateTo);
-      toDate.setHours(23, 59, 59, 999);
-      filteredProblems = filteredProblems.filter((problem: Problem) => {
-        if (!problem.creationDate) {
-          return false;
-        }
-        const problemDate: Date = new Date(problem.creationDate);
-        return problemDate <= toDate;
-      });
+  /**
+   * Applies the settings of a URL the user navigated to while the table is displayed.
+   * @param params The new query parameters
+   */
+  private onQueryParamsChange(params: ParamMap): void {
+    if (isListQueryParamsNavigation(this.router) === true) {
+      return;
+    }
+    const criteria: ProblemListCriteria = this.fromQueryParams(params);
+    if (JSON.stringify(criteria) !== JSON.stringify(this.criteria())) {
+      const current: ProblemListCriteria = this.criteria();
+      if (criteria.creationDateFrom !== current.creationDateFrom || criteria.creationDateTo !== current.creationDateTo) {
+        this.dateRangePreset.set(null);
+      }
+      this.criteria.set(criteria);
+      this.loadPage();
     }
+  }
 
-    // Apply sorting using native JavaScript
-    if (this.sortColumn && this.sortDirection) {
-      filteredProblems.sort((a: Problem, b: Problem) => {
-        let aValue: any;
-        let bValue: any;
-
-        switch (this.sortColumn) {
-          case 'name':
-            aValue = (a.name || '').toLowerCase();
-            bValue = (b.name || '').toLowerCase();
-            break;
-          case 'description':
-            aValue = (a.description || '').toLowerCase();
-            bValue = (b.description || '').toLowerCase();
-            break;
-          case 'status':
-            aValue = (a.status || '').toLowerCase();
-            bValue = (b.status || '').toLowerCase();
-            break;
-          case 'creationDate':
-            aValue = a.creationDate ? new Date(a.creationDate).getTime() : 0;
-            bValue = b.creationDate ? new Date(b.creationDate).getTime() : 0;
-            break;
-          case 'author':
-            aValue = this.getAuthorFullName(a.creator).toLowerCase();
-            bValue = this.getAuthorFullName(b.creator).toLowerCase();
-            break;
-          default:
-            aValue = '';
-            bValue = '';
-        }
+  /**
+   * Reads the table settings from the query parameters (invalid values fall back to the defaults).
+   * @param params The query parameters
+   * @returns The filter, sort and paging settings
+   */
+  private fromQueryParams(params: ParamMap): ProblemListCriteria {
+    const sort: ListSort<ProblemSortColumn> | null = parseSortParam(params.get(LIST_QUERY_PARAMS.sort), SORT_COLUMNS);
+    const statuses: ProblemStatus[] = this.toProblemStatuses(params.getAll(PROBLEM_QUERY_PARAMS.status));
+    const pageSize: number = readPositiveIntParam(params, LIST_QUERY_PARAMS.pageSize, DEFAULT_CRITERIA.pageSize);
+    return {
+      name: readTextParam(params, PROBLEM_QUERY_PARAMS.name),
+      description: readTextParam(params, PROBLEM_QUERY_PARAMS.description),
+      statuses,
+      author: readTextParam(params, PROBLEM_QUERY_PARAMS.author),
+      groups: readTextParam(params, PROBLEM_QUERY_PARAMS.groups),
+      creationDateFrom: readDateParam(params, LIST_QUERY_PARAMS.from),
+      creationDateTo: readDateParam(params, LIST_QUERY_PARAMS.to),
+      showArchived: readBooleanParam(params, PROBLEM_QUERY_PARAMS.archived) === true,
+      sortColumn: sort?.column ?? '',
+      sortDirection: sort?.direction ?? '',
+      page: readPositiveIntParam(params, LIST_QUERY_PARAMS.page, DEFAULT_CRITERIA.page),
+      pageSize: this.pageSizeOptions.includes(pageSize) ? pageSize : DEFAULT_CRITERIA.pageSize,
+      display: params.get(PROBLEM_QUERY_PARAMS.display) === 'board' ? 'board' : 'table'
+    };
+  }
 
-        // Compare values
-        if (aValue < bValue) {
-          return this.sortDirection === 'asc' ? -1 : 1;
-        }
-        if (aValue > bValue) {
-          return this.sortDirection === 'asc' ? 1 : -1;
-        }
-        return 0;
-      });
+  /**
+   * Converts raw statuses (from the URL or a saved view) to distinct {@link ProblemStatus} values; unknown values are dropped.
+   * @param values The raw statuses
+   * @returns The statuses
+   */
+  private toProblemStatuses(values: ReadonlyArray<string>): ProblemStatus[] {
+    const statuses: ProblemStatus[] = [];
+    for (const value of values) {
+      const status: ProblemStatus | null = toProblemStatus(value);
+      if (status !== null && statuses.includes(status) === false) {
+        statuses.push(status);
+      }
     }
+    return statuses;
+  }
 
-    return filteredProblems;
+  /**
+   * Converts the table settings to the filters of a saved view.
+   * @param criteria The filter, sort and paging settings
+   * @param dateRangePreset The preset of the creation date range, if any
+   * @returns The view filters (paging is not part of views)
+   */
+  private toViewFilters(criteria: ProblemListCriteria, dateRangePreset: DateRangePresetId | null): ProblemViewFilters {
+    return {
+      name: criteria.name,
+      description: criteria.description,
+      statuses: [...criteria.statuses],
+      author: criteria.author,
+      groups: criteria.groups,
+      creationDateFrom: criteria.creationDateFrom,
+      creationDateTo: criteria.creationDateTo,
+      dateRangePreset,
+      showArchived: criteria.showArchived,
+      sortColumn: criteria.sortColumn || null,
+      sortDirection: criteria.sortDirection || null
+    };
+  }
+
+  /**
+   * Converts the table settings to query parameters (default values are left out of the URL).
+   * @param criteria The filter, sort and paging settings
+   * @returns The query parameters, null values removing the parameter
+   */
+  private toQueryParams(criteria: ProblemListCriteria): Params {
+    return {
+      [PROBLEM_QUERY_PARAMS.name]: toParamValue(criteria.name),
+      [PROBLEM_QUERY_PARAMS.description]: toParamValue(criteria.description),
+      [PROBLEM_QUERY_PARAMS.status]: criteria.statuses.length > 0 ? [...criteria.statuses] : null,
+      [PROBLEM_QUERY_PARAMS.author]: toParamValue(criteria.author),
+      [PROBLEM_QUERY_PARAMS.groups]: toParamValue(criteria.groups),
+      [LIST_QUERY_PARAMS.from]: toParamValue(criteria.creationDateFrom),
+      [LIST_QUERY_PARAMS.to]: toParamValue(criteria.creationDateTo),
+      [PROBLEM_QUERY_PARAMS.archived]: toParamValue(criteria.showArchived, false),
+      [LIST_QUERY_PARAMS.sort]: formatSortParam(criteria.sortColumn, criteria.sortDirection),
+      [LIST_QUERY_PARAMS.page]: toParamValue(criteria.page, DEFAULT_CRITERIA.page),
+      [LIST_QUERY_PARAMS.pageSize]: toParamValue(criteria.pageSize, DEFAULT_CRITERIA.pageSize),
+      [PROBLEM_QUERY_PARAMS.display]: toParamValue(criteria.display, DEFAULT_CRITERIA.display)
+    };
+  }
+
+  /**
+   * Converts the table settings to a backend query (empty filters are left out).
+   * @param criteria The filter, sort and paging settings
+   * @returns The problem query
+   */
+  private toQuery(criteria: ProblemListCriteria): ProblemQuery {
+    const query: ProblemQuery = {
+      page: criteria.page,
+      pageSize: criteria.pageSize,
+      sortColumn: criteria.sortColumn || undefined,
+      sortDirection: criteria.sortDirection || undefined,
+      statuses: criteria.statuses.length > 0 ? [...criteria.statuses] : undefined,
+      name: criteria.name || undefined,
+      description: criteria.description || undefined,
+      author: criteria.author || undefined,
+      group: criteria.groups || undefined,
+      creationDateFrom: criteria.creationDateFrom || undefined,
+      creationDateTo: criteria.creationDateTo || undefined,
+      includeArchived: criteria.showArchived || undefined
+    };
+    return query;
   }
 
 
@@ -277,10 +770,11 @@ export class ProblemCardComponent implements OnInit {
    * @returns The Bootstrap icon class
    */
   public getSortIcon(column: SortColumn): string {
-    if (this.sortColumn !== column) {
+    const current: ProblemListCriteria = this.criteria();
+    if (current.sortColumn !== column) {
       return 'bi-arrow-down-up';
     }
-    return this.sortDirection === 'asc' ? 'bi-arrow-up' : 'bi-arrow-down';
+    return current.sortDirection === 'asc' ? 'bi-arrow-up' : 'bi-arrow-down';
   }
 
   /**
@@ -367,12 +861,44 @@ export class ProblemCardComponent implements OnInit {
   }
 
   /**
-   * Returns the localized status text by delegating to the service.
+   * Returns the localized status text.
    * @param status The status value from the backend
    * @returns The localized status text
    */
   public getLocalizedStatus(status: string | undefined): string {
-    return this.problemService.getLocalizedStatus(status);
+    return getProblemStatusLabel(status);
+  }
+
+  /**
+   * Returns the badge color class of a status.
+   * @param status The status value from the backend
+   * @returns The Bootstrap background class
+   */
+  public getStatusBadgeClass(status: string | undefined): string {
+    return getProblemStatusBadgeClass(status);
+  }
+
+  /**
+   * Expose current locale signal for template usage (links to the problem detail page).
+   */
+  public currentLocale(): string {
+    return this.localeService.currentLocale();
+  }
+
+  /**
+   * Whether the current user can open the problem in edit mode (contributor or administrator).
+   * @param problem The problem
+   */
+  public canEdit(problem: Problem): boolean {
+    return this.permissionService.canEdit(problem);
+  }
+
+  /**
+   * Whether the current user can archive, restore or delete the problem (administrator).
+   * @param problem The problem
+   */
+  public canDelete(problem: Problem): boolean {
+    return this.permissionService.canDelete(problem);
   }
 
   /**
@@ -396,7 +922,9 @@ export class ProblemCardComponent implements OnInit {
     const modalRef = this.modalService.open(ProblemAddComponent, {
       size: 'lg',
       backdrop: 'static',
-      keyboard: false
+      keyboard: false,
+      // Ask before discarding the edits (Cancel and close buttons)
+      beforeDismiss: () => this.unsavedChangesService.confirmDiscard(modalRef.componentInstance)
     });
 
     modalRef.componentInstance.initialValue = null;
@@ -415,6 +943,34 @@ export class ProblemCardComponent implements OnInit {
     );
   }
 
+  /**
+   * Opens the wizard importing problems from a CSV file.
+   */
+  public openImportProblemsModal(): void {
+    // Blur any focused element to prevent aria-hidden accessibility warning
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+
+    const modalRef = this.modalService.open(ProblemImportComponent, {
+      size: 'lg',
+      backdrop: 'static',
+      keyboard: false
+    });
+
+    modalRef.result.then(
+      (createdCount: number) => {
+        console.log('Problems imported', createdCount);
+        if (createdCount > 0) {
+          this.refreshData();
+        }
+      },
+      (reason) => {
+        console.log('Import dismissed', reason);
+      }
+    );
+  }
+
   /**
    * Opens the edit problem modal dialog with existing problem data.
    * @param problem The problem to edit
@@ -428,7 +984,9 @@ export class ProblemCardComponent implements OnInit {
     const modalRef = this.modalService.open(ProblemAddComponent, {
       size: 'lg',
       backdrop: 'static',
-      keyboard: false
+      keyboard: false,
+      // Ask before discarding the edits (Cancel and close buttons)
+      beforeDismiss: () => this.unsavedChangesService.confirmDiscard(modalRef.componentInstance)
     });
 
     modalRef.componentInstance.initialValue = problem;
@@ -455,4 +1013,137 @@ export class ProblemCardComponent implements OnInit {
       }
     );
   }
+
+  /**
+   * Opens the confirmation dialog before deleting a problem.
+   * @param problem The problem to delete
+   */
+  public openDeleteProblemConfirmation(problem: Problem): void {
+    // Blur any focused element to prevent aria-hidden accessibility warning
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+
+    const modalRef = this.modalService.open(ConfirmationDialogComponent, {
+      size: 'md',
+      backdrop: 'static',
+      keyboard: false
+    });
+
+    const problemName: string = problem.name || $localize`:@@unknown:Unknown`;
+    const baseMessage: string = $localize`Are you sure you want to delete this problem? This action cannot be undone.`;
+    const message: string = baseMessage.replace('this problem', `<strong>${problemName}</strong>`);
+
+    modalRef.componentInstance.initialize(
+      $localize`Confirm Deletion`,
+      message,
+      $localize`Delete`,
+      $localize`Cancel`,
+      'btn-danger',
+      'delete'
+    );
+
+    modalRef.result.then(
+      (result: string) => {
+        if (result === 'delete' && problem.id !== undefined) {
+          this.deleteProblem(problem.id);
+        }
+      },
+      (reason: unknown) => {
+        console.log('Delete confirmation dismissed', reason);
+      }
+    );
+  }
+
+  /**
+   * Opens the confirmation dialog before archiving a problem.
+   * @param problem The problem to archive
+   */
+  public openArchiveProblemConfirmation(problem: Problem): void {
+    // Blur any focused element to prevent aria-hidden accessibility warning
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+
+    const modalRef = this.modalService.open(ConfirmationDialogComponent, {
+      size: 'md',
+      backdrop: 'static',
+      keyboard: false
+    });
+
+    const problemName: string = problem.name || $localize`:@@unknown:Unknown`;
+    const baseMessage: string = $localize`Archive this problem? It will be hidden from the list but can be restored later.`;
+    const message: string = baseMessage.replace('this problem', `<strong>${problemName}</strong>`);
+
+    modalRef.componentInstance.initialize(
+      $localize`Confirm Archiving`,
+      message,
+      $localize`Archive`,
+      $localize`Cancel`,
+      'btn-warning',
+      'archive'
+    );
+
+    modalRef.result.then(
+      (result: string) => {
+        if (result === 'archive' && problem.id !== undefined) {
+          this.archiveProblem(problem.id);
+        }
+      },
+      (reason: unknown) => {
+        console.log('Archive confirmation dismissed', reason);
+      }
+    );
+  }
+
+  /**
+   * Restores an archived problem (harmless, so no confirmation is asked).
+   * @param problem The problem to restore
+   */
+  public unarchiveProblem(problem: Problem): void {
+    if (problem.id === undefined) {
+      return;
+    }
+    this.problemService.unarchiveProblem(problem.id).subscribe({
+      next: (): void => {
+        this.notificationService.showSuccess($localize`Problem restored.`);
+        this.refreshData();
+      },
+      error: (error: unknown): void => {
+        console.error('Error restoring problem:', error);
+      }
+    });
+  }
+
+  /**
+   * Deletes a problem by ID.
+   * @param problemId The ID of the problem to delete
+   */
+  private deleteProblem(problemId: number): void {
+    this.problemService.deleteProblem(problemId).subscribe({
+      next: (): void => {
+        this.notificationService.showSuccess($localize`Problem deleted.`);
+        this.refreshData();
+      },
+      error: (error: unknown): void => {
+        console.error('Error deleting problem:', error);
+      }
+    });
+  }
+
+  /**
+   * Archives a problem by ID.
+   * @param problemId The ID of the problem to archive
+   */
+  private archiveProblem(problemId: number): void {
+    this.problemService.archiveProblem(problemId).subscribe({
+      next: (): void => {
+        this.notificationService.showSuccess($localize`Problem archived.`);
+        this.refreshData();
+      },
+      error: (error: unknown): void => {
+        console.error('Error archiving problem:', error);
+      }
+    });
+  }
 }
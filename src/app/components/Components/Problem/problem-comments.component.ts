@@ -0,0 +1,354 @@
+/**
+ * Threaded comment panel of a problem: lists the comments as a tree of replies and lets the user
+ * post, reply to, edit and delete comments (edition and deletion are restricted to the author and
+ * the problem administrators).
+ */
+
+import { CommonModule } from '@angular/common';
+import { Component, computed, DestroyRef, inject, Input, OnChanges, Signal, signal, SimpleChanges, WritableSignal } from '@angular/core';
+import { FormControl, ReactiveFormsModule, Validators } from '@angular/forms';
+import { NgbModal, NgbTooltipModule } from '@ng-bootstrap/ng-bootstrap';
+import { formatDistanceToNow, Locale } from 'date-fns';
+import { enUS, fr } from 'date-fns/locale';
+import { Subscription } from 'rxjs';
+
+import { Comment, Problem, User } from '../../../model';
+import { ProblemService } from '../../../services/problem.service';
+import { PermissionService } from '../../../services/permission.service';
+import { LocaleService } from '../../../services/locale.service';
+import { renderMarkdown } from '../../../utils/markdown-utils';
+import { ConfirmationDialogComponent } from '../Common/confirmation-dialog.component';
+
+/**
+ * Maximum number of characters of a comment.
+ */
+const COMMENT_MAX_LENGTH: number = 5000;
+
+/**
+ * A comment with its replies.
+ */
+interface CommentThread {
+  readonly comment: Comment;
+  readonly replies: CommentThread[];
+}
+
+@Component({
+  selector: 'app-problem-comments',
+  standalone: true,
+  templateUrl: './problem-comments.component.html',
+  imports: [CommonModule, ReactiveFormsModule, NgbTooltipModule]
+})
+export class ProblemCommentsComponent implements OnChanges {
+  /**
+   * The commented problem.
+   */
+  @Input() problem: Problem | null = null;
+
+  private readonly problemService: ProblemService = inject(ProblemService);
+  private readonly permissionService: PermissionService = inject(PermissionService);
+  private readonly localeService: LocaleService = inject(LocaleService);
+  private readonly modalService: NgbModal = inject(NgbModal);
+  private readonly destroyRef: DestroyRef = inject(DestroyRef);
+
+  /**
+   * Comments of the problem, oldest first.
+   */
+  public readonly comments: WritableSignal<Comment[]> = signal<Comment[]>([]);
+
+  /**
+   * Comments organized as threads (top-level comments with their nested replies).
+   */
+  public readonly threads: Signal<CommentThread[]> = computed<CommentThread[]>(() => this.buildThreads(this.comments()));
+
+  public readonly loading: WritableSignal<boolean> = signal<boolean>(false);
+  public readonly loadFailed: WritableSignal<boolean> = signal<boolean>(false);
+  public readonly submitting: WritableSignal<boolean> = signal<boolean>(false);
+
+  /**
+   * ID of the comment being replied to, null when no reply form is open.
+   */
+  public readonly replyingToId: WritableSignal<number | null> = signal<number | null>(null);
+
+  /**
+   * ID of the comment being edited, null when no comment is edited.
+   */
+  public readonly editingId: WritableSignal<number | null> = signal<number | null>(null);
+
+  public readonly newCommentCtrl: FormControl<string | null> = new FormControl<string | null>(null, {
+    validators: [Validators.required, Validators.maxLength(COMMENT_MAX_LENGTH)]
+  });
+  public readonly replyCtrl: FormControl<string | null> = new FormControl<string | null>(null, {
+    validators: [Validators.required, Validators.maxLength(COMMENT_MAX_LENGTH)]
+  });
+  public readonly editCtrl: FormControl<string | null> = new FormControl<string | null>(null, {
+    validators: [Validators.required, Validators.maxLength(COMMENT_MAX_LENGTH)]
+  });
+
+  private loadSubscription: Subscription | null = null;
+
+  constructor() {
+    this.destroyRef.onDestroy((): void => this.loadSubscription?.unsubscribe());
+  }
+
+  /** @internal */
+  public ngOnChanges(changes: SimpleChanges): void {
+    if (Object.prototype.hasOwnProperty.call(changes, 'problem') === true) {
+      const previousId: number | undefined = (changes['problem'].previousValue as Problem | null)?.id;
+      if (changes['problem'].firstChange === true || previousId !== this.problem?.id) {
+        this.loadComments();
+      }
+    }
+  }
+
+  /**
+   * Whether the current user can post comments on the problem.
+   */
+  public canComment(): boolean {
+    return this.problem !== null && this.permissionService.canComment(this.problem);
+  }
+
+  /**
+   * Whether the current user can edit or delete a comment.
+   * @param comment The comment
+   */
+  public canModerate(comment: Comment): boolean {
+    return this.problem !== null && this.permissionService.canModerateComment(this.problem, comment);
+  }
+
+  /**
+   * Renders the markdown content of a comment.
+   * @param comment The comment
+   */
+  public renderContent(comment: Comment): string {
+    return renderMarkdown(comment.content ?? '');
+  }
+
+  /**
+   * Returns a relative timestamp ("5 minutes ago") in the current language.
+   * @param date The date to display
+   */
+  public getRelativeTime(date: Date | undefined): string {
+    if (date === undefined) {
+      return '';
+    }
+    const locale: Locale = this.localeService.currentLanguage() === 'fr' ? fr : enUS;
+    return formatDistanceToNow(new Date(date), { addSuffix: true, locale });
+  }
+
+  /**
+   * Returns the full name of the author of a comment.
+   * @param author The author
+   */
+  public getAuthorName(author: User | undefined): string {
+    if (!author) {
+      return $localize`:@@unknown:Unknown`;
+    }
+    const fullName: string = `${author.firstName || ''} ${author.surname || ''}`.trim();
+    return fullName || author.email || $localize`:@@unknown:Unknown`;
+  }
+
+  /**
+   * Posts a new top-level comment.
+   */
+  public onSubmitComment(): void {
+    this.postComment(this.newCommentCtrl, null, (): void => this.newCommentCtrl.reset());
+  }
+
+  /**
+   * Opens the reply form under a comment (closing any edit in progress).
+   * @param comment The comment replied to
+   */
+  public startReply(comment: Comment): void {
+    this.editingId.set(null);
+    this.replyCtrl.reset();
+    this.replyingToId.set(comment.id ?? null);
+  }
+
+  /**
+   * Posts the reply to the comment currently replied to.
+   */
+  public onSubmitReply(): void {
+    this.postComment(this.replyCtrl, this.replyingToId(), (): void => this.cancelReply());
+  }
+
+  /**
+   * Closes the reply form.
+   */
+  public cancelReply(): void {
+    this.replyingToId.set(null);
+    this.replyCtrl.reset();
+  }
+
+  /**
+   * Opens the inline editor of a comment (closing any reply in progress).
+   * @param comment The comment to edit
+   */
+  public startEdit(comment: Comment): void {
+    this.replyingToId.set(null);
+    this.editCtrl.setValue(comment.content ?? '');
+    this.editingId.set(comment.id ?? null);
+  }
+
+  /**
+   * Saves the content of the comment being edited.
+   */
+  public onSubmitEdit(): void {
+    const problemId: number | undefined = this.problem?.id;
+    const commentId: number | null = this.editingId();
+    const content: string = (this.editCtrl.value ?? '').trim();
+    if (problemId === undefined || commentId === null || this.editCtrl.invalid || content === '') {
+      this.editCtrl.markAsTouched();
+      return;
+    }
+    this.submitting.set(true);
+    this.problemService.updateComment(problemId, commentId, content).subscribe({
+      next: (): void => {
+        this.submitting.set(false);
+        this.cancelEdit();
+        this.loadComments();
+      },
+      error: (error: unknown): void => {
+        this.submitting.set(false);
+        console.error('Error updating comment:', error);
+      }
+    });
+  }
+
+  /**
+   * Closes the inline editor.
+   */
+  public cancelEdit(): void {
+    this.editingId.set(null);
+    this.editCtrl.reset();
+  }
+
+  /**
+   * Opens the confirmation dialog before deleting a comment and its replies.
+   * @param comment The comment to delete
+   */
+  public openDeleteCommentConfirmation(comment: Comment): void {
+    // Blur any focused element to prevent aria-hidden accessibility warning
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+
+    const modalRef = this.modalService.open(ConfirmationDialogComponent, {
+      size: 'md',
+      backdrop: 'static',
+      keyboard: false
+    });
+
+    modalRef.componentInstance.initialize(
+      $localize`Confirm Deletion`,
+      $localize`Are you sure you want to delete this comment and its replies? This action cannot be undone.`,
+      $localize`Delete`,
+      $localize`Cancel`,
+      'btn-danger',
+      'delete'
+    );
+
+    modalRef.result.then(
+      (result: string) => {
+        if (result === 'delete' && comment.id !== undefined) {
+          this.deleteComment(comment.id);
+        }
+      },
+      (reason: unknown) => {
+        console.log('Delete confirmation dismissed', reason);
+      }
+    );
+  }
+
+  /**
+   * Loads the comments of the problem.
+   */
+  private loadComments(): void {
+    this.loadSubscription?.unsubscribe();
+    const problemId: number | undefined = this.problem?.id;
+    if (problemId === undefined) {
+      this.comments.set([]);
+      return;
+    }
+    this.loading.set(true);
+    this.loadFailed.set(false);
+    this.loadSubscription = this.problemService.fetchComments(problemId).subscribe({
+      next: (comments: Comment[]): void => {
+        this.comments.set(comments);
+        this.loading.set(false);
+      },
+      error: (error: unknown): void => {
+        console.error('Error loading comments:', error);
+        this.loadFailed.set(true);
+        this.loading.set(false);
+      }
+    });
+  }
+
+  /**
+   * Posts a comment from a form control, then reloads the thread.
+   */
+  private postComment(control: FormControl<string | null>, parentId: number | null, onSuccess: () => void): void {
+    const problemId: number | undefined = this.problem?.id;
+    const content: string = (control.value ?? '').trim();
+    if (problemId === undefined || control.invalid || content === '') {
+      control.markAsTouched();
+      return;
+    }
+    this.submitting.set(true);
+    this.problemService.addComment(problemId, content, parentId).subscribe({
+      next: (): void => {
+        this.submitting.set(false);
+        onSuccess();
+        this.loadComments();
+      },
+      error: (error: unknown): void => {
+        this.submitting.set(false);
+        console.error('Error adding comment:', error);
+      }
+    });
+  }
+
+  /**
+   * Deletes a comment, then reloads the thread.
+   */
+  private deleteComment(commentId: number): void {
+    const problemId: number | undefined = this.problem?.id;
+    if (problemId === undefined) {
+      return;
+    }
+    this.problemService.deleteComment(problemId, commentId).subscribe({
+      next: (): void => this.loadComments(),
+      error: (error: unknown): void => {
+        console.error('Error deleting comment:', error);
+      }
+    });
+  }
+
+  /**
+   * Builds the reply tree; replies to a missing comment are shown at the top level.
+   */
+  private buildThreads(comments: Comment[]): CommentThread[] {
+    const threadsById: Map<number, CommentThread> = new Map<number, CommentThread>();
+    for (const comment of comments) {
+      if (comment.id !== undefined) {
+        threadsById.set(comment.id, { comment, replies: [] });
+      }
+    }
+    const roots: CommentThread[] = [];
+    for (const comment of comments) {
+      const thread: CommentThread | undefined = comment.id !== undefined ? threadsById.get(comment.id) : undefined;
+      if (thread === undefined) {
+        continue;
+      }
+      const parent: CommentThread | undefined = comment.parentId !== null && comment.parentId !== undefined
+        ? threadsById.get(comment.parentId)
+        : undefined;
+      if (parent !== undefined) {
+        parent.replies.push(thread);
+      } else {
+        roots.push(thread);
+      }
+    }
+    return roots;
+  }
+}
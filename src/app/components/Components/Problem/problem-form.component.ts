@@ -18,7 +18,8 @@
  * ```
  */
 import { CommonModule } from '@angular/common';
-import { Component, DestroyRef, EventEmitter, Input, isDevMode, OnChanges, OnInit, Output, SimpleChanges, inject } from '@angular/core';
+import { HttpContext } from '@angular/common/http';
+import { Component, DestroyRef, effect, EventEmitter, Input, isDevMode, OnChanges, OnInit, Output, signal, SimpleChanges, WritableSignal, inject } from '@angular/core';
 import { FormControl, FormGroup, ReactiveFormsModule, Validators, FormsModule } from '@angular/forms';
 import { catchError, debounceTime, Observable, of, Subscription, switchMap, throwError } from 'rxjs';
 import { Router } from '@angular/router';
@@ -28,12 +29,34 @@ import { ProblemStatus } from '@shared/dto/problem/problem-status.enum';
 import { Authorization } from '@shared/dto/group/authorization.enum';
 
 import type { Problem } from '../../../model/model';
-import { Group, GroupAuthorization } from '../../../model/model';
+import { Group, GroupAuthorization, ProblemDraft } from '../../../model/model';
 import { LocaleService } from '../../../services/locale.service';
 import { ProblemService } from '../../../services/problem.service';
 import { AuthService, DUMMY_USER_ID } from '../../../services/auth.service';
 import { GroupService } from '../../../services/group.service';
+import { PermissionService } from '../../../services/permission.service';
+import { ProblemStore } from '../../../services/problem-store.service';
+import { ProblemDraftService } from '../../../services/problem-draft.service';
 import { GroupSelectionPanelComponent } from './group-selection-panel.component';
+import { HasUnsavedChanges } from '../../../interfaces/has-unsaved-changes.interface';
+import { UnsavedChangesService } from '../../../services/unsaved-changes.service';
+import { FieldError } from '../../../errors/field-error';
+import { FIELD_ERRORS_HANDLED_BY_FORM } from '../../../interceptors/field-errors-handled.token';
+import { applyFieldErrors, applyValidationError, FieldControlMap } from '../../../utils/form-error-utils';
+import { PROBLEM_DESCRIPTION_MIN_LENGTH, PROBLEM_NAME_MIN_LENGTH } from '../../../utils/problem-field-rules';
+import { getProblemStatusLabel } from '../../../utils/problem-status-labels';
+import {
+  getSelectableStatuses,
+  isStatusReasonRequired,
+  statusReasonValidator,
+  toProblemStatus,
+  validateStatusTransition
+} from '../../../utils/problem-status-workflow';
+
+/**
+ * Controls of the backend fields that do not follow the `<field>Ctrl` naming convention.
+ */
+const PROBLEM_FIELD_CONTROLS: FieldControlMap = { open: 'visibilityCtrl', creatorId: 'creatorCtrl' };
 
 @Component({
   selector: 'app-problem-form',
@@ -41,7 +64,7 @@ import { GroupSelectionPanelComponent } from './group-selection-panel.component'
   templateUrl: './problem-form.component.html',
   imports: [CommonModule, ReactiveFormsModule, FormsModule, GroupSelectionPanelComponent],
 })
-export class ProblemFormComponent implements OnInit, OnChanges {
+export class ProblemFormComponent implements OnInit, OnChanges, HasUnsavedChanges {
   /**
    * Optional initial problem value to patch into the form.
    */
@@ -83,9 +106,36 @@ export class ProblemFormComponent implements OnInit, OnChanges {
   @Output() changed: EventEmitter<Problem | null> = new EventEmitter<Problem | null>();
 
   /**
-   * Suggested values for the `status` field.
+   * Values allowed for the `status` field: the current status and the next ones of the workflow
+   * (only `New` when creating a problem, the legacy status and `New` for a problem with a legacy status).
+   */
+  public statusOptions: ReadonlyArray<string> = getSelectableStatuses(null);
+
+  /**
+   * Whether the current user may edit the name, description and visibility (always true when creating).
+   */
+  public canEditDetails: boolean = true;
+
+  /**
+   * Whether the current user may change the status (always true when creating).
+   */
+  public canChangeStatus: boolean = true;
+
+  /**
+   * Whether the current user may grant or revoke group authorizations (always true when creating).
+   */
+  public canManageAuthorizations: boolean = true;
+
+  /**
+   * Status of the problem when the form was loaded (null when creating a problem).
    */
-  readonly statusOptions: ReadonlyArray<string> = ['New', 'In Progress', 'Blocked', 'Resolved', 'Closed'];
+  private currentStatus: ProblemStatus | null = null;
+
+  /**
+   * Raw status of the problem when the form was loaded, when it is not a {@link ProblemStatus} (legacy data).
+   * It stays selectable, so that the other fields of the problem can still be saved.
+   */
+  private legacyStatus: string | null = null;
 
   /**
    * Allowed values for the `open` string field.
@@ -117,12 +167,46 @@ export class ProblemFormComponent implements OnInit, OnChanges {
    */
   public availableGroups: Group[] = [];
 
+  /**
+   * Draft found when the form was loaded, offered for restore (null when there is none or once the user decided).
+   */
+  public pendingDraft: ProblemDraft | null = null;
+
+  /**
+   * Whether the problem was changed on the server since {@link pendingDraft} was started.
+   */
+  public pendingDraftOutdated: boolean = false;
+
+  /**
+   * Start date and server fingerprint of the draft being written (null until the first autosave).
+   */
+  private draftOrigin: { startedAt: string; baseFingerprint: string | null } | null = null;
+
+  /**
+   * Problem whose rights enable or disable the fields (null when creating a problem).
+   */
+  private readonly permissionTarget: WritableSignal<Problem | null> = signal<Problem | null>(null);
+
+  /**
+   * Whether the form is initialized, so that later `initialValue` changes check for a draft again.
+   */
+  private initialized: boolean = false;
+
   private readonly destroyRef: DestroyRef = inject(DestroyRef);
+  private readonly unsavedChangesService: UnsavedChangesService = inject(UnsavedChangesService);
   private readonly router: Router = inject(Router);
   private readonly localeService: LocaleService = inject(LocaleService);
   private readonly problemService: ProblemService = inject(ProblemService);
   private readonly authService: AuthService = inject(AuthService);
   private readonly groupService: GroupService = inject(GroupService);
+  private readonly permissionService: PermissionService = inject(PermissionService);
+  private readonly problemStore: ProblemStore = inject(ProblemStore);
+  private readonly problemDraftService: ProblemDraftService = inject(ProblemDraftService);
+
+  constructor() {
+    // The rights depend on the current user and their group memberships, which may load after the form is patched
+    effect(() => this.applyPermissions(this.permissionTarget()));
+  }
 
   /**
    * Strongly-typed reactive form grouping all {@link Problem} fields.
@@ -132,6 +216,7 @@ export class ProblemFormComponent implements OnInit, OnChanges {
     nameCtrl: FormControl<string | null>;
     descriptionCtrl: FormControl<string | null>;
     statusCtrl: FormControl<string | null>;
+    statusReasonCtrl: FormControl<string | null>;
     visibilityCtrl: FormControl<string | null>;
     creationDateCtrl: FormControl<string | null>;
     creatorCtrl: FormControl<string | null>;
@@ -140,21 +225,24 @@ export class ProblemFormComponent implements OnInit, OnChanges {
     nameCtrl: FormControl<string | null>;
     descriptionCtrl: FormControl<string | null>;
     statusCtrl: FormControl<string | null>;
+    statusReasonCtrl: FormControl<string | null>;
     visibilityCtrl: FormControl<string | null>;
     creationDateCtrl: FormControl<string | null>;
     creatorCtrl: FormControl<string | null>;
   }>({
     idCtrl: new FormControl<number | null>(null, { nonNullable: false }),
-    nameCtrl: new FormControl<string | null>(null, { validators: [Validators.required, Validators.minLength(3)] }),
-    descriptionCtrl: new FormControl<string | null>(null, { validators: [Validators.required, Validators.minLength(5)] }),
-    statusCtrl: new FormControl<string | null>('New', { validators: [Validators.required] }),
+    nameCtrl: new FormControl<string | null>(null, { validators: [Validators.required, Validators.minLength(PROBLEM_NAME_MIN_LENGTH)] }),
+    descriptionCtrl: new FormControl<string | null>(null, { validators: [Validators.required, Validators.minLength(PROBLEM_DESCRIPTION_MIN_LENGTH)] }),
+    statusCtrl: new FormControl<string | null>(ProblemStatus.NEW, { validators: [Validators.required] }),
+    statusReasonCtrl: new FormControl<string | null>(null),
     visibilityCtrl: new FormControl<string | null>('Private', { validators: [Validators.required] }),
     creationDateCtrl: new FormControl<string | null>(null, { validators: [Validators.required] }),
     creatorCtrl: new FormControl<string | null>(null, { validators: [Validators.required, Validators.minLength(2)] }),
-  });
+  }, { validators: [statusReasonValidator(() => this.currentStatus, 'statusCtrl', 'statusReasonCtrl')] });
 
   /** @internal */
   ngOnInit(): void {
+    this.unsavedChangesService.warnBeforeUnload(this, this.destroyRef);
     // Ensure groupAuthorizations is initialized before any operations
     if (this.groupAuthorizations === undefined || this.groupAuthorizations === null) {
       this.groupAuthorizations = [];
@@ -184,6 +272,7 @@ export class ProblemFormComponent implements OnInit, OnChanges {
           nameCtrl: string | null;
           descriptionCtrl: string | null;
           statusCtrl: string | null;
+          statusReasonCtrl: string | null;
           visibilityCtrl: string | null;
           creationDateCtrl: string | null;
           creatorCtrl: string | null;
@@ -191,12 +280,17 @@ export class ProblemFormComponent implements OnInit, OnChanges {
           try {
             const current: Problem | null = this.toProblemOrNull();
             this.changed.emit(current);
+            if (this.form.dirty) {
+              this.saveDraft();
+            }
           } catch (error: unknown) {
             console.error('Error in form valueChanges subscription:', error);
           }
         });
       this.destroyRef.onDestroy((): void => sub.unsubscribe());
     }
+    this.checkForDraft();
+    this.initialized = true;
   }
 
   /** @internal */
@@ -204,6 +298,9 @@ export class ProblemFormComponent implements OnInit, OnChanges {
     const hasInitial: boolean = Object.prototype.hasOwnProperty.call(changes, 'initialValue');
     if (hasInitial === true) {
       this.patchFromInitial(this.initialValue);
+      if (this.initialized) {
+        this.checkForDraft();
+      }
     }
   }
 
@@ -220,20 +317,37 @@ export class ProblemFormComponent implements OnInit, OnChanges {
     const rawVisibility: string | null = this.form.controls.visibilityCtrl.value;
     const rawId: number | null = this.form.controls.idCtrl.value;
     const rawStatus: string | null = this.form.controls.statusCtrl.value;
+    const rawStatusReason: string | null = this.form.controls.statusReasonCtrl.value;
     const rawCreationDate: string | null = this.form.controls.creationDateCtrl.value;
 
+    // Reject forbidden status changes locally instead of letting the backend refuse them (keeping a legacy status is allowed)
+    const keepsLegacyStatus: boolean = this.legacyStatus !== null && rawStatus === this.legacyStatus;
+    const statusErrors: ReadonlyArray<FieldError> = keepsLegacyStatus
+      ? []
+      : validateStatusTransition(this.currentStatus, rawStatus, rawStatusReason);
+    if (statusErrors.length > 0) {
+      applyFieldErrors(this.form, statusErrors);
+      return;
+    }
+
     if (this.isEditMode && rawId !== null) {
-      // Update existing problem - use UpdateProblemDto
+      // Update existing problem - use UpdateProblemDto, with the reason of the status change when required
+      const nextStatus: ProblemStatus | null = toProblemStatus(rawStatus);
+      const statusReason: string | undefined = isStatusReasonRequired(this.currentStatus, nextStatus) ? rawStatusReason?.trim() : undefined;
       const updateBody: UpdateProblemDto = {
         name: rawName ?? undefined,
         description: rawDescription ?? undefined,
         open: rawVisibility ? (rawVisibility === 'Public') : undefined,
-        status: rawStatus ? (rawStatus as ProblemStatus) : undefined,
+        status: nextStatus ?? undefined,
       };
       console.log('Form update body:', updateBody);
 
-      const sub: Subscription = this.problemService.updateProblem(rawId, updateBody).subscribe({
+      const sub: Subscription = this.problemService.updateProblemWithReason(rawId, updateBody, statusReason, this.createRequestContext()).subscribe({
         next: (updated: Problem): void => {
+          this.clearDraft();
+          this.form.markAsPristine();
+          // The cached problem lists are outdated
+          this.problemStore.invalidate();
           // Sync group authorizations: compare initial vs current and update accordingly
           this.syncGroupAuthorizations(rawId).subscribe({
             next: (): void => {
@@ -254,9 +368,9 @@ export class ProblemFormComponent implements OnInit, OnChanges {
             }
           });
         },
-        error: (_err: unknown): void => {
-          // Keep simple UX for now; could surface an alert/Toast
-          console.log('Update problem failed');
+        error: (err: unknown): void => {
+          console.log('Update problem failed', err);
+          applyValidationError(this.form, err, PROBLEM_FIELD_CONTROLS);
         },
       });
       this.destroyRef.onDestroy((): void => sub.unsubscribe());
@@ -277,14 +391,17 @@ export class ProblemFormComponent implements OnInit, OnChanges {
         name: rawName === null ? '' : rawName,
         description: rawDescription === null ? '' : rawDescription,
         open: (rawVisibility ?? 'Private') === 'Public',
-        status: (rawStatus as ProblemStatus) || ProblemStatus.NEW,
+        status: toProblemStatus(rawStatus) ?? ProblemStatus.NEW,
         creatorId: creatorId,
         creationDate: rawCreationDate === null ? new Date().toISOString() : new Date(rawCreationDate).toISOString(),
       };
       console.log('Form submission body:', createBody);
 
-      const sub: Subscription = this.problemService.createProblem(createBody).subscribe({
+      const sub: Subscription = this.problemService.createProblem(createBody, this.createRequestContext()).subscribe({
         next: (created: Problem): void => {
+          this.clearDraft();
+          this.form.markAsPristine();
+          this.problemStore.invalidate();
           // Create group authorizations if any are defined
           if (created.id !== undefined && this.groupAuthorizations.length > 0) {
             // Type assertion to access DBProblemService methods
@@ -327,19 +444,35 @@ export class ProblemFormComponent implements OnInit, OnChanges {
             }
           }
         },
-        error: (_err: unknown): void => {
-          // Keep simple UX for now; could surface an alert/Toast
-          console.log('Create problem failed');
+        error: (err: unknown): void => {
+          console.log('Create problem failed', err);
+          applyValidationError(this.form, err, PROBLEM_FIELD_CONTROLS);
         },
       });
       this.destroyRef.onDestroy((): void => sub.unsubscribe());
     }
   }
 
+  /**
+   * Whether the form holds edits that are not submitted yet.
+   */
+  hasUnsavedChanges(): boolean {
+    return this.form.dirty;
+  }
+
+  /**
+   * Deletes the draft of the discarded edits.
+   */
+  discardUnsavedChanges(): void {
+    this.clearDraft();
+  }
+
+
   /**
    * Resets the form to the last provided {@link Problem} initial value.
    */
   onReset(): void {
+    this.clearDraft();
     this.form.reset();
     this.patchFromInitial(this.initialValue);
     const currentUserName: string = this.resolveCurrentUserName();
@@ -351,6 +484,61 @@ export class ProblemFormComponent implements OnInit, OnChanges {
     // patchFromInitial already handles groupAuthorizations and initialGroupAuthorizations
   }
 
+  /**
+   * Restores the fields and group authorizations of {@link pendingDraft}.
+   */
+  restoreDraft(): void {
+    const draft: ProblemDraft | null = this.pendingDraft;
+    if (draft === null) {
+      return;
+    }
+    const controls = this.form.controls;
+    if (this.canEditDetails) {
+      controls.nameCtrl.setValue(draft.name, { emitEvent: false });
+      controls.descriptionCtrl.setValue(draft.description, { emitEvent: false });
+      controls.visibilityCtrl.setValue(draft.visibility ?? 'Private', { emitEvent: false });
+    }
+    if (this.canChangeStatus && draft.status !== null && this.statusOptions.includes(draft.status)) {
+      controls.statusCtrl.setValue(draft.status, { emitEvent: false });
+      controls.statusReasonCtrl.setValue(draft.statusReason, { emitEvent: false });
+    }
+    if (this.canManageAuthorizations) {
+      this.groupAuthorizations = draft.groupAuthorizations;
+    }
+    this.form.markAsDirty();
+    this.form.updateValueAndValidity();
+    // The user has seen the server changes: later drafts compare against the current server copy
+    this.draftOrigin = {
+      startedAt: draft.startedAt,
+      baseFingerprint: this.initialValue !== null ? this.problemDraftService.getFingerprint(this.initialValue) : null
+    };
+    this.pendingDraft = null;
+    this.pendingDraftOutdated = false;
+    this.saveDraft();
+  }
+
+  /**
+   * Deletes {@link pendingDraft} and keeps the current values.
+   */
+  discardDraft(): void {
+    this.clearDraft();
+  }
+
+  /**
+   * Whether the selected status change requires a reason (entering Blocked or Closed).
+   */
+  isStatusReasonRequired(): boolean {
+    return isStatusReasonRequired(this.currentStatus, toProblemStatus(this.form.controls.statusCtrl.value));
+  }
+
+  /**
+   * Returns the localized label of a status.
+   * @param status The status value
+   */
+  getStatusLabel(status: string): string {
+    return getProblemStatusLabel(status);
+  }
+
   /**
    * Emits a cancel event for parent containers (dialogs/wizards).
    */
@@ -382,10 +570,20 @@ export class ProblemFormComponent implements OnInit, OnChanges {
       this.groupAuthorizations = [];
     }
     if (value === null) {
+      this.currentStatus = null;
+      this.legacyStatus = null;
+      this.statusOptions = getSelectableStatuses(null);
       this.groupAuthorizations = [];
       this.initialGroupAuthorizations = [];
+      this.permissionTarget.set(null);
+      this.applyPermissions(null);
       return;
     }
+    this.currentStatus = toProblemStatus(value.status);
+    this.legacyStatus = this.currentStatus === null && value.status ? value.status : null;
+    this.statusOptions = this.legacyStatus !== null
+      ? [this.legacyStatus, ...getSelectableStatuses(null)]
+      : getSelectableStatuses(this.currentStatus);
     const dateString: string | null = value.creationDate instanceof Date
       ? this.toHtmlDateString(value.creationDate)
       : null;
@@ -393,7 +591,8 @@ export class ProblemFormComponent implements OnInit, OnChanges {
       idCtrl: typeof value.id === 'number' ? value.id : null,
       nameCtrl: typeof value.name === 'string' ? value.name : null,
       descriptionCtrl: typeof value.description === 'string' ? value.description : null,
-      statusCtrl: typeof value.status === 'string' ? value.status : null,
+      statusCtrl: this.legacyStatus ?? this.currentStatus,
+      statusReasonCtrl: null,
       visibilityCtrl: typeof value.open === 'string' ? value.open : 'Private',
       creationDateCtrl: dateString,
       creatorCtrl: value.creator !== undefined && value.creator !== null 
@@ -418,6 +617,31 @@ export class ProblemFormComponent implements OnInit, OnChanges {
       this.groupAuthorizations = [];
       this.initialGroupAuthorizations = [];
     }
+    this.permissionTarget.set(value);
+    this.applyPermissions(value);
+  }
+
+  /**
+   * Enables or disables the fields according to the rights of the current user on the problem.
+   * @param value The edited problem; null when creating a problem (everything is allowed).
+   */
+  private applyPermissions(value: Problem | null): void {
+    this.canEditDetails = value === null || this.permissionService.canEdit(value);
+    this.canChangeStatus = value === null || this.permissionService.canChangeStatus(value);
+    this.canManageAuthorizations = value === null || this.permissionService.canManageAuthorizations(value);
+    const detailControls: FormControl<string | null>[] = [this.form.controls.nameCtrl, this.form.controls.descriptionCtrl, this.form.controls.visibilityCtrl];
+    for (const control of detailControls) {
+      if (this.canEditDetails) {
+        control.enable({ emitEvent: false });
+      } else {
+        control.disable({ emitEvent: false });
+      }
+    }
+    if (this.canChangeStatus) {
+      this.form.controls.statusCtrl.enable({ emitEvent: false });
+    } else {
+      this.form.controls.statusCtrl.disable({ emitEvent: false });
+    }
   }
 
   /**
@@ -478,12 +702,11 @@ export class ProblemFormComponent implements OnInit, OnChanges {
   }
 
   /**
-   * Resolve current user's display name from a session/token mechanism.
-   * Placeholder implementation using localStorage; replace with your auth service.
+   * Resolve current user's display name from {@link AuthService#displayName}.
    */
   private resolveCurrentUserName(): string {
-    const stored: string | null = window.localStorage.getItem('current-user-name');
-    const value: string = stored === null || stored === '' ? 'Current User' : stored;
+    const displayName: string = this.authService.displayName();
+    const value: string = displayName === '' ? 'Current User' : displayName;
     return value;
   }
 
@@ -601,6 +824,8 @@ export class ProblemFormComponent implements OnInit, OnChanges {
     };
     this.groupAuthorizations = [...this.groupAuthorizations, newAuth];
     this.onCloseGroupSelectionPanel();
+    this.form.markAsDirty();
+    this.saveDraft();
   }
 
   /**
@@ -609,6 +834,59 @@ export class ProblemFormComponent implements OnInit, OnChanges {
    */
   public onRemoveGroupAuthorization(index: number): void {
     this.groupAuthorizations = this.groupAuthorizations.filter((_, i: number) => i !== index);
+    this.form.markAsDirty();
+    this.saveDraft();
+  }
+
+  /**
+   * Offers the stored draft of the edited problem (or of a new problem) for restore.
+   */
+  private checkForDraft(): void {
+    const problemId: number | null = this.getDraftProblemId();
+    this.draftOrigin = null;
+    this.pendingDraft = this.problemDraftService.loadDraft(problemId);
+    this.pendingDraftOutdated = this.pendingDraft !== null
+      && this.initialValue !== null
+      && this.pendingDraft.baseFingerprint !== this.problemDraftService.getFingerprint(this.initialValue);
+  }
+
+  /**
+   * Saves the current values as draft, unless a stored draft is still waiting for the user to restore or discard it.
+   */
+  private saveDraft(): void {
+    if (this.pendingDraft !== null) {
+      return;
+    }
+    const now: string = new Date().toISOString();
+    if (this.draftOrigin === null) {
+      this.draftOrigin = {
+        startedAt: now,
+        baseFingerprint: this.initialValue !== null ? this.problemDraftService.getFingerprint(this.initialValue) : null
+      };
+    }
+    this.problemDraftService.saveDraft({
+      problemId: this.getDraftProblemId(),
+      name: this.form.controls.nameCtrl.value,
+      description: this.form.controls.descriptionCtrl.value,
+      status: this.form.controls.statusCtrl.value,
+      statusReason: this.form.controls.statusReasonCtrl.value,
+      visibility: this.form.controls.visibilityCtrl.value,
+      groupAuthorizations: this.groupAuthorizations,
+      startedAt: this.draftOrigin.startedAt,
+      savedAt: now,
+      baseFingerprint: this.draftOrigin.baseFingerprint
+    });
+  }
+
+  private clearDraft(): void {
+    this.problemDraftService.clearDraft(this.getDraftProblemId());
+    this.draftOrigin = null;
+    this.pendingDraft = null;
+    this.pendingDraftOutdated = false;
+  }
+
+  private getDraftProblemId(): number | null {
+    return this.isEditMode && typeof this.initialValue?.id === 'number' ? this.initialValue.id : null;
   }
 
   /**
@@ -637,6 +915,9 @@ export class ProblemFormComponent implements OnInit, OnChanges {
    * @returns Observable that completes when all sync operations are done
    */
   private syncGroupAuthorizations(problemId: number): Observable<void> {
+    if (this.canManageAuthorizations === false) {
+      return of(void 0);
+    }
     // Type assertion to access DBProblemService methods
     const dbProblemService = this.problemService as any;
     if (!dbProblemService.deleteGroupAuthorizations || !dbProblemService.createGroupAuthorizations) {
@@ -692,4 +973,11 @@ export class ProblemFormComponent implements OnInit, OnChanges {
       })
     );
   }
+
+  /**
+   * Request context letting the form display the field errors of the backend instead of the global toast.
+   */
+  private createRequestContext(): HttpContext {
+    return new HttpContext().set(FIELD_ERRORS_HANDLED_BY_FORM, true);
+  }
 }
@@ -0,0 +1,430 @@
+/**
+ * Wizard importing problems from a CSV file: file selection, column mapping, validated preview,
+ * then creation of the problems and of their group authorizations.
+ *
+ * @remarks
+ * - Rows are validated with the rules of the problem form (see {@link validateProblemFields}); only valid rows are imported.
+ * - Groups are matched by name. A group cell lists one or more groups separated by `;`, each optionally followed by
+ *   its level in parentheses (e.g. `Support (CONTRIBUTOR); QA`), which is the format of the problem CSV export.
+ * - Files written by the problem CSV export are imported as is: headers, visibility labels, dates and formula-escaped
+ *   cells are read back in the format the export writes them.
+ * - Rejected and failed rows can be downloaded as a CSV error report, to be fixed and imported again.
+ */
+
+import { CommonModule } from '@angular/common';
+import { HttpContext } from '@angular/common/http';
+import { Component, computed, inject, isDevMode, LOCALE_ID, Signal, signal, WritableSignal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { CreateProblemDto } from '@shared/dto';
+import { Authorization } from '@shared/dto/group/authorization.enum';
+import { ProblemStatus } from '@shared/dto/problem/problem-status.enum';
+import { catchError, forkJoin, map, Observable, of, switchMap } from 'rxjs';
+
+import { Group, Problem } from '../../../model';
+import { FieldError } from '../../../errors/field-error';
+import { SKIP_ERROR_NOTIFICATION } from '../../../interceptors/skip-error-notification.token';
+import { AuthService, DUMMY_USER_ID } from '../../../services/auth.service';
+import { GroupService } from '../../../services/group.service';
+import { ProblemService } from '../../../services/problem.service';
+import { BulkItemFailure, BulkOperationResult, getBulkErrorMessage, runBulkOperation } from '../../../utils/bulk-operation';
+import { parseCsv, ParsedCsv } from '../../../utils/csv-parser';
+import { validateProblemFields } from '../../../utils/problem-field-rules';
+import { PROBLEM_PRIVATE_LABEL, PROBLEM_PUBLIC_LABEL } from '../../../utils/problem-visibility-labels';
+import { CSV_FALSE_LABEL, CSV_TRUE_LABEL, ExportColumn, exportRows, parseCsvDate, unescapeCsvFormula } from '../../../utils/table-export';
+
+/**
+ * Maximum number of rows of an imported file.
+ */
+export const PROBLEM_IMPORT_MAX_ROWS: number = 1000;
+
+/**
+ * Steps of the wizard.
+ */
+export type ProblemImportStep = 'file' | 'mapping' | 'preview' | 'importing' | 'done';
+
+/**
+ * Fields the CSV columns can be mapped to.
+ */
+export type ProblemImportField = 'name' | 'description' | 'visibility' | 'creationDate' | 'groups' | 'authorization';
+
+interface ProblemImportFieldDefinition {
+  readonly field: ProblemImportField;
+  readonly label: string;
+  readonly required: boolean;
+  /**
+   * Normalized headers (lower case, letters and digits only) the field is mapped to automatically.
+   */
+  readonly aliases: ReadonlyArray<string>;
+}
+
+/**
+ * Group authorization to create for an imported problem.
+ */
+interface ProblemImportAuthorization {
+  readonly group: Group;
+  readonly level: Authorization;
+}
+
+/**
+ * Validated row of the file.
+ */
+export interface ProblemImportRow {
+  /**
+   * Line number in the file (the header is line 1).
+   */
+  readonly lineNumber: number;
+  readonly cells: ReadonlyArray<string>;
+  /**
+   * Creation payload (null when the row is invalid).
+   */
+  readonly body: CreateProblemDto | null;
+  readonly authorizations: ReadonlyArray<ProblemImportAuthorization>;
+  readonly errors: ReadonlyArray<string>;
+}
+
+/**
+ * Row of the error report: the original cells and why the row was not (fully) imported.
+ */
+interface ProblemImportReportRow {
+  readonly lineNumber: number;
+  readonly cells: ReadonlyArray<string>;
+  readonly message: string;
+}
+
+const PROBLEM_IMPORT_FIELDS: ReadonlyArray<ProblemImportFieldDefinition> = [
+  { field: 'name', label: $localize`Name`, required: true, aliases: ['name', 'title'] },
+  { field: 'description', label: $localize`Description`, required: true, aliases: ['description', 'details'] },
+  { field: 'visibility', label: $localize`Visibility`, required: false, aliases: ['visibility', 'open', 'public'] },
+  { field: 'creationDate', label: $localize`Creation date`, required: false, aliases: ['creationdate', 'created', 'date'] },
+  {
+    field: 'groups',
+    label: $localize`Groups`,
+    required: false,
+    aliases: ['groups', 'group', 'groupauthorizations', normalizeHeader($localize`Group authorizations`)]
+  },
+  {
+    field: 'authorization',
+    label: $localize`Authorization level`,
+    required: false,
+    aliases: ['authorization', 'authorizationlevel', 'level', 'access']
+  }
+];
+
+/**
+ * Visibility cells (lower case), including the localized labels written by the export.
+ */
+const PUBLIC_VALUES: ReadonlyArray<string> = ['public', 'true', 'yes', '1', PROBLEM_PUBLIC_LABEL.toLowerCase(), CSV_TRUE_LABEL.toLowerCase()];
+const PRIVATE_VALUES: ReadonlyArray<string> = ['private', 'false', 'no', '0', PROBLEM_PRIVATE_LABEL.toLowerCase(), CSV_FALSE_LABEL.toLowerCase()];
+
+/**
+ * Group entry of a group cell: `Group name` or `Group name (LEVEL)`.
+ */
+const GROUP_ENTRY_PATTERN: RegExp = /^(.*?)\s*(?:\(([^()]*)\))?$/;
+
+@Component({
+  selector: 'app-problem-import',
+  standalone: true,
+  templateUrl: './problem-import.component.html',
+  imports: [CommonModule, FormsModule]
+})
+export class ProblemImportComponent {
+  /**
+   * Service for managing the modal dialog.
+   */
+  public activeModal: NgbActiveModal = inject(NgbActiveModal);
+
+  private readonly problemService: ProblemService = inject(ProblemService);
+  private readonly groupService: GroupService = inject(GroupService);
+  private readonly authService: AuthService = inject(AuthService);
+  private readonly localeId: string = inject(LOCALE_ID);
+
+  public readonly fields: ReadonlyArray<ProblemImportFieldDefinition> = PROBLEM_IMPORT_FIELDS;
+
+  public readonly step: WritableSignal<ProblemImportStep> = signal<ProblemImportStep>('file');
+  public readonly fileName: WritableSignal<string | null> = signal<string | null>(null);
+  public readonly fileError: WritableSignal<string | null> = signal<string | null>(null);
+  public readonly headers: WritableSignal<ReadonlyArray<string>> = signal<ReadonlyArray<string>>([]);
+
+  /**
+   * Index of the column mapped to each field (null when the field is not imported).
+   */
+  public mapping: Record<ProblemImportField, number | null> = createEmptyMapping();
+
+  public readonly loadingPreview: WritableSignal<boolean> = signal<boolean>(false);
+  public readonly previewError: WritableSignal<string | null> = signal<string | null>(null);
+  public readonly rows: WritableSignal<ReadonlyArray<ProblemImportRow>> = signal<ReadonlyArray<ProblemImportRow>>([]);
+  public readonly validRows: Signal<ReadonlyArray<ProblemImportRow>> = computed(() =>
+    this.rows().filter((row: ProblemImportRow) => row.errors.length === 0)
+  );
+  public readonly invalidCount: Signal<number> = computed(() => this.rows().length - this.validRows().length);
+
+  /**
+   * Number of rows processed by the import, out of the valid rows.
+   */
+  public readonly progress: WritableSignal<number> = signal<number>(0);
+  public readonly createdCount: WritableSignal<number> = signal<number>(0);
+  public readonly reportRows: WritableSignal<ReadonlyArray<ProblemImportReportRow>> = signal<ReadonlyArray<ProblemImportReportRow>>([]);
+
+  private dataRows: ReadonlyArray<ReadonlyArray<string>> = [];
+
+  /**
+   * Reads and parses the selected file, then maps the columns whose header matches a field.
+   * @param event The change event of the file input
+   */
+  public onFileSelected(event: Event): void {
+    const file: File | undefined = (event.target as HTMLInputElement).files?.[0];
+    if (file === undefined) {
+      return;
+    }
+    this.fileName.set(file.name);
+    this.fileError.set(null);
+    file.text().then(
+      (content: string): void => {
+        const csv: ParsedCsv = parseCsv(content);
+        if (csv.headers.length === 0 || csv.rows.length === 0) {
+          this.fileError.set($localize`The file has no data rows. The first line must hold the column headers.`);
+        } else if (csv.rows.length > PROBLEM_IMPORT_MAX_ROWS) {
+          this.fileError.set($localize`The file has too many rows (max ${PROBLEM_IMPORT_MAX_ROWS}:max:).`);
+        } else {
+          this.headers.set(csv.headers);
+          this.dataRows = csv.rows;
+          this.mapping = autoMapColumns(csv.headers);
+          this.step.set('mapping');
+        }
+      },
+      (error: unknown): void => {
+        console.error('Error reading import file:', error);
+        this.fileError.set($localize`The file could not be read.`);
+      }
+    );
+  }
+
+  /**
+   * Whether every required field is mapped to a column.
+   */
+  public isMappingComplete(): boolean {
+    return this.fields.every((definition: ProblemImportFieldDefinition) =>
+      definition.required === false || this.mapping[definition.field] !== null
+    );
+  }
+
+  /**
+   * Validates every row with the current mapping and shows the preview.
+   */
+  public showPreview(): void {
+    this.loadingPreview.set(true);
+    this.previewError.set(null);
+    const groups$: Observable<Group[]> = this.mapping.groups === null ? of([]) : this.groupService.fetchGroups();
+    groups$.subscribe({
+      next: (groups: Group[]): void => {
+        const creatorId: number | null = this.resolveCreatorId();
+        if (creatorId === null) {
+          this.previewError.set($localize`You must be signed in to import problems.`);
+        }
+        this.rows.set(this.dataRows.map((cells: ReadonlyArray<string>, index: number) =>
+          this.validateRow(cells, index + 2, groups, creatorId)
+        ));
+        this.loadingPreview.set(false);
+        this.step.set('preview');
+      },
+      error: (error: unknown): void => {
+        console.error('Error loading groups for import:', error);
+        this.loadingPreview.set(false);
+        this.previewError.set($localize`The groups could not be loaded. Please try again.`);
+      }
+    });
+  }
+
+  /**
+   * Goes back to the column mapping.
+   */
+  public backToMapping(): void {
+    this.previewError.set(null);
+    this.step.set('mapping');
+  }
+
+  /**
+   * Creates the problems of the valid rows, then their group authorizations.
+   */
+  public startImport(): void {
+    const validRows: ReadonlyArray<ProblemImportRow> = this.validRows();
+    if (validRows.length === 0 || this.previewError() !== null) {
+      return;
+    }
+    const context: HttpContext = new HttpContext().set(SKIP_ERROR_NOTIFICATION, true);
+    const authorizationFailures: Map<number, string> = new Map<number, string>();
+    this.progress.set(0);
+    this.step.set('importing');
+    runBulkOperation(
+      validRows,
+      (row: ProblemImportRow) => this.problemService.createProblem(row.body!, context).pipe(
+        switchMap((created: Problem) => this.createAuthorizations(created, row.authorizations, context).pipe(
+          catchError((error: unknown) => {
+            console.error('Error creating group authorizations for imported problem:', created, error);
+            authorizationFailures.set(
+              row.lineNumber,
+              $localize`Problem created, but its group authorizations failed: ${getBulkErrorMessage(error)}:message:`
+            );
+            return of(void 0);
+          })
+        ))
+      ),
+      (doneCount: number) => this.progress.set(doneCount)
+    ).subscribe((result: BulkOperationResult<ProblemImportRow>): void => {
+      const failedLines: Map<number, string> = new Map<number, string>([
+        ...this.rows()
+          .filter((row: ProblemImportRow) => row.errors.length > 0)
+          .map((row: ProblemImportRow): [number, string] => [row.lineNumber, row.errors.join(' ')]),
+        ...result.failed.map((failure: BulkItemFailure<ProblemImportRow>): [number, string] => [failure.item.lineNumber, failure.message]),
+        ...authorizationFailures
+      ]);
+      this.createdCount.set(result.succeeded.length);
+      this.reportRows.set(this.rows()
+        .filter((row: ProblemImportRow) => failedLines.has(row.lineNumber))
+        .map((row: ProblemImportRow) => ({ lineNumber: row.lineNumber, cells: row.cells, message: failedLines.get(row.lineNumber)! })));
+      this.step.set('done');
+    });
+  }
+
+  /**
+   * Downloads the rows that were not (fully) imported, with the reason, as CSV.
+   */
+  public downloadErrorReport(): void {
+    const columns: ExportColumn<ProblemImportReportRow>[] = [
+      { key: 'line', header: $localize`Line`, value: (row: ProblemImportReportRow) => row.lineNumber },
+      ...this.headers().map((header: string, index: number): ExportColumn<ProblemImportReportRow> => ({
+        key: header,
+        header,
+        value: (row: ProblemImportReportRow) => row.cells[index]
+      })),
+      { key: 'error', header: $localize`Error`, value: (row: ProblemImportReportRow) => row.message }
+    ];
+    exportRows(this.reportRows(), columns, 'csv', 'problem-import-errors', this.localeId);
+  }
+
+  /**
+   * Returns the cell of a row mapped to a field.
+   * @param row The row
+   * @param field The field
+   * @returns The trimmed cell, or an empty string when the field is not mapped
+   */
+  public getCell(row: ProblemImportRow, field: ProblemImportField): string {
+    return this.getMappedCell(row.cells, field);
+  }
+
+  /**
+   * Closes the wizard, with the number of created problems once the import is done.
+   */
+  public onClose(): void {
+    if (this.step() === 'done') {
+      this.activeModal.close(this.createdCount());
+    } else {
+      this.activeModal.dismiss('cancel');
+    }
+  }
+
+  private validateRow(cells: ReadonlyArray<string>, lineNumber: number, groups: ReadonlyArray<Group>, creatorId: number | null): ProblemImportRow {
+    const cell = (field: ProblemImportField): string => this.getMappedCell(cells, field);
+    const name: string = cell('name');
+    const description: string = cell('description');
+    const errors: string[] = validateProblemFields(name, description).map((error: FieldError) => error.message);
+
+    const visibility: string = cell('visibility').toLowerCase();
+    if (visibility !== '' && PUBLIC_VALUES.includes(visibility) === false && PRIVATE_VALUES.includes(visibility) === false) {
+      errors.push($localize`Visibility must be Public or Private.`);
+    }
+
+    const rawCreationDate: string = cell('creationDate');
+    const creationDate: Date | null = rawCreationDate === '' ? new Date() : parseCsvDate(rawCreationDate);
+    if (creationDate === null) {
+      errors.push($localize`Invalid creation date: ${rawCreationDate}:date:.`);
+    }
+
+    const rawLevel: string = cell('authorization');
+    const defaultLevel: Authorization | null = rawLevel === '' ? Authorization.READER : toAuthorization(rawLevel);
+    if (defaultLevel === null) {
+      errors.push($localize`Unknown authorization level: ${rawLevel}:level:.`);
+    }
+
+    const authorizations: ProblemImportAuthorization[] = [];
+    for (const entry of cell('groups').split(';').map((value: string) => value.trim()).filter((value: string) => value !== '')) {
+      const [, groupName, rawEntryLevel] = GROUP_ENTRY_PATTERN.exec(entry) ?? [entry, entry, undefined];
+      const group: Group | undefined = groups.find((candidate: Group) =>
+        (candidate.name ?? '').trim().toLowerCase() === groupName.toLowerCase()
+      );
+      const level: Authorization | null = rawEntryLevel === undefined ? defaultLevel : toAuthorization(rawEntryLevel);
+      if (group === undefined) {
+        errors.push($localize`Unknown group: ${groupName}:group:.`);
+      } else if (level === null) {
+        errors.push($localize`Unknown authorization level: ${rawEntryLevel}:level:.`);
+      } else if (authorizations.some((authorization: ProblemImportAuthorization) => authorization.group.id === group.id) === false) {
+        authorizations.push({ group, level });
+      }
+    }
+
+    if (errors.length > 0 || creatorId === null || creationDate === null) {
+      return { lineNumber, cells, body: null, authorizations: [], errors };
+    }
+    const body: CreateProblemDto = {
+      name,
+      description,
+      open: PUBLIC_VALUES.includes(visibility),
+      status: ProblemStatus.NEW,
+      creatorId,
+      creationDate: creationDate.toISOString()
+    };
+    return { lineNumber, cells, body, authorizations, errors };
+  }
+
+  private getMappedCell(cells: ReadonlyArray<string>, field: ProblemImportField): string {
+    const index: number | null = this.mapping[field];
+    return index === null ? '' : unescapeCsvFormula((cells[index] ?? '').trim());
+  }
+
+  private createAuthorizations(
+    created: Problem,
+    authorizations: ReadonlyArray<ProblemImportAuthorization>,
+    context: HttpContext
+  ): Observable<void> {
+    if (created.id === undefined || authorizations.length === 0) {
+      return of(void 0);
+    }
+    return forkJoin(authorizations.map((authorization: ProblemImportAuthorization) =>
+      this.problemService.createGroupAuthorization(authorization.group.id!, created.id!, authorization.level, context)
+    )).pipe(map(() => void 0));
+  }
+
+  private resolveCreatorId(): number | null {
+    const currentUserId: number | null = this.authService.getCurrentUserId();
+    if (currentUserId !== null) {
+      return currentUserId;
+    }
+    // In development mode, use dummy ID as fallback
+    return isDevMode() ? DUMMY_USER_ID : null;
+  }
+}
+
+function createEmptyMapping(): Record<ProblemImportField, number | null> {
+  return { name: null, description: null, visibility: null, creationDate: null, groups: null, authorization: null };
+}
+
+function autoMapColumns(headers: ReadonlyArray<string>): Record<ProblemImportField, number | null> {
+  const normalizedHeaders: string[] = headers.map(normalizeHeader);
+  const mapping: Record<ProblemImportField, number | null> = createEmptyMapping();
+  for (const definition of PROBLEM_IMPORT_FIELDS) {
+    const candidates: string[] = [normalizeHeader(definition.label), ...definition.aliases];
+    const index: number = normalizedHeaders.findIndex((header: string) => candidates.includes(header));
+    mapping[definition.field] = index === -1 ? null : index;
+  }
+  return mapping;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+function toAuthorization(value: string): Authorization | null {
+  const level: string = value.trim().toUpperCase();
+  return (Object.values(Authorization) as string[]).includes(level) ? level as Authorization : null;
+}
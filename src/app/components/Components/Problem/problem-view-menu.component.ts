@@ -0,0 +1,205 @@
+/**
+ * Dropdown of the saved views of the problem list: applies a view, saves the current filters as a new view,
+ * and renames, deletes or marks a view as the default one (applied when the list opens).
+ */
+
+import { CommonModule } from '@angular/common';
+import { Component, EventEmitter, inject, Input, Output, signal, WritableSignal } from '@angular/core';
+import { FormControl, ReactiveFormsModule, Validators } from '@angular/forms';
+import { NgbDropdown, NgbDropdownModule, NgbModal, NgbTooltipModule } from '@ng-bootstrap/ng-bootstrap';
+
+import { ProblemViewFilters, SavedProblemView } from '../../../model';
+import { AppError } from '../../../errors/app-error';
+import { NotificationService } from '../../../services/notification.service';
+import { PROBLEM_VIEW_NAME_MAX_LENGTH, ProblemViewService } from '../../../services/problem-view.service';
+import { ConfirmationDialogComponent } from '../Common/confirmation-dialog.component';
+
+@Component({
+  selector: 'app-problem-view-menu',
+  standalone: true,
+  templateUrl: './problem-view-menu.component.html',
+  styleUrls: ['./problem-view-menu.component.scss'],
+  imports: [CommonModule, ReactiveFormsModule, NgbDropdownModule, NgbTooltipModule]
+})
+export class ProblemViewMenuComponent {
+  /**
+   * Saved views of the current user.
+   */
+  @Input() views: ReadonlyArray<SavedProblemView> = [];
+
+  /**
+   * Current filters of the problem list, captured when saving a new view.
+   */
+  @Input() currentFilters: ProblemViewFilters | null = null;
+
+  /**
+   * Emits the filters of the view selected by the user.
+   */
+  @Output() viewApplied: EventEmitter<ProblemViewFilters> = new EventEmitter<ProblemViewFilters>();
+
+  /**
+   * Emits after a view was created, renamed, deleted or marked as default (the views must be fetched again).
+   */
+  @Output() viewsChange: EventEmitter<void> = new EventEmitter<void>();
+
+  private readonly problemViewService: ProblemViewService = inject(ProblemViewService);
+  private readonly notificationService: NotificationService = inject(NotificationService);
+  private readonly modalService: NgbModal = inject(NgbModal);
+
+  public readonly nameCtrl: FormControl<string | null> = new FormControl<string | null>(null, {
+    validators: [Validators.required, Validators.maxLength(PROBLEM_VIEW_NAME_MAX_LENGTH)]
+  });
+  public readonly renameCtrl: FormControl<string | null> = new FormControl<string | null>(null, {
+    validators: [Validators.required, Validators.maxLength(PROBLEM_VIEW_NAME_MAX_LENGTH)]
+  });
+
+  /**
+   * ID of the view being renamed, null when no view is renamed.
+   */
+  public readonly renamingId: WritableSignal<number | null> = signal<number | null>(null);
+
+  public readonly saving: WritableSignal<boolean> = signal<boolean>(false);
+
+  /**
+   * Message of the last failed operation, displayed in the dropdown.
+   */
+  public readonly errorMessage: WritableSignal<string | null> = signal<string | null>(null);
+
+  /**
+   * Applies a view and closes the dropdown.
+   * @param view The view to apply
+   * @param dropdown The dropdown to close
+   */
+  public applyView(view: SavedProblemView, dropdown: NgbDropdown): void {
+    this.viewApplied.emit(view.filters);
+    dropdown.close();
+  }
+
+  /**
+   * Saves the current filters as a new view.
+   */
+  public onSubmitCreate(): void {
+    const name: string = (this.nameCtrl.value ?? '').trim();
+    if (this.currentFilters === null || this.nameCtrl.invalid || name === '') {
+      this.nameCtrl.markAsTouched();
+      return;
+    }
+    this.saving.set(true);
+    this.errorMessage.set(null);
+    this.problemViewService.createView(name, this.currentFilters).subscribe({
+      next: (): void => {
+        this.saving.set(false);
+        this.nameCtrl.reset();
+        this.notificationService.showSuccess($localize`View saved.`);
+        this.viewsChange.emit();
+      },
+      error: (error: unknown): void => this.onError('Error saving problem view:', error)
+    });
+  }
+
+  /**
+   * Opens the inline editor of a view name.
+   * @param view The view to rename
+   */
+  public startRename(view: SavedProblemView): void {
+    this.errorMessage.set(null);
+    this.renameCtrl.setValue(view.name);
+    this.renamingId.set(view.id);
+  }
+
+  /**
+   * Saves the name of the view being renamed.
+   */
+  public onSubmitRename(): void {
+    const id: number | null = this.renamingId();
+    const name: string = (this.renameCtrl.value ?? '').trim();
+    if (id === null || this.renameCtrl.invalid || name === '') {
+      this.renameCtrl.markAsTouched();
+      return;
+    }
+    this.saving.set(true);
+    this.errorMessage.set(null);
+    this.problemViewService.renameView(id, name).subscribe({
+      next: (): void => {
+        this.saving.set(false);
+        this.cancelRename();
+        this.viewsChange.emit();
+      },
+      error: (error: unknown): void => this.onError('Error renaming problem view:', error)
+    });
+  }
+
+  /**
+   * Closes the inline editor of a view name.
+   */
+  public cancelRename(): void {
+    this.renamingId.set(null);
+    this.renameCtrl.reset();
+  }
+
+  /**
+   * Marks a view as the default one, or unmarks it when it already is.
+   * @param view The view
+   */
+  public toggleDefault(view: SavedProblemView): void {
+    this.errorMessage.set(null);
+    this.problemViewService.setDefaultView(view.isDefault ? null : view.id).subscribe({
+      next: (): void => this.viewsChange.emit(),
+      error: (error: unknown): void => this.onError('Error setting the default problem view:', error)
+    });
+  }
+
+  /**
+   * Opens the confirmation dialog before deleting a view.
+   * @param view The view to delete
+   */
+  public openDeleteViewConfirmation(view: SavedProblemView): void {
+    // Blur any focused element to prevent aria-hidden accessibility warning
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+
+    const modalRef = this.modalService.open(ConfirmationDialogComponent, {
+      size: 'md',
+      backdrop: 'static',
+      keyboard: false
+    });
+
+    const baseMessage: string = $localize`Are you sure you want to delete this view?`;
+    const message: string = baseMessage.replace('this view', `<strong>${view.name}</strong>`);
+
+    modalRef.componentInstance.initialize(
+      $localize`Confirm Deletion`,
+      message,
+      $localize`Delete`,
+      $localize`Cancel`,
+      'btn-danger',
+      'delete'
+    );
+
+    modalRef.result.then(
+      (result: string) => {
+        if (result === 'delete') {
+          this.deleteView(view.id);
+        }
+      },
+      (reason: unknown) => {
+        console.log('Delete confirmation dismissed', reason);
+      }
+    );
+  }
+
+  private deleteView(id: number): void {
+    this.errorMessage.set(null);
+    this.problemViewService.deleteView(id).subscribe({
+      next: (): void => this.viewsChange.emit(),
+      error: (error: unknown): void => this.onError('Error deleting problem view:', error)
+    });
+  }
+
+  private onError(logMessage: string, error: unknown): void {
+    console.error(logMessage, error);
+    this.saving.set(false);
+    this.errorMessage.set(error instanceof AppError ? error.userMessage : $localize`The view could not be saved.`);
+  }
+}
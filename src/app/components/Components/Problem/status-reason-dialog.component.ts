@@ -0,0 +1,66 @@
+/**
+ * Dialog asking for the reason of a status change (required to enter some statuses, see `STATUSES_REQUIRING_REASON`).
+ * Closes with the trimmed reason, or is dismissed when the user cancels.
+ */
+
+import { CommonModule } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { FormControl, ReactiveFormsModule, Validators } from '@angular/forms';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+
+@Component({
+  selector: 'app-status-reason-dialog',
+  standalone: true,
+  templateUrl: './status-reason-dialog.component.html',
+  imports: [CommonModule, ReactiveFormsModule]
+})
+export class StatusReasonDialogComponent {
+  /**
+   * Service for managing the modal dialog.
+   */
+  public activeModal: NgbActiveModal = inject(NgbActiveModal);
+
+  /**
+   * Name of the problem whose status changes.
+   */
+  public problemName: string = '';
+
+  /**
+   * Localized label of the requested status.
+   */
+  public statusLabel: string = '';
+
+  public readonly reasonCtrl: FormControl<string | null> = new FormControl<string | null>(null, {
+    validators: [Validators.required]
+  });
+
+  /**
+   * Initializes the dialog.
+   * @param problemName Name of the problem whose status changes
+   * @param statusLabel Localized label of the requested status
+   */
+  public initialize(problemName: string, statusLabel: string): void {
+    this.problemName = problemName;
+    this.statusLabel = statusLabel;
+  }
+
+  /**
+   * Closes the modal with the reason, once one is entered.
+   */
+  public onConfirm(): void {
+    const reason: string = (this.reasonCtrl.value ?? '').trim();
+    if (reason === '') {
+      this.reasonCtrl.setValue('');
+      this.reasonCtrl.markAsTouched();
+      return;
+    }
+    this.activeModal.close(reason);
+  }
+
+  /**
+   * Dismisses the modal without changing the status.
+   */
+  public onCancel(): void {
+    this.activeModal.dismiss('cancel');
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Change-password form for the signed-in user.
+ *
+ * @remarks
+ * - Requires the current password, and a new password following the shared password policy, typed twice.
+ * - Sends the change via {@link AuthService#changePassword}.
+ * - Displays backend {@link ValidationError} field errors (e.g. wrong current password) on the form.
+ * - Reports typed passwords as unsaved changes (see {@link HasUnsavedChanges}).
+ *
+ * @example
+ * ```html
+ * <app-change-password-form (passwordChanged)="onPasswordChanged()"></app-change-password-form>
+ * ```
+ */
+import { CommonModule } from '@angular/common';
+import { Component, DestroyRef, EventEmitter, OnInit, Output, inject } from '@angular/core';
+import { FormControl, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { Subscription } from 'rxjs';
+
+import { AuthService } from '../../../services/auth.service';
+import { NotificationService } from '../../../services/notification.service';
+import { UnsavedChangesService } from '../../../services/unsaved-changes.service';
+import { HasUnsavedChanges } from '../../../interfaces/has-unsaved-changes.interface';
+import { AppError } from '../../../errors/app-error';
+import { ValidationError } from '../../../errors/validation-error';
+import { FieldError } from '../../../errors/field-error';
+import { applyFieldErrors } from '../../../utils/form-error-utils';
+import { passwordMatchValidator, passwordStrengthValidator } from '../../../utils/password-validators';
+
+@Component({
+  selector: 'app-change-password-form',
+  standalone: true,
+  templateUrl: './change-password-form.component.html',
+  imports: [CommonModule, ReactiveFormsModule],
+})
+export class ChangePasswordFormComponent implements OnInit, HasUnsavedChanges {
+  /**
+   * Emits once the password has been changed.
+   */
+  @Output() passwordChanged: EventEmitter<void> = new EventEmitter<void>();
+
+  private readonly destroyRef: DestroyRef = inject(DestroyRef);
+  private readonly authService: AuthService = inject(AuthService);
+  private readonly notificationService: NotificationService = inject(NotificationService);
+  private readonly unsavedChangesService: UnsavedChangesService = inject(UnsavedChangesService);
+
+  /**
+   * Strongly-typed reactive form with the current password and the new one (with confirmation).
+   */
+  form: FormGroup<{
+    currentPasswordCtrl: FormControl<string | null>;
+    newPasswordCtrl: FormControl<string | null>;
+    newPasswordConfirmationCtrl: FormControl<string | null>;
+  }> = new FormGroup<{
+    currentPasswordCtrl: FormControl<string | null>;
+    newPasswordCtrl: FormControl<string | null>;
+    newPasswordConfirmationCtrl: FormControl<string | null>;
+  }>({
+    currentPasswordCtrl: new FormControl<string | null>(null, { validators: [Validators.required] }),
+    newPasswordCtrl: new FormControl<string | null>(null, { validators: [Validators.required, passwordStrengthValidator] }),
+    newPasswordConfirmationCtrl: new FormControl<string | null>(null, { validators: [Validators.required] }),
+  }, { validators: [passwordMatchValidator('newPasswordCtrl', 'newPasswordConfirmationCtrl')] });
+
+  /**
+   * Indicates whether the change is in progress.
+   */
+  isSubmitting: boolean = false;
+
+  /**
+   * Error message not related to a specific field.
+   */
+  errorMessage: string | null = null;
+
+  ngOnInit(): void {
+    this.unsavedChangesService.warnBeforeUnload(this, this.destroyRef);
+  }
+
+  /**
+   * Whether passwords were typed and not submitted.
+   */
+  hasUnsavedChanges(): boolean {
+    return this.form.dirty;
+  }
+
+  /**
+   * Handles form submission and changes the password.
+   */
+  onSubmit(): void {
+    if (this.form.invalid === true) {
+      this.form.markAllAsTouched();
+      return;
+    }
+    const rawCurrentPassword: string | null = this.form.controls.currentPasswordCtrl.value;
+    const rawNewPassword: string | null = this.form.controls.newPasswordCtrl.value;
+    if (rawCurrentPassword === null || rawNewPassword === null) {
+      return;
+    }
+
+    this.isSubmitting = true;
+    this.errorMessage = null;
+
+    const sub: Subscription = this.authService.changePassword(rawCurrentPassword, rawNewPassword).subscribe({
+      next: (): void => {
+        this.isSubmitting = false;
+        this.form.reset();
+        this.notificationService.showSuccess($localize`Your password has been changed.`);
+        this.passwordChanged.emit();
+      },
+      error: (err: unknown): void => {
+        this.isSubmitting = false;
+        this.handleError(err);
+      },
+    });
+    this.destroyRef.onDestroy((): void => sub.unsubscribe());
+  }
+
+  /**
+   * Displays a failed change: field errors on the form, anything else as a global message.
+   * @param err The error raised by the request.
+   */
+  private handleError(err: unknown): void {
+    if (err instanceof ValidationError) {
+      const unmatched: ReadonlyArray<FieldError> = applyFieldErrors(this.form, err.fieldErrors);
+      this.errorMessage = unmatched.length > 0 || err.fieldErrors.length === 0 ? err.userMessage : null;
+      return;
+    }
+    this.errorMessage = err instanceof AppError ? err.userMessage : $localize`Failed to change the password`;
+  }
+}
@@ -4,50 +4,129 @@
  */
 
 import { CommonModule } from '@angular/common';
-import { Component, OnInit } from '@angular/core';
+import { Component, computed, DestroyRef, effect, Inject, LOCALE_ID, OnInit, Signal, signal, WritableSignal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, ParamMap, Params, Router } from '@angular/router';
 import { NgbModalModule, NgbModal, NgbTooltipModule, NgbDropdownModule } from '@ng-bootstrap/ng-bootstrap';
 import { User } from '../../../model/model';
 import { UserService } from '../../../services/user.service';
+import { UserStore } from '../../../services/user-store.service';
+import { UnsavedChangesService } from '../../../services/unsaved-changes.service';
 import { UserAddComponent } from '../../Pages/user-add.component';
 import { UserDeleteConfirmComponent } from './user-delete-confirm.component';
 import { DateRangeFilterComponent, DateRangeChange } from '../Common/date-range-filter.component';
-import { Observable, Subscription } from 'rxjs';
-import { map } from 'rxjs/operators';
+import { ExportMenuComponent } from '../Common/export-menu.component';
+import {
+  formatSortParam,
+  isListQueryParamsNavigation,
+  LIST_QUERY_PARAMS,
+  ListSort,
+  parseSortParam,
+  readBooleanParam,
+  readDateParam,
+  readTextParam,
+  toParamValue,
+  writeListQueryParams
+} from '../../../utils/list-query-params';
+import { ExportColumn, ExportFormat, exportRows } from '../../../utils/table-export';
+import { Subscription } from 'rxjs';
+import { skip } from 'rxjs/operators';
 
 type SortColumn = 'id' | 'email' | 'firstName' | 'surname' | 'admin' | 'creationDate' | '';
 type SortDirection = 'asc' | 'desc' | '';
 
+/**
+ * Columns the table can be sorted by (accepted in the `sort` query parameter).
+ */
+const SORT_COLUMNS: ReadonlyArray<Exclude<SortColumn, ''>> = ['id', 'email', 'firstName', 'surname', 'admin', 'creationDate'];
+
+/**
+ * Query parameters holding the user filters.
+ */
+const USER_QUERY_PARAMS = {
+  email: 'email',
+  firstName: 'firstName',
+  surname: 'surname',
+  admin: 'admin'
+} as const;
+
+/**
+ * Columns of the user exports, including the derived full name.
+ */
+const USER_EXPORT_COLUMNS: ReadonlyArray<ExportColumn<User>> = [
+  { key: 'id', header: $localize`ID`, value: (user: User) => user.id },
+  { key: 'email', header: $localize`Email`, value: (user: User) => user.email },
+  { key: 'firstName', header: $localize`First Name`, value: (user: User) => user.firstName },
+  { key: 'surname', header: $localize`Surname`, value: (user: User) => user.surname },
+  { key: 'fullName', header: $localize`Full Name`, value: (user: User) => `${user.firstName || ''} ${user.surname || ''}`.trim() || null },
+  { key: 'admin', header: $localize`Admin`, value: (user: User) => user.admin === true },
+  { key: 'creationDate', header: $localize`Creation Date`, value: (user: User) => user.creationDate ? new Date(user.creationDate) : null }
+];
+
 @Component({
   selector: 'app-user-card',
   standalone: true,
   templateUrl: './user-card.component.html',
   styleUrls: ['./user-card.component.scss'],
-  imports: [CommonModule, NgbModalModule, NgbTooltipModule, NgbDropdownModule, FormsModule, DateRangeFilterComponent]
+  imports: [CommonModule, NgbModalModule, NgbTooltipModule, NgbDropdownModule, FormsModule, DateRangeFilterComponent, ExportMenuComponent]
 })
 export class UserCardComponent implements OnInit {
-  public users$!: Observable<User[] | undefined>;
-  public sortColumn: SortColumn = '';
-  public sortDirection: SortDirection = '';
-  public filterEmail: string = '';
-  public filterFirstName: string = '';
-  public filterSurname: string = '';
-  public filterAdmin: boolean | null = null;
-  public filterCreationDateFrom: string = '';
-  public filterCreationDateTo: string = '';
+  public readonly sortColumn: WritableSignal<SortColumn> = signal<SortColumn>('');
+  public readonly sortDirection: WritableSignal<SortDirection> = signal<SortDirection>('');
+  public readonly filterEmail: WritableSignal<string> = signal<string>('');
+  public readonly filterFirstName: WritableSignal<string> = signal<string>('');
+  public readonly filterSurname: WritableSignal<string> = signal<string>('');
+  public readonly filterAdmin: WritableSignal<boolean | null> = signal<boolean | null>(null);
+  public readonly filterCreationDateFrom: WritableSignal<string> = signal<string>('');
+  public readonly filterCreationDateTo: WritableSignal<string> = signal<string>('');
+
+  /**
+   * Users displayed in the table: the cached list filtered and sorted in memory (no backend call).
+   */
+  public readonly users: Signal<User[] | undefined> = computed<User[] | undefined>(
+    () => this.filterAndSortUsers(this.userStore.items())
+  );
   
   // Row highlighting for updates
   public lastUpdatedUserId: number | null = null;
 
   constructor(
     private userService: UserService,
-    private modalService: NgbModal
-  ) {}
+    private userStore: UserStore,
+    private modalService: NgbModal,
+    private unsavedChangesService: UnsavedChangesService,
+    private router: Router,
+    private route: ActivatedRoute,
+    private destroyRef: DestroyRef,
+    @Inject(LOCALE_ID) private localeId: string
+  ) {
+    // Records the filters and sort order in the URL whenever they change
+    effect(() => writeListQueryParams(this.router, this.route, this.toQueryParams()));
+  }
 
   public ngOnInit(): void {
-    this.users$ = this.userService.fetchUsers().pipe(
-      map((users: User[] | undefined) => this.filterAndSortUsers(users))
-    );
+    // The URL holds the filters: restore them, then follow its changes (links, back and forward navigation)
+    this.readQueryParams(this.route.snapshot.queryParamMap);
+    this.route.queryParamMap.pipe(
+      skip(1),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe((params: ParamMap) => {
+      if (isListQueryParamsNavigation(this.router) === false) {
+        this.readQueryParams(params);
+      }
+    });
+
+    // Uses the cached list when it is still fresh
+    this.userStore.load();
+  }
+
+  /**
+   * Exports the displayed users (filtered and sorted).
+   * @param format The file format
+   */
+  public exportUsers(format: ExportFormat): void {
+    exportRows(this.users() ?? [], USER_EXPORT_COLUMNS, format, 'users', this.localeId);
   }
 
   /**
@@ -55,33 +134,24 @@ export class UserCardComponent implements OnInit {
    * @param column The column to sort by
    */
   public onSort(column: SortColumn): void {
-    if (this.sortColumn === column) {
-      this.sortDirection = this.sortDirection === 'asc' ? 'desc' : 'asc';
+    if (this.sortColumn() === column) {
+      this.sortDirection.set(this.sortDirection() === 'asc' ? 'desc' : 'asc');
     } else {
-      this.sortColumn = column;
-      this.sortDirection = 'asc';
+      this.sortColumn.set(column);
+      this.sortDirection.set('asc');
     }
-    this.refreshData();
-  }
-
-  /**
-   * Handles filter changes.
-   */
-  public onFilterChange(): void {
-    this.refreshData();
   }
 
   /**
    * Clears all filters.
    */
   public clearFilters(): void {
-    this.filterEmail = '';
-    this.filterFirstName = '';
-    this.filterSurname = '';
-    this.filterAdmin = null;
-    this.filterCreationDateFrom = '';
-    this.filterCreationDateTo = '';
-    this.refreshData();
+    this.filterEmail.set('');
+    this.filterFirstName.set('');
+    this.filterSurname.set('');
+    this.filterAdmin.set(null);
+    this.filterCreationDateFrom.set('');
+    this.filterCreationDateTo.set('');
   }
 
   /**
@@ -89,9 +159,8 @@ export class UserCardComponent implements OnInit {
    * @param change The date range change event
    */
   public onDateRangeChange(change: DateRangeChange): void {
-    this.filterCreationDateFrom = change.from;
-    this.filterCreationDateTo = change.to;
-    this.onFilterChange();
+    this.filterCreationDateFrom.set(change.from);
+    this.filterCreationDateTo.set(change.to);
   }
 
   /**
@@ -99,8 +168,7 @@ export class UserCardComponent implements OnInit {
    * @param value The filter value (null for all, true for admin, false for user)
    */
   public setAdminFilter(value: boolean | null): void {
-    this.filterAdmin = value;
-    this.onFilterChange();
+    this.filterAdmin.set(value);
   }
 
   /**
@@ -108,9 +176,9 @@ export class UserCardComponent implements OnInit {
    * @returns The filter button text
    */
   public getAdminFilterText(): string {
-    if (this.filterAdmin === null) {
+    if (this.filterAdmin() === null) {
       return $localize`All`;
-    } else if (this.filterAdmin === true) {
+    } else if (this.filterAdmin() === true) {
       return $localize`Admin only`;
     } else {
       return $localize`Non-admin only`;
@@ -118,12 +186,42 @@ export class UserCardComponent implements OnInit {
   }
 
   /**
-   * Refreshes the data by reapplying filters and sorting.
+   * Sets the filters and sort order from the query parameters (invalid values are ignored).
+   * @param params The query parameters
+   */
+  private readQueryParams(params: ParamMap): void {
+    const sort: ListSort<Exclude<SortColumn, ''>> | null = parseSortParam(params.get(LIST_QUERY_PARAMS.sort), SORT_COLUMNS);
+    this.filterEmail.set(readTextParam(params, USER_QUERY_PARAMS.email));
+    this.filterFirstName.set(readTextParam(params, USER_QUERY_PARAMS.firstName));
+    this.filterSurname.set(readTextParam(params, USER_QUERY_PARAMS.surname));
+    this.filterAdmin.set(readBooleanParam(params, USER_QUERY_PARAMS.admin));
+    this.filterCreationDateFrom.set(readDateParam(params, LIST_QUERY_PARAMS.from));
+    this.filterCreationDateTo.set(readDateParam(params, LIST_QUERY_PARAMS.to));
+    this.sortColumn.set(sort?.column ?? '');
+    this.sortDirection.set(sort?.direction ?? '');
+  }
+
+  /**
+   * Converts the filters and sort order to query parameters (empty filters are left out of the URL).
+   * @returns The query parameters, null values removing the parameter
+   */
+  private toQueryParams(): Params {
+    return {
+      [USER_QUERY_PARAMS.email]: toParamValue(this.filterEmail()),
+      [USER_QUERY_PARAMS.firstName]: toParamValue(this.filterFirstName()),
+      [USER_QUERY_PARAMS.surname]: toParamValue(this.filterSurname()),
+      [USER_QUERY_PARAMS.admin]: toParamValue(this.filterAdmin()),
+      [LIST_QUERY_PARAMS.from]: toParamValue(this.filterCreationDateFrom()),
+      [LIST_QUERY_PARAMS.to]: toParamValue(this.filterCreationDateTo()),
+      [LIST_QUERY_PARAMS.sort]: formatSortParam(this.sortColumn(), this.sortDirection())
+    };
+  }
+
+  /**
+   * Fetches the users again after a mutation.
    */
   private refreshData(): void {
-    this.users$ = this.userService.fetchUsers().pipe(
-      map((users: User[] | undefined) => this.filterAndSortUsers(users))
-    );
+    this.userStore.refresh();
   }
 
   /**
@@ -137,37 +235,45 @@ export class UserCardComponent implements OnInit {
     }
 
     let filteredUsers: User[] = [...users];
+    const filterEmail: string = this.filterEmail();
+    const filterFirstName: string = this.filterFirstName();
+    const filterSurname: string = this.filterSurname();
+    const filterAdmin: boolean | null = this.filterAdmin();
+    const filterCreationDateFrom: string = this.filterCreationDateFrom();
+    const filterCreationDateTo: string = this.filterCreationDateTo();
+    const sortColumn: SortColumn = this.sortColumn();
+    const sortDirection: SortDirection = this.sortDirection();
 
     // Apply filters
-    if (this.filterEmail) {
-      const lowerFilterEmail: string = this.filterEmail.toLowerCase();
+    if (filterEmail) {
+      const lowerFilterEmail: string = filterEmail.toLowerCase();
       filteredUsers = filteredUsers.filter((user: User) => 
         user.email?.toLowerCase().includes(lowerFilterEmail)
       );
     }
 
-    if (this.filterFirstName) {
-      const lowerFilterFirstName: string = this.filterFirstName.toLowerCase();
+    if (filterFirstName) {
+      const lowerFilterFirstName: string = filterFirstName.toLowerCase();
       filteredUsers = filteredUsers.filter((user: User) => 
         user.firstName?.toLowerCase().includes(lowerFilterFirstName)
       );
     }
 
-    if (this.filterSurname) {
-      const lowerFilterSurname: string = this.filterSurname.toLowerCase();
+    if (filterSurname) {
+      const lowerFilterSurname: string = filterSurname.toLowerCase();
       filteredUsers = filteredUsers.filter((user: User) => 
         user.surname?.toLowerCase().includes(lowerFilterSurname)
       );
     }
 
-    if (this.filterAdmin !== null) {
+    if (filterAdmin !== null) {
       filteredUsers = filteredUsers.filter((user: User) => 
-        user.admin === this.filterAdmin
+        user.admin === filterAdmin
       );
     }
 
-    if (this.filterCreationDateFrom) {
-      const fromDate: Date = new Date(this.filterCreationDateFrom);
+    if (filterCreationDateFrom) {
+      const fromDate: Date = new Date(filterCreationDateFrom);
       filteredUsers = filteredUsers.filter((user: User) => {
         if (!user.creationDate) {
           return false;
@@ -177,8 +283,8 @@ export class UserCardComponent implements OnInit {
       });
     }
 
-    if (this.filterCreationDateTo) {
-      const toDate: Date = new Date(this.filterCreationDateTo);
+    if (filterCreationDateTo) {
+      const toDate: Date = new Date(filterCreationDateTo);
       toDate.setHours(23, 59, 59, 999);
       filteredUsers = filteredUsers.filter((user: User) => {
         if (!user.creationDate) {
@@ -190,12 +296,12 @@ export class UserCardComponent implements OnInit {
     }
 
     // Apply sorting using native JavaScript
-    if (this.sortColumn && this.sortDirection) {
+    if (sortColumn && sortDirection) {
       filteredUsers.sort((a: User, b: User) => {
         let aValue: any;
         let bValue: any;
 
-        switch (this.sortColumn) {
+        switch (sortColumn) {
           case 'id':
             aValue = a.id || 0;
             bValue = b.id || 0;
@@ -227,10 +333,10 @@ export class UserCardComponent implements OnInit {
 
         // Compare values
         if (aValue < bValue) {
-          return this.sortDirection === 'asc' ? -1 : 1;
+          return sortDirection === 'asc' ? -1 : 1;
         }
         if (aValue > bValue) {
-          return this.sortDirection === 'asc' ? 1 : -1;
+          return sortDirection === 'asc' ? 1 : -1;
         }
         return 0;
       });
@@ -245,10 +351,10 @@ export class UserCardComponent implements OnInit {
    * @returns The Bootstrap icon class
    */
   public getSortIcon(column: SortColumn): string {
-    if (this.sortColumn !== column) {
+    if (this.sortColumn() !== column) {
       return 'bi-arrow-down-up';
     }
-    return this.sortDirection === 'asc' ? 'bi-arrow-up' : 'bi-arrow-down';
+    return this.sortDirection() === 'asc' ? 'bi-arrow-up' : 'bi-arrow-down';
   }
 
   /**
@@ -284,7 +390,9 @@ export class UserCardComponent implements OnInit {
     const modalRef = this.modalService.open(UserAddComponent, {
       size: 'lg',
       backdrop: 'static',
-      keyboard: false
+      keyboard: false,
+      // Ask before discarding the edits (Cancel and close buttons)
+      beforeDismiss: () => this.unsavedChangesService.confirmDiscard(modalRef.componentInstance)
     });
 
     modalRef.componentInstance.initialValue = null;
@@ -316,7 +424,9 @@ export class UserCardComponent implements OnInit {
     const modalRef = this.modalService.open(UserAddComponent, {
       size: 'lg',
       backdrop: 'static',
-      keyboard: false
+      keyboard: false,
+      // Ask before discarding the edits (Cancel and close buttons)
+      beforeDismiss: () => this.unsavedChangesService.confirmDiscard(modalRef.componentInstance)
     });
 
     modalRef.componentInstance.initialValue = user;
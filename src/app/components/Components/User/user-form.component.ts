@@ -18,6 +18,7 @@
  * ```
  */
 import { CommonModule } from '@angular/common';
+import { HttpContext } from '@angular/common/http';
 import { Component, DestroyRef, EventEmitter, Input, OnChanges, OnInit, Output, SimpleChanges, inject } from '@angular/core';
 import { FormControl, FormGroup, ReactiveFormsModule, Validators, FormsModule } from '@angular/forms';
 import { debounceTime, Observable, Subscription } from 'rxjs';
@@ -26,6 +27,11 @@ import { Router } from '@angular/router';
 import type { User } from '../../../model/model';
 import { LocaleService } from '../../../services/locale.service';
 import { UserService } from '../../../services/user.service';
+import { passwordStrengthValidator } from '../../../utils/password-validators';
+import { HasUnsavedChanges } from '../../../interfaces/has-unsaved-changes.interface';
+import { UnsavedChangesService } from '../../../services/unsaved-changes.service';
+import { FIELD_ERRORS_HANDLED_BY_FORM } from '../../../interceptors/field-errors-handled.token';
+import { applyValidationError } from '../../../utils/form-error-utils';
 
 @Component({
   selector: 'app-user-form',
@@ -33,7 +39,7 @@ import { UserService } from '../../../services/user.service';
   templateUrl: './user-form.component.html',
   imports: [CommonModule, ReactiveFormsModule, FormsModule],
 })
-export class UserFormComponent implements OnInit, OnChanges {
+export class UserFormComponent implements OnInit, OnChanges, HasUnsavedChanges {
   /**
    * Optional initial user value to patch into the form.
    */
@@ -54,6 +60,12 @@ export class UserFormComponent implements OnInit, OnChanges {
    */
   @Input() isEditMode: boolean = false;
 
+  /**
+   * When true, the form edits the signed-in user's own profile (implies {@link UserFormComponent#isEditMode}):
+   * the administrator switch and the password field are hidden (see {@link ChangePasswordFormComponent}), `admin` is never sent and no navigation occurs after save.
+   */
+  @Input() selfEditMode: boolean = false;
+
   /**
    * Label for the primary submit button.
    */
@@ -75,6 +87,7 @@ export class UserFormComponent implements OnInit, OnChanges {
   @Output() changed: EventEmitter<User | null> = new EventEmitter<User | null>();
 
   private readonly destroyRef: DestroyRef = inject(DestroyRef);
+  private readonly unsavedChangesService: UnsavedChangesService = inject(UnsavedChangesService);
   private readonly router: Router = inject(Router);
   private readonly localeService: LocaleService = inject(LocaleService);
   private readonly userService: UserService = inject(UserService);
@@ -101,16 +114,21 @@ export class UserFormComponent implements OnInit, OnChanges {
     emailCtrl: new FormControl<string | null>(null, { validators: [Validators.required, Validators.email] }),
     firstNameCtrl: new FormControl<string | null>(null, { validators: [Validators.required, Validators.minLength(2)] }),
     surnameCtrl: new FormControl<string | null>(null, { validators: [Validators.required, Validators.minLength(2)] }),
-    passwordCtrl: new FormControl<string | null>(null, { validators: [Validators.required, Validators.minLength(6)] }),
+    passwordCtrl: new FormControl<string | null>(null, { validators: [Validators.required, passwordStrengthValidator] }),
     adminCtrl: new FormControl<boolean | null>(false, { nonNullable: false }),
   });
 
   /** @internal */
   ngOnInit(): void {
+    this.unsavedChangesService.warnBeforeUnload(this, this.destroyRef);
+    // The own profile always exists already
+    if (this.selfEditMode) {
+      this.isEditMode = true;
+    }
     this.patchFromInitial(this.initialValue);
-    // In edit mode, password is optional
+    // In edit mode, password is optional (but a new one must still be strong enough)
     if (this.isEditMode) {
-      this.form.controls.passwordCtrl.clearValidators();
+      this.form.controls.passwordCtrl.setValidators([passwordStrengthValidator]);
       this.form.controls.passwordCtrl.updateValueAndValidity();
     }
     // Ensure form is ready before subscribing
@@ -174,23 +192,24 @@ export class UserFormComponent implements OnInit, OnChanges {
       if (rawPassword !== null && rawPassword !== '') {
         updateData.password = rawPassword;
       }
-      if (rawAdmin !== null) {
+      if (rawAdmin !== null && this.selfEditMode === false) {
         updateData.admin = rawAdmin;
       }
       console.log('Form update data:', updateData);
 
-      const sub: Subscription = this.userService.updateUser(rawId, updateData as any).subscribe({
+      const sub: Subscription = this.userService.updateUser(rawId, updateData as any, this.createRequestContext()).subscribe({
         next: (updated: User): void => {
           console.log('User updated successfully:', updated);
+          this.form.markAsPristine();
           this.submitUser.emit(updated);
-          // Only navigate if we're showing actions (standalone mode, not in a modal)
-          if (this.showActions) {
+          // Only navigate if we're showing actions (standalone mode, not in a modal, not the own profile)
+          if (this.showActions && this.selfEditMode === false) {
             void this.localeService.navigateWithLocale(['user-management']);
           }
         },
-        error: (_err: unknown): void => {
-          // Keep simple UX for now; could surface an alert/Toast
-          console.log('Update user failed');
+        error: (err: unknown): void => {
+          console.log('Update user failed', err);
+          applyValidationError(this.form, err);
         },
       });
       this.destroyRef.onDestroy((): void => sub.unsubscribe());
@@ -209,24 +228,33 @@ export class UserFormComponent implements OnInit, OnChanges {
       };
       console.log('Form submission data:', createData);
 
-      const sub: Subscription = this.userService.createUser(createData as any).subscribe({
+      const sub: Subscription = this.userService.createUser(createData as any, this.createRequestContext()).subscribe({
         next: (created: User): void => {
           console.log('User created successfully:', created);
+          this.form.markAsPristine();
           this.submitUser.emit(created);
           // Only navigate if we're showing actions (standalone mode, not in a modal)
           if (this.showActions) {
             void this.localeService.navigateWithLocale(['user-management']);
           }
         },
-        error: (_err: unknown): void => {
-          // Keep simple UX for now; could surface an alert/Toast
-          console.log('Create user failed');
+        error: (err: unknown): void => {
+          console.log('Create user failed', err);
+          applyValidationError(this.form, err);
         },
       });
       this.destroyRef.onDestroy((): void => sub.unsubscribe());
     }
   }
 
+  /**
+   * Whether the form holds edits that are not submitted yet.
+   */
+  hasUnsavedChanges(): boolean {
+    return this.form.dirty;
+  }
+
+
   /**
    * Resets the form to the last provided {@link User} initial value.
    */
@@ -250,8 +278,8 @@ export class UserFormComponent implements OnInit, OnChanges {
       control.updateValueAndValidity({ onlySelf: true, emitEvent: false });
     }
     this.cancel.emit();
-    // Only navigate if we're showing actions (standalone mode, not in a modal)
-    if (this.showActions) {
+    // Only navigate if we're showing actions (standalone mode, not in a modal, not the own profile)
+    if (this.showActions && this.selfEditMode === false) {
       void this.localeService.navigateWithLocale(['user-management']);
     }
   }
@@ -272,9 +300,9 @@ export class UserFormComponent implements OnInit, OnChanges {
       passwordCtrl: null, // Never patch password for security
       adminCtrl: typeof value.admin === 'boolean' ? value.admin : false,
     }, { emitEvent: false });
-    // In edit mode, password is optional
+    // In edit mode, password is optional (but a new one must still be strong enough)
     if (this.isEditMode) {
-      this.form.controls.passwordCtrl.clearValidators();
+      this.form.controls.passwordCtrl.setValidators([passwordStrengthValidator]);
       this.form.controls.passwordCtrl.updateValueAndValidity();
     }
   }
@@ -310,5 +338,11 @@ export class UserFormComponent implements OnInit, OnChanges {
     const u: User = this.toUser();
     return u;
   }
-}
 
+  /**
+   * Request context letting the form display the field errors of the backend instead of the global toast.
+   */
+  private createRequestContext(): HttpContext {
+    return new HttpContext().set(FIELD_ERRORS_HANDLED_BY_FORM, true);
+  }
+}
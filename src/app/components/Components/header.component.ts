@@ -6,13 +6,14 @@
 */
 
 import { CommonModule } from '@angular/common';
-import { Component, inject, OnInit, OnDestroy, signal, computed } from '@angular/core';
+import { Component, inject, OnInit, OnDestroy, Signal, signal, computed } from '@angular/core';
 import { NgbDropdownModule } from '@ng-bootstrap/ng-bootstrap';
-import { Router, NavigationEnd } from '@angular/router';
-import { filter, Subscription } from 'rxjs';
+import { Router } from '@angular/router';
+import { Subscription } from 'rxjs';
 import { LocaleService } from '../../services/locale.service';
 import { AuthService } from '../../services/auth.service';
 import { ThemeService } from '../../services/theme.service';
+import { RETURN_URL_QUERY_PARAM, isSafeReturnUrl } from '../../utils/return-url-utils';
 
 /**
  * Header component that provides navigation and authentication controls.
@@ -22,7 +23,8 @@ import { ThemeService } from '../../services/theme.service';
  * - Shows authentication buttons (Sign up/Connect) based on user authentication state.
  * - Provides navigation to home, signup, and login pages.
  * - Handles user logout functionality.
- * - Tracks authentication state and updates UI accordingly.
+ * - Tracks authentication state (shared across tabs by {@link AuthService}) and updates UI accordingly.
+ * - Navigates to login when the user signs out in another tab.
  */
 @Component({
   selector: 'app-header',
@@ -36,12 +38,17 @@ export class HeaderComponent implements OnInit, OnDestroy {
   private readonly authService: AuthService = inject(AuthService);
   private readonly navigationRouter: Router = inject(Router);
   private readonly themeService: ThemeService = inject(ThemeService);
-  private routerSubscription: Subscription | null = null;
+  private signedOutElsewhereSubscription: Subscription | null = null;
 
   /**
    * Signal indicating whether the current user is authenticated.
    */
-  public readonly isAuthenticated = signal<boolean>(false);
+  public readonly isAuthenticated: Signal<boolean> = this.authService.isAuthenticated;
+
+  /**
+   * Signal holding the name of the current user.
+   */
+  public readonly displayName: Signal<string> = this.authService.displayName;
 
   /**
    * Signal indicating the current theme.
@@ -65,41 +72,29 @@ export class HeaderComponent implements OnInit, OnDestroy {
   constructor() {}
 
   /**
-   * Initializes the component and sets up authentication state tracking.
+   * Initializes the component and sets up the reaction to sign-outs from other tabs.
    */
   public ngOnInit(): void {
-    // Check authentication state on component initialization
-    this.checkAuthentication();
     // Initialize current theme
     this.currentTheme.set(this.themeService.getCurrentTheme());
-    // Subscribe to router navigation events to update authentication state on navigation
-    // Get the router events observable
-    this.routerSubscription = this.navigationRouter.events
-      // Filter to only NavigationEnd events (when navigation completes)
-      .pipe(filter((event): event is NavigationEnd => event instanceof NavigationEnd))
-      // Subscribe to filtered events and check authentication state on each navigation
-      .subscribe(() => {
-        // Update authentication state when navigation occurs
-        this.checkAuthentication();
+    // The session is gone for this tab too: leave the current page for the login page, keeping it as return URL
+    this.signedOutElsewhereSubscription = this.authService.signedOutElsewhere.subscribe(() => {
+      const currentUrl: string = this.navigationRouter.url;
+      void this.localeService.navigateWithLocale(['login'], {
+        queryParams: isSafeReturnUrl(currentUrl) ? { [RETURN_URL_QUERY_PARAM]: currentUrl } : undefined
       });
+    });
   }
 
   /**
    * Cleans up subscriptions when the component is destroyed.
    */
   public ngOnDestroy(): void {
-    if (this.routerSubscription !== null) {
-      this.routerSubscription.unsubscribe();
+    if (this.signedOutElsewhereSubscription !== null) {
+      this.signedOutElsewhereSubscription.unsubscribe();
     }
   }
 
-  /**
-   * Checks and updates the authentication state.
-   */
-  private checkAuthentication(): void {
-    this.isAuthenticated.set(this.authService.isAuthenticated());
-  }
-
   /**
    * Handles click event on hyperlink elements.
    * @param $event The mouse event.
@@ -140,17 +135,22 @@ export class HeaderComponent implements OnInit, OnDestroy {
     void this.localeService.navigateWithLocale(['login']);
   }
 
+  /**
+   * Navigates to the profile page of the current user.
+   */
+  public navigateToProfile(): void {
+    void this.localeService.navigateWithLocale(['profile']);
+  }
+
   /**
    * Logs out the current user and navigates to the welcome page.
    */
   public logout(): void {
     this.authService.signOut().subscribe({
       next: () => {
-        this.isAuthenticated.set(false);
         void this.localeService.navigateWithLocale([]);
       },
       error: () => {
-        this.isAuthenticated.set(false);
         void this.localeService.navigateWithLocale([]);
       }
     });
@@ -1,6 +1,6 @@
 import { CommonModule } from '@angular/common';
 import { Component, inject } from '@angular/core';
-import { Router } from '@angular/router';
+import { PRIMARY_OUTLET, Router, UrlSegment, UrlTree } from '@angular/router';
 import { LocaleService } from '../../services/locale.service';
 import { SupportedLocaleCode, LocaleConfig } from '../../interfaces/locale-config.interface';
 
@@ -64,13 +64,18 @@ export class LocaleSwitcherComponent {
       return;
     }
 
-    // Get current route without locale
-    const currentUrl: string = this.router.url;
-    const urlSegments: string[] = currentUrl.split('/').filter(segment => segment.length > 0);
+    // Get current route without locale (the query string, e.g. the list filters, is kept as is)
+    const currentUrl: UrlTree = this.router.parseUrl(this.router.url);
+    const urlSegments: string[] = (currentUrl.root.children[PRIMARY_OUTLET]?.segments ?? [])
+      .map((segment: UrlSegment) => segment.path);
     const pathWithoutLocale: string[] = this.localeService.getPathWithoutLocale(urlSegments);
     
     // Navigate to the same route with new locale
-    void this.localeService.navigateWithLocale(pathWithoutLocale);
+    this.localeService.setLocale(locale);
+    void this.localeService.navigateWithLocale(pathWithoutLocale, {
+      queryParams: currentUrl.queryParams,
+      fragment: currentUrl.fragment ?? undefined
+    });
   }
 
   /**
@@ -6,7 +6,7 @@
 */
 
 import { CommonModule } from '@angular/common';
-import { Component, inject } from '@angular/core';
+import { Component, inject, Signal } from '@angular/core';
 import { RouterLink, RouterLinkActive } from '@angular/router';
 import { LocaleService } from '../../services/locale.service';
 import { AuthService } from '../../services/auth.service';
@@ -22,30 +22,22 @@ export class SideBarComponent {
   private readonly localeService: LocaleService = inject(LocaleService);
   private readonly authService: AuthService = inject(AuthService);
 
-  constructor() {}
-
   /**
-   * Expose current locale signal for template usage.
+   * Signal indicating whether the current user is authenticated.
    */
-  public currentLocale(): string {
-    return this.localeService.currentLocale();
-  }
+  public readonly isAuthenticated: Signal<boolean> = this.authService.isAuthenticated;
 
   /**
-   * Check if the current user is authenticated.
-   * 
-   * @returns True if the current user is authenticated, false otherwise.
+   * Signal indicating whether the current user is an administrator.
    */
-  public isAuthenticated(): boolean {
-    return this.authService.isAuthenticated();
-  }
+  public readonly isAdmin: Signal<boolean> = this.authService.isAdmin;
+
+  constructor() {}
 
   /**
-   * Check if the current user is an administrator.
-   * 
-   * @returns True if the current user is an administrator, false otherwise.
+   * Expose current locale signal for template usage.
    */
-  public isAdmin(): boolean {
-    return this.authService.isAdmin();
+  public currentLocale(): string {
+    return this.localeService.currentLocale();
   }
 }
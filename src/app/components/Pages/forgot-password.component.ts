@@ -0,0 +1,108 @@
+import { CommonModule } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { FormControl, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { LocaleService } from '../../services/locale.service';
+import { AuthService } from '../../services/auth.service';
+import { AppError } from '../../errors/app-error';
+import { ValidationError } from '../../errors/validation-error';
+import { FieldError } from '../../errors/field-error';
+import { applyFieldErrors } from '../../utils/form-error-utils';
+
+/**
+ * Component asking for a password reset link.
+ * 
+ * @remarks
+ * - Provides a form with the email of the account to recover.
+ * - Sends the request via {@link AuthService#requestPasswordReset}.
+ * - Always displays the same confirmation, so the page does not reveal which emails have an account.
+ * - Displays backend {@link ValidationError} field errors on the form.
+ */
+@Component({
+  selector: 'app-forgot-password',
+  standalone: true,
+  templateUrl: './forgot-password.component.html',
+  styleUrls: ['./forgot-password.component.scss'],
+  imports: [CommonModule, ReactiveFormsModule]
+})
+export class ForgotPasswordComponent {
+  private readonly localeService: LocaleService = inject(LocaleService);
+  private readonly authService: AuthService = inject(AuthService);
+
+  /**
+   * Reactive form group containing the email control.
+   */
+  public form: FormGroup<{
+    emailCtrl: FormControl<string | null>;
+  }> = new FormGroup<{
+    emailCtrl: FormControl<string | null>;
+  }>({
+    emailCtrl: new FormControl<string | null>('', [Validators.required, Validators.email])
+  });
+
+  /**
+   * Indicates whether the form submission is in progress.
+   */
+  public isSubmitting: boolean = false;
+
+  /**
+   * Indicates whether the request has been accepted.
+   */
+  public isSent: boolean = false;
+
+  /**
+   * Error message to display if the request fails.
+   */
+  public errorMessage: string | null = null;
+
+  constructor() {}
+
+  /**
+   * Handles form submission and requests the reset link.
+   */
+  public onSubmit(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const emailValue: string | null = this.form.controls.emailCtrl.value;
+    if (emailValue === null) {
+      this.errorMessage = $localize`Email is required`;
+      return;
+    }
+
+    this.isSubmitting = true;
+    this.errorMessage = null;
+
+    this.authService.requestPasswordReset(emailValue).subscribe({
+      next: () => {
+        this.isSubmitting = false;
+        this.isSent = true;
+      },
+      error: (error: unknown) => {
+        this.isSubmitting = false;
+        this.handleError(error);
+      }
+    });
+  }
+
+  /**
+   * Navigates to the login page.
+   */
+  public navigateToLogin(): void {
+    void this.localeService.navigateWithLocale(['login']);
+  }
+
+  /**
+   * Displays a failed request: field errors on the form, anything else as a global message.
+   * @param error The error raised by the request.
+   */
+  private handleError(error: unknown): void {
+    if (error instanceof ValidationError) {
+      const unmatched: ReadonlyArray<FieldError> = applyFieldErrors(this.form, error.fieldErrors);
+      this.errorMessage = unmatched.length > 0 || error.fieldErrors.length === 0 ? error.userMessage : null;
+      return;
+    }
+    this.errorMessage = error instanceof AppError ? error.userMessage : $localize`Failed to request a password reset`;
+  }
+}
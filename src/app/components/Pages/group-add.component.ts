@@ -8,6 +8,7 @@ import { Component, inject, Input, ViewChild } from '@angular/core';
 import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
 import { GroupFormComponent } from '../Components/Group/group-form.component';
 import { Group } from '../../model';
+import { HasUnsavedChanges } from '../../interfaces/has-unsaved-changes.interface';
 
 @Component({
   selector: 'app-group-add',
@@ -15,7 +16,7 @@ import { Group } from '../../model';
   templateUrl: './group-add.component.html',
   imports: [GroupFormComponent, CommonModule]
 })
-export class GroupAddComponent {
+export class GroupAddComponent implements HasUnsavedChanges {
   private activeModal = inject(NgbActiveModal);
 
   @Input() initialValue: Group | null = null;
@@ -27,6 +28,14 @@ export class GroupAddComponent {
    */
   @ViewChild(GroupFormComponent) groupFormComponent!: GroupFormComponent;
 
+  /**
+   * Whether the form holds unsaved edits, checked before the modal is dismissed.
+   * @returns True if the group form is dirty
+   */
+  public hasUnsavedChanges(): boolean {
+    return this.groupFormComponent?.hasUnsavedChanges() ?? false;
+  }
+
   public onGroupSubmit(group: Group): void {
     this.activeModal.close(group);
   }
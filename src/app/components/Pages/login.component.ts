@@ -1,9 +1,11 @@
 import { CommonModule } from '@angular/common';
 import { Component, inject } from '@angular/core';
 import { FormControl, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
 import { catchError, throwError } from 'rxjs';
 import { LocaleService } from '../../services/locale.service';
 import { AuthService } from '../../services/auth.service';
+import { RETURN_URL_QUERY_PARAM, sanitizeReturnUrl } from '../../utils/return-url-utils';
 
 /**
  * Component for user authentication/login functionality.
@@ -11,7 +13,8 @@ import { AuthService } from '../../services/auth.service';
  * @remarks
  * - Provides a login form with email and password fields.
  * - Handles user authentication via {@link AuthService}.
- * - Navigates to dashboard upon successful login.
+ * - Navigates back to the `returnUrl` query parameter upon successful login (if it is a safe internal path),
+ *   otherwise to the dashboard.
  * - Displays error messages for failed authentication attempts.
  */
 @Component({
@@ -24,6 +27,13 @@ import { AuthService } from '../../services/auth.service';
 export class LoginComponent {
   private readonly localeService: LocaleService = inject(LocaleService);
   private readonly authService: AuthService = inject(AuthService);
+  private readonly router: Router = inject(Router);
+  private readonly route: ActivatedRoute = inject(ActivatedRoute);
+
+  /**
+   * Validated URL to go back to after login, or null when absent or unsafe.
+   */
+  private readonly returnUrl: string | null = sanitizeReturnUrl(this.route.snapshot.queryParamMap.get(RETURN_URL_QUERY_PARAM));
 
   /**
    * Reactive form group containing email and password controls.
@@ -53,7 +63,7 @@ export class LoginComponent {
 
   /**
    * Handles form submission and authenticates the user.
-   * On success, navigates to the dashboard.
+   * On success, navigates back to the return URL or to the dashboard.
    */
   public onSubmit(): void {
     if (this.form.invalid) {
@@ -84,7 +94,27 @@ export class LoginComponent {
       })
     ).subscribe(() => {
       this.isSubmitting = false;
-      void this.localeService.navigateWithLocale(['dashboard']);
+      if (this.returnUrl !== null) {
+        void this.router.navigateByUrl(this.returnUrl);
+      } else {
+        void this.localeService.navigateWithLocale(['dashboard']);
+      }
+    });
+  }
+
+  /**
+   * Navigates to the forgot-password page.
+   */
+  public navigateToForgotPassword(): void {
+    void this.localeService.navigateWithLocale(['forgot-password']);
+  }
+
+  /**
+   * Navigates to the signup page, keeping the return URL.
+   */
+  public navigateToSignup(): void {
+    void this.localeService.navigateWithLocale(['signup'], {
+      queryParams: this.returnUrl !== null ? { [RETURN_URL_QUERY_PARAM]: this.returnUrl } : undefined
     });
   }
 }
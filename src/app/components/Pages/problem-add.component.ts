@@ -6,10 +6,11 @@
 */
 
 import { CommonModule } from '@angular/common';
-import { Component, inject, Input, Optional } from '@angular/core';
+import { Component, inject, Input, Optional, ViewChild } from '@angular/core';
 import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
 import { ProblemFormComponent } from '../Components/Problem/problem-form.component';
 import { Problem } from '../../model';
+import { HasUnsavedChanges } from '../../interfaces/has-unsaved-changes.interface';
 
 @Component({
   selector: 'app-problem-add',
@@ -17,12 +18,22 @@ import { Problem } from '../../model';
   templateUrl: './problem-add.component.html',
   imports: [ProblemFormComponent, CommonModule]
 })
-export class ProblemAddComponent {
+export class ProblemAddComponent implements HasUnsavedChanges {
   private activeModal: NgbActiveModal | null = inject(NgbActiveModal, { optional: true });
 
   @Input() initialValue: Problem | null = null;
   @Input() isEditMode: boolean = false;
 
+  @ViewChild(ProblemFormComponent) problemFormComponent?: ProblemFormComponent;
+
+  public hasUnsavedChanges(): boolean {
+    return this.problemFormComponent?.hasUnsavedChanges() ?? false;
+  }
+
+  public discardUnsavedChanges(): void {
+    this.problemFormComponent?.discardUnsavedChanges();
+  }
+
   public onProblemSubmit(problem: Problem): void {
     if (this.activeModal) {
       this.activeModal.close(problem);
@@ -0,0 +1,208 @@
+/**
+ * Problem detail page component (`problem/:id`).
+ * Shows a single problem, shareable by link, with an edit action reusing the problem form dialog.
+ */
+
+import { CommonModule } from '@angular/common';
+import { Component, DestroyRef, OnInit, WritableSignal, inject, signal } from '@angular/core';
+import { HttpContext } from '@angular/common/http';
+import { ActivatedRoute, ParamMap } from '@angular/router';
+import { NgbModal } from '@ng-bootstrap/ng-bootstrap';
+import { Observable, Subscription, catchError, map, of, switchMap } from 'rxjs';
+import { Problem, User } from '../../model';
+import { ProblemService } from '../../services/problem.service';
+import { LocaleService } from '../../services/locale.service';
+import { PermissionService } from '../../services/permission.service';
+import { UnsavedChangesService } from '../../services/unsaved-changes.service';
+import { NotFoundError } from '../../errors/not-found-error';
+import { ForbiddenError } from '../../errors/forbidden-error';
+import { SKIP_ERROR_NOTIFICATION } from '../../interceptors/skip-error-notification.token';
+import { ProblemAddComponent } from './problem-add.component';
+import { ProblemCommentsComponent } from '../Components/Problem/problem-comments.component';
+import { getProblemStatusBadgeClass, getProblemStatusLabel } from '../../utils/problem-status-labels';
+import { getProblemVisibilityLabel } from '../../utils/problem-visibility-labels';
+
+/**
+ * Display state of the page.
+ */
+type ProblemDetailState = 'loading' | 'loaded' | 'not-found' | 'forbidden' | 'error';
+
+/**
+ * Outcome of loading the problem of the route.
+ */
+type ProblemLoadResult = { problem: Problem } | { error: unknown };
+
+@Component({
+  selector: 'app-problem-detail',
+  standalone: true,
+  templateUrl: './problem-detail.component.html',
+  imports: [CommonModule, ProblemCommentsComponent]
+})
+export class ProblemDetailComponent implements OnInit {
+  private readonly route: ActivatedRoute = inject(ActivatedRoute);
+  private readonly problemService: ProblemService = inject(ProblemService);
+  private readonly localeService: LocaleService = inject(LocaleService);
+  private readonly modalService: NgbModal = inject(NgbModal);
+  private readonly unsavedChangesService: UnsavedChangesService = inject(UnsavedChangesService);
+  private readonly permissionService: PermissionService = inject(PermissionService);
+  private readonly destroyRef: DestroyRef = inject(DestroyRef);
+
+  /**
+   * Current display state.
+   */
+  public readonly state: WritableSignal<ProblemDetailState> = signal<ProblemDetailState>('loading');
+
+  /**
+   * The displayed problem, null until loaded.
+   */
+  public readonly problem: WritableSignal<Problem | null> = signal<Problem | null>(null);
+
+  constructor() {}
+
+  /**
+   * Loads the problem of the route, and again whenever the `id` parameter changes.
+   */
+  public ngOnInit(): void {
+    const sub: Subscription = this.route.paramMap.pipe(
+      switchMap((params: ParamMap): Observable<ProblemLoadResult> => {
+        this.state.set('loading');
+        const id: number = Number(params.get('id'));
+        return this.loadProblem(id);
+      })
+    ).subscribe((result: ProblemLoadResult) => this.applyLoadResult(result));
+    this.destroyRef.onDestroy((): void => sub.unsubscribe());
+  }
+
+  /**
+   * Opens the edit problem modal dialog and shows the updated problem on success.
+   */
+  public openEditProblemModal(): void {
+    const problem: Problem | null = this.problem();
+    if (problem === null || problem.id === undefined) {
+      return;
+    }
+    // Blur any focused element to prevent aria-hidden accessibility warning
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+
+    const modalRef = this.modalService.open(ProblemAddComponent, {
+      size: 'lg',
+      backdrop: 'static',
+      keyboard: false,
+      // Ask before discarding the edits (Cancel and close buttons)
+      beforeDismiss: () => this.unsavedChangesService.confirmDiscard(modalRef.componentInstance)
+    });
+
+    modalRef.componentInstance.initialValue = problem;
+    modalRef.componentInstance.isEditMode = true;
+
+    modalRef.result.then(
+      () => {
+        // Reload to get the authorizations and creator as stored by the backend
+        const sub: Subscription = this.loadProblem(problem.id!).subscribe((result: ProblemLoadResult) => this.applyLoadResult(result));
+        this.destroyRef.onDestroy((): void => sub.unsubscribe());
+      },
+      (reason) => {
+        console.log('Modal dismissed', reason);
+      }
+    );
+  }
+
+  /**
+   * Whether the current user can edit the problem (contributor or administrator).
+   * @param problem The displayed problem
+   */
+  public canEdit(problem: Problem): boolean {
+    return this.permissionService.canEdit(problem);
+  }
+
+  /**
+   * Navigates back to the problems list.
+   */
+  public navigateToProblems(): void {
+    void this.localeService.navigateWithLocale(['orders']);
+  }
+
+  /**
+   * Returns the localized status text.
+   * @param status The status value from the backend
+   * @returns The localized status text
+   */
+  public getLocalizedStatus(status: string | undefined): string {
+    return getProblemStatusLabel(status);
+  }
+
+  /**
+   * Returns the badge color class of a status.
+   * @param status The status value from the backend
+   * @returns The Bootstrap background class
+   */
+  public getStatusBadgeClass(status: string | undefined): string {
+    return getProblemStatusBadgeClass(status);
+  }
+
+  /**
+   * Returns the localized visibility label.
+   * @param open The `open` value of the problem ('Public' | 'Private')
+   * @returns The localized visibility label
+   */
+  public getVisibilityLabel(open: string | undefined): string {
+    return getProblemVisibilityLabel(open);
+  }
+
+  /**
+   * Returns the full name of the creator.
+   * @param creator The User object representing the problem creator
+   * @returns A string with the full name or '-' if no creator is provided
+   */
+  public getCreatorFullName(creator: User | undefined): string {
+    if (!creator) {
+      return '-';
+    }
+    return `${creator.firstName || ''} ${creator.surname || ''}`.trim() || '-';
+  }
+
+  /**
+   * Fetches a problem, turning failures into a value so the route subscription survives them.
+   * @param id The problem ID from the route
+   * @returns Observable emitting the problem or the error
+   */
+  private loadProblem(id: number): Observable<ProblemLoadResult> {
+    if (Number.isInteger(id) === false || id <= 0) {
+      return of({ error: new NotFoundError({
+        userMessage: $localize`The requested problem does not exist.`,
+        statusText: 'Not Found',
+        url: `/problem/${id}`,
+        method: 'GET',
+        backendBody: null
+      }) });
+    }
+    // The page renders its own not-found, forbidden and error states, so skip the toast.
+    const context: HttpContext = new HttpContext().set(SKIP_ERROR_NOTIFICATION, true);
+    return this.problemService.fetchProblem(id, context).pipe(
+      map((problem: Problem): ProblemLoadResult => ({ problem: problem })),
+      catchError((error: unknown): Observable<ProblemLoadResult> => of({ error: error }))
+    );
+  }
+
+  /**
+   * Updates the page state from a load result.
+   * @param result The problem or the error raised while loading it
+   */
+  private applyLoadResult(result: ProblemLoadResult): void {
+    if ('problem' in result) {
+      this.problem.set(result.problem);
+      this.state.set('loaded');
+      return;
+    }
+    this.problem.set(null);
+    if (result.error instanceof NotFoundError) {
+      this.state.set('not-found');
+    } else if (result.error instanceof ForbiddenError) {
+      this.state.set('forbidden');
+    } else {
+      this.state.set('error');
+    }
+  }
+}
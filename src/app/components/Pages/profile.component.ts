@@ -0,0 +1,68 @@
+/**
+ * "My profile" page component.
+ * Lets the signed-in user edit their own name and email and change their password.
+ */
+
+import { CommonModule } from '@angular/common';
+import { Component, Signal, ViewChild, computed, inject } from '@angular/core';
+import { UserDto } from '@shared/dto/user/user.dto';
+import type { User } from '../../model/model';
+import { AuthService } from '../../services/auth.service';
+import { NotificationService } from '../../services/notification.service';
+import { UserFormComponent } from '../Components/User/user-form.component';
+import { ChangePasswordFormComponent } from '../Components/User/change-password-form.component';
+import { HasUnsavedChanges } from '../../interfaces/has-unsaved-changes.interface';
+
+@Component({
+  selector: 'app-profile',
+  standalone: true,
+  templateUrl: './profile.component.html',
+  imports: [UserFormComponent, ChangePasswordFormComponent, CommonModule]
+})
+export class ProfileComponent implements HasUnsavedChanges {
+  private readonly authService: AuthService = inject(AuthService);
+  private readonly notificationService: NotificationService = inject(NotificationService);
+
+  /**
+   * The signed-in user, as expected by {@link UserFormComponent}.
+   */
+  public readonly profile: Signal<User | null> = computed<User | null>(() => {
+    const currentUser: UserDto | null = this.authService.currentUser();
+    if (currentUser === null) {
+      return null;
+    }
+    return {
+      id: currentUser.id,
+      email: currentUser.email,
+      firstName: currentUser.firstName,
+      surname: currentUser.surname,
+      admin: currentUser.admin
+    };
+  });
+
+  /**
+   * Label for the profile form submit button.
+   */
+  public readonly saveLabel: string = $localize`Save profile`;
+
+  @ViewChild(UserFormComponent) userFormComponent?: UserFormComponent;
+  @ViewChild(ChangePasswordFormComponent) changePasswordFormComponent?: ChangePasswordFormComponent;
+
+  constructor() {}
+
+  /**
+   * Whether the profile form or the change-password form holds unsaved edits, checked before leaving the page.
+   */
+  public hasUnsavedChanges(): boolean {
+    return (this.userFormComponent?.hasUnsavedChanges() ?? false)
+      || (this.changePasswordFormComponent?.hasUnsavedChanges() ?? false);
+  }
+
+  /**
+   * Refreshes the current user once the profile is saved, so the header and the other tabs show the new name.
+   */
+  public onProfileSaved(): void {
+    this.notificationService.showSuccess($localize`Your profile has been updated.`);
+    this.authService.refreshCurrentUser().subscribe();
+  }
+}
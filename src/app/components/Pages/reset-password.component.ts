@@ -0,0 +1,121 @@
+import { CommonModule } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { FormControl, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute } from '@angular/router';
+import { LocaleService } from '../../services/locale.service';
+import { AuthService } from '../../services/auth.service';
+import { NotificationService } from '../../services/notification.service';
+import { AppError } from '../../errors/app-error';
+import { ValidationError } from '../../errors/validation-error';
+import { FieldError } from '../../errors/field-error';
+import { applyFieldErrors } from '../../utils/form-error-utils';
+import { passwordMatchValidator, passwordStrengthValidator } from '../../utils/password-validators';
+
+/**
+ * Component setting a new password from the link sent by email (`reset-password/:token`).
+ * 
+ * @remarks
+ * - Provides a form with the new password and its confirmation, checked with the shared password policy.
+ * - Sends the token and the new password via {@link AuthService#resetPassword}.
+ * - Navigates to the login page upon success.
+ * - Displays backend {@link ValidationError} field errors on the form (an invalid token is shown globally).
+ */
+@Component({
+  selector: 'app-reset-password',
+  standalone: true,
+  templateUrl: './reset-password.component.html',
+  styleUrls: ['./reset-password.component.scss'],
+  imports: [CommonModule, ReactiveFormsModule]
+})
+export class ResetPasswordComponent {
+  private readonly localeService: LocaleService = inject(LocaleService);
+  private readonly authService: AuthService = inject(AuthService);
+  private readonly notificationService: NotificationService = inject(NotificationService);
+  private readonly route: ActivatedRoute = inject(ActivatedRoute);
+
+  /**
+   * Reset token read from the route.
+   */
+  private readonly token: string | null = this.route.snapshot.paramMap.get('token');
+
+  /**
+   * Reactive form group containing the new password and its confirmation.
+   */
+  public form: FormGroup<{
+    passwordCtrl: FormControl<string | null>;
+    passwordConfirmationCtrl: FormControl<string | null>;
+  }> = new FormGroup<{
+    passwordCtrl: FormControl<string | null>;
+    passwordConfirmationCtrl: FormControl<string | null>;
+  }>({
+    passwordCtrl: new FormControl<string | null>('', [Validators.required, passwordStrengthValidator]),
+    passwordConfirmationCtrl: new FormControl<string | null>('', [Validators.required])
+  }, { validators: [passwordMatchValidator('passwordCtrl', 'passwordConfirmationCtrl')] });
+
+  /**
+   * Indicates whether the form submission is in progress.
+   */
+  public isSubmitting: boolean = false;
+
+  /**
+   * Error message to display if the reset fails.
+   */
+  public errorMessage: string | null = this.token === null || this.token === ''
+    ? $localize`This password reset link is invalid.`
+    : null;
+
+  constructor() {}
+
+  /**
+   * Handles form submission and sets the new password.
+   * On success, navigates to the login page.
+   */
+  public onSubmit(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const passwordValue: string | null = this.form.controls.passwordCtrl.value;
+    if (this.token === null || this.token === '' || passwordValue === null) {
+      return;
+    }
+
+    this.isSubmitting = true;
+    this.errorMessage = null;
+
+    this.authService.resetPassword(this.token, passwordValue).subscribe({
+      next: () => {
+        this.isSubmitting = false;
+        this.notificationService.showSuccess($localize`Your password has been changed. You can now connect.`);
+        void this.localeService.navigateWithLocale(['login']);
+      },
+      error: (error: unknown) => {
+        this.isSubmitting = false;
+        this.handleError(error);
+      }
+    });
+  }
+
+  /**
+   * Navigates to the forgot-password page to request a new link.
+   */
+  public navigateToForgotPassword(): void {
+    void this.localeService.navigateWithLocale(['forgot-password']);
+  }
+
+  /**
+   * Displays a failed reset: field errors on the form, anything else (e.g. expired token) as a global message.
+   * @param error The error raised by the request.
+   */
+  private handleError(error: unknown): void {
+    if (error instanceof ValidationError) {
+      const unmatched: ReadonlyArray<FieldError> = applyFieldErrors(this.form, error.fieldErrors);
+      this.errorMessage = unmatched.length > 0
+        ? unmatched.map((fieldError: FieldError) => fieldError.message).join(' ')
+        : error.fieldErrors.length === 0 ? error.userMessage : null;
+      return;
+    }
+    this.errorMessage = error instanceof AppError ? error.userMessage : $localize`Failed to reset the password`;
+  }
+}
@@ -1,10 +1,17 @@
 import { CommonModule } from '@angular/common';
+import { HttpContext } from '@angular/common/http';
 import { Component, inject } from '@angular/core';
 import { FormControl, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute } from '@angular/router';
 import { catchError, throwError } from 'rxjs';
 import { CreateUserDto } from '@shared/dto/user/create-user.dto';
 import { LocaleService } from '../../services/locale.service';
 import { UserService } from '../../services/user.service';
+import { RETURN_URL_QUERY_PARAM, sanitizeReturnUrl } from '../../utils/return-url-utils';
+import { passwordStrengthValidator } from '../../utils/password-validators';
+import { AppError } from '../../errors/app-error';
+import { FIELD_ERRORS_HANDLED_BY_FORM } from '../../interceptors/field-errors-handled.token';
+import { applyValidationError } from '../../utils/form-error-utils';
 
 /**
  * Component for user account creation/signup functionality.
@@ -13,8 +20,9 @@ import { UserService } from '../../services/user.service';
  * - Provides a signup form with email, first name, surname, and password fields.
  * - Handles user account creation via {@link UserService}.
  * - All new users are created as regular users (admin: false).
- * - Navigates to welcome page upon successful account creation.
- * - Displays error messages for failed account creation attempts.
+ * - Navigates to welcome page upon successful account creation, or to the login page when a `returnUrl`
+ *   query parameter is carried (so the user ends up back where they started after signing in).
+ * - Displays error messages for failed account creation attempts; backend field errors are displayed on their fields.
  */
 @Component({
   selector: 'app-signup',
@@ -26,6 +34,12 @@ import { UserService } from '../../services/user.service';
 export class SignupComponent {
   private readonly localeService: LocaleService = inject(LocaleService);
   private readonly userService: UserService = inject(UserService);
+  private readonly route: ActivatedRoute = inject(ActivatedRoute);
+
+  /**
+   * Validated URL to go back to after login, or null when absent or unsafe.
+   */
+  private readonly returnUrl: string | null = sanitizeReturnUrl(this.route.snapshot.queryParamMap.get(RETURN_URL_QUERY_PARAM));
 
   /**
    * Reactive form group containing email, first name, surname, and password controls.
@@ -44,7 +58,7 @@ export class SignupComponent {
     emailCtrl: new FormControl<string | null>('', [Validators.required, Validators.email]),
     firstNameCtrl: new FormControl<string | null>('', [Validators.required, Validators.minLength(2)]),
     surnameCtrl: new FormControl<string | null>('', [Validators.required, Validators.minLength(2)]),
-    passwordCtrl: new FormControl<string | null>('', [Validators.required, Validators.minLength(6)])
+    passwordCtrl: new FormControl<string | null>('', [Validators.required, passwordStrengthValidator])
   });
 
   /**
@@ -61,7 +75,7 @@ export class SignupComponent {
 
   /**
    * Handles form submission and creates a new user account.
-   * On success, navigates to the welcome page.
+   * On success, navigates to the login page (keeping the return URL) or to the welcome page.
    */
   public onSubmit(): void {
     if (this.form.invalid) {
@@ -91,15 +105,41 @@ export class SignupComponent {
       admin: false
     };
 
-    this.userService.createUser(createUserDto).pipe(
+    const context: HttpContext = new HttpContext().set(FIELD_ERRORS_HANDLED_BY_FORM, true);
+    this.userService.createUser(createUserDto, context).pipe(
       catchError((error: unknown) => {
         this.isSubmitting = false;
-        this.errorMessage = error instanceof Error ? error.message : $localize`Failed to create account`;
+        this.handleError(error);
         return throwError(() => error);
       })
     ).subscribe(() => {
       this.isSubmitting = false;
-      void this.localeService.navigateWithLocale([]);
+      if (this.returnUrl !== null) {
+        this.navigateToLogin();
+      } else {
+        void this.localeService.navigateWithLocale([]);
+      }
+    });
+  }
+
+  /**
+   * Navigates to the login page, keeping the return URL.
+   */
+  public navigateToLogin(): void {
+    void this.localeService.navigateWithLocale(['login'], {
+      queryParams: this.returnUrl !== null ? { [RETURN_URL_QUERY_PARAM]: this.returnUrl } : undefined
     });
   }
+
+  /**
+   * Displays a failed request: field errors on the form, anything else as a global message.
+   * @param error The error raised by the request.
+   */
+  private handleError(error: unknown): void {
+    if (applyValidationError(this.form, error)) {
+      this.errorMessage = null;
+      return;
+    }
+    this.errorMessage = error instanceof AppError ? error.userMessage : $localize`Failed to create account`;
+  }
 }
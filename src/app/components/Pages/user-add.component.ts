@@ -4,10 +4,11 @@
  */
 
 import { CommonModule } from '@angular/common';
-import { Component, inject, Input } from '@angular/core';
+import { Component, inject, Input, ViewChild } from '@angular/core';
 import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
 import { UserFormComponent } from '../Components/User/user-form.component';
 import { User } from '../../model';
+import { HasUnsavedChanges } from '../../interfaces/has-unsaved-changes.interface';
 
 @Component({
   selector: 'app-user-add',
@@ -15,12 +16,18 @@ import { User } from '../../model';
   templateUrl: './user-add.component.html',
   imports: [UserFormComponent, CommonModule]
 })
-export class UserAddComponent {
+export class UserAddComponent implements HasUnsavedChanges {
   private activeModal = inject(NgbActiveModal);
 
   @Input() initialValue: User | null = null;
   @Input() isEditMode: boolean = false;
 
+  @ViewChild(UserFormComponent) userFormComponent?: UserFormComponent;
+
+  public hasUnsavedChanges(): boolean {
+    return this.userFormComponent?.hasUnsavedChanges() ?? false;
+  }
+
   public onUserSubmit(user: User): void {
     this.activeModal.close(user);
   }
@@ -0,0 +1,108 @@
+import { inject } from '@angular/core';
+import {
+  ActivatedRouteSnapshot,
+  CanActivateFn,
+  CanMatchFn,
+  Data,
+  Route,
+  Router,
+  RouterStateSnapshot,
+  UrlSegment,
+  UrlTree
+} from '@angular/router';
+import { Observable, map } from 'rxjs';
+import { AuthService } from '../services/auth.service';
+import { LocaleService } from '../services/locale.service';
+import { NotificationService } from '../services/notification.service';
+import { AuthRouteData } from '../interfaces/auth-route-data.interface';
+import { SupportedLocaleCode } from '../interfaces/locale-config.interface';
+import { UserRole } from '../model/user-role';
+import { RETURN_URL_QUERY_PARAM } from '../utils/return-url-utils';
+
+/**
+ * Guard protecting a route from anonymous users and users lacking the roles declared in {@link AuthRouteData}.
+ *
+ * @remarks
+ * - Trusts the current user while it is fresh, otherwise re-validates it via {@link AuthService#getCurrentUser}
+ *   (which keeps the current user when the backend cannot be reached, rather than treating it as signed out).
+ * - Anonymous users are redirected to the localized login page with a `returnUrl` query parameter.
+ * - Authenticated users missing a required role get a warning toast and are redirected to the dashboard.
+ */
+export const authGuard: CanActivateFn = (route: ActivatedRouteSnapshot, state: RouterStateSnapshot): boolean | UrlTree | Observable<boolean | UrlTree> => {
+  return checkAccess(state.url, getRequiredRoles(route.data));
+};
+
+/**
+ * `canMatch` counterpart of {@link authGuard}, evaluated before the route is recognized.
+ * Used on the routes restricted to a role, so that they are not even matched for other users.
+ */
+export const authMatchGuard: CanMatchFn = (route: Route, segments: UrlSegment[]): boolean | UrlTree | Observable<boolean | UrlTree> => {
+  const router: Router = inject(Router);
+  // Segments only hold the part matched by this route, so prefer the full URL of the ongoing navigation.
+  const extractedUrl: UrlTree | undefined = router.getCurrentNavigation()?.extractedUrl;
+  const targetUrl: string = extractedUrl !== undefined
+    ? router.serializeUrl(extractedUrl)
+    : '/' + segments.map((segment: UrlSegment) => segment.path).join('/');
+  return checkAccess(targetUrl, getRequiredRoles(route.data));
+};
+
+/**
+ * Decides whether the target URL can be reached, re-validating the session when the cache is stale.
+ * Must be called from an injection context.
+ *
+ * @param targetUrl The URL being navigated to (with locale prefix and query string).
+ * @param requiredRoles Roles declared on the route.
+ * @returns True when access is granted, otherwise a redirection {@link UrlTree}.
+ */
+function checkAccess(targetUrl: string, requiredRoles: ReadonlyArray<UserRole>): boolean | UrlTree | Observable<boolean | UrlTree> {
+  const authService: AuthService = inject(AuthService);
+  const localeService: LocaleService = inject(LocaleService);
+  const notificationService: NotificationService = inject(NotificationService);
+  const router: Router = inject(Router);
+
+  const urlSegments: string[] = targetUrl.split(/[?#]/)[0].split('/').filter((segment: string) => segment.length > 0);
+  const locale: SupportedLocaleCode = localeService.getLocaleFromUrl(urlSegments);
+
+  const evaluate = (): boolean | UrlTree => {
+    if (authService.isAuthenticated() === false) {
+      return router.createUrlTree([locale, 'login'], { queryParams: { [RETURN_URL_QUERY_PARAM]: targetUrl } });
+    }
+    const missingRole: UserRole | undefined = requiredRoles.find((role: UserRole) => hasRole(authService, role) === false);
+    if (missingRole !== undefined) {
+      notificationService.showWarning($localize`You do not have permission to access this page.`);
+      return router.createUrlTree([locale, 'dashboard']);
+    }
+    return true;
+  };
+
+  if (authService.isAuthenticated() === true && authService.isCacheStale() === false) {
+    return evaluate();
+  }
+  // No user or stale user: ask the backend (also refreshes or clears the current user).
+  return authService.getCurrentUser().pipe(map(() => evaluate()));
+}
+
+/**
+ * Checks whether the current user holds a role.
+ *
+ * @param authService The authentication service.
+ * @param role The role to check.
+ * @returns True if the current user holds the role.
+ */
+function hasRole(authService: AuthService, role: UserRole): boolean {
+  switch (role) {
+    case UserRole.ADMIN:
+      return authService.isAdmin();
+  }
+}
+
+/**
+ * Reads the required roles from the route `data`.
+ *
+ * @param data The route data.
+ * @returns The declared roles, or an empty array when none are declared.
+ */
+function getRequiredRoles(data: Data | undefined): ReadonlyArray<UserRole> {
+  const authData: AuthRouteData | undefined = data as AuthRouteData | undefined;
+  return authData?.roles ?? [];
+}
@@ -21,7 +21,7 @@ export class LocaleGuard implements CanActivate {
    * @returns True if the route can be activated, false otherwise.
    */
   canActivate(route: ActivatedRouteSnapshot, state: RouterStateSnapshot): boolean {
-    const urlSegments: string[] = state.url.split('/').filter(segment => segment.length > 0);
+    const urlSegments: string[] = state.url.split(/[?#]/)[0].split('/').filter(segment => segment.length > 0);
     
     // If no segments, redirect to default locale
     if (urlSegments.length === 0) {
@@ -33,7 +33,7 @@ export class LocaleGuard implements CanActivate {
     
     // If first segment is not a valid locale, redirect to default locale with current path
     if (this.localeService.isValidLocale(locale) === false) {
-      this.redirectToDefaultLocaleWithPath(urlSegments);
+      this.redirectToDefaultLocaleWithPath(urlSegments, route);
       return false;
     }
 
@@ -54,13 +54,14 @@ export class LocaleGuard implements CanActivate {
   /**
    * Redirect to default locale with the current path.
    * @param urlSegments Current URL segments.
+   * @param route The activated route snapshot (its query parameters are kept).
    */
-  private redirectToDefaultLocaleWithPath(urlSegments: string[]): void {
+  private redirectToDefaultLocaleWithPath(urlSegments: string[], route: ActivatedRouteSnapshot): void {
     const defaultLocale: string = this.localeService.defaultLocale;
     const pathWithoutLocale: string[] = urlSegments;
     const redirectUrl: string[] = [defaultLocale, ...pathWithoutLocale];
     
-    void this.router.navigate(redirectUrl, { replaceUrl: true });
+    void this.router.navigate(redirectUrl, { queryParams: route.queryParams, replaceUrl: true });
   }
 
   private mapLocaleIdToCode(localeId: string): string {
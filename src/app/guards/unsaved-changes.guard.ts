@@ -0,0 +1,24 @@
+import { inject } from '@angular/core';
+import { CanDeactivateFn } from '@angular/router';
+import { HasUnsavedChanges } from '../interfaces/has-unsaved-changes.interface';
+import { UnsavedChangesService } from '../services/unsaved-changes.service';
+
+/**
+ * Guard asking the user to confirm before leaving a page with unsaved edits.
+ *
+ * @remarks
+ * Covers navigation inside the application; closing or reloading the tab is covered by
+ * {@link UnsavedChangesService#warnBeforeUnload}.
+ *
+ * @example
+ * ```ts
+ * {
+ *   path: 'problem-add',
+ *   component: ProblemAddComponent,
+ *   canDeactivate: [unsavedChangesGuard]
+ * }
+ * ```
+ */
+export const unsavedChangesGuard: CanDeactivateFn<HasUnsavedChanges> = (component: HasUnsavedChanges | null): Promise<boolean> => {
+  return inject(UnsavedChangesService).confirmDiscard(component);
+};
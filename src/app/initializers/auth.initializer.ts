@@ -55,8 +55,8 @@ function getAutomaticAuthentication(): boolean {
 }
 
 /**
- * App initializer function that performs automatic authentication
- * if enabled in the environment configuration via AUTOMATIC_AUTHENTICATION variable.
+ * App initializer function that hydrates {@link AuthService#currentUser} from the backend session (whoami),
+ * or performs automatic authentication if enabled in the environment configuration via AUTOMATIC_AUTHENTICATION variable.
  * 
  * @returns Promise that resolves when initialization is complete
  */
@@ -79,8 +79,9 @@ export function authInitializer(): () => Promise<void> {
     } else {
       console.log('Automatic authentication disabled. User must authenticate manually.');
       console.log('To enable automatic authentication, set AUTOMATIC_AUTHENTICATION=true in .env.development');
-      // Clear any cached user so the app is not shown as already connected
-      authService.clearCachedUser();
+      // Restore the user of a still valid session cookie (null otherwise) so the app starts with the real state
+      const user = await firstValueFrom(authService.getCurrentUser());
+      console.log('Session restored. User:', user);
     }
   };
 }
@@ -0,0 +1,13 @@
+import { HttpContextToken } from '@angular/common/http';
+
+/**
+ * Set to true when the caller displays the field errors of a {@link ValidationError} on its form
+ * (see {@link applyValidationError}): the error toast is skipped for validation errors carrying field errors,
+ * any other error still gets it.
+ *
+ * @example
+ * ```ts
+ * this.groupService.createGroup(body, new HttpContext().set(FIELD_ERRORS_HANDLED_BY_FORM, true));
+ * ```
+ */
+export const FIELD_ERRORS_HANDLED_BY_FORM: HttpContextToken<boolean> = new HttpContextToken<boolean>(() => false);
@@ -1,54 +1,111 @@
 import { HttpErrorResponse, HttpEvent, HttpInterceptorFn, HttpRequest } from '@angular/common/http';
 import { inject } from '@angular/core';
-import { catchError, Observable, throwError } from 'rxjs';
+import { Router } from '@angular/router';
+import { catchError, Observable, switchMap, throwError } from 'rxjs';
 
 import { ErrorService } from '../services/error.service';
 import { NotificationService } from '../services/notification.service';
 import { AppError } from '../errors/app-error';
 import { UnauthorizedError } from '../errors/unauthorized-error';
+import { ValidationError } from '../errors/validation-error';
 import { LocaleService } from '../services/locale.service';
+import { AuthService } from '../services/auth.service';
+import { ReauthenticationService } from '../services/reauthentication.service';
+import { FIELD_ERRORS_HANDLED_BY_FORM } from './field-errors-handled.token';
+import { SKIP_ERROR_NOTIFICATION } from './skip-error-notification.token';
 import { SKIP_GLOBAL_ERROR_HANDLING } from './skip-global-error-handling.token';
+import { SKIP_REAUTHENTICATION } from './skip-reauthentication.token';
+import { RETURN_URL_QUERY_PARAM, isSafeReturnUrl, sanitizeReturnUrl } from '../utils/return-url-utils';
 
 /**
  * Global HTTP interceptor converting failures into {@link AppError} and surfacing them to the user.
  *
  * @remarks
  * - Converts any {@link HttpErrorResponse} to a typed {@link AppError} via {@link ErrorService}.
- * - Shows a toast via {@link NotificationService}.
- * - Redirects to login on {@link UnauthorizedError}.
- * - Can be disabled per-request using {@link SKIP_GLOBAL_ERROR_HANDLING}.
+ * - Shows a toast via {@link NotificationService}. Retryable failures reach it only after the last attempt of
+ *   {@link httpRetryInterceptor}, which runs after this interceptor.
+ * - When a signed-in user's session expires ({@link UnauthorizedError}), pauses the request, prompts for sign-in
+ *   in place via {@link ReauthenticationService} and replays it; the request is rejected only if the user cancels.
+ * - Otherwise redirects to login on {@link UnauthorizedError}, keeping the current page as `returnUrl`.
+ * - Can be disabled per-request using {@link SKIP_GLOBAL_ERROR_HANDLING}; authentication requests opt out of the prompt
+ *   and redirect with {@link SKIP_REAUTHENTICATION}, and callers reporting errors themselves opt out of the toast
+ *   with {@link SKIP_ERROR_NOTIFICATION}, or with {@link FIELD_ERRORS_HANDLED_BY_FORM} for field errors shown on a form.
  */
 export const httpErrorInterceptor: HttpInterceptorFn = (req: HttpRequest<unknown>, next): Observable<HttpEvent<unknown>> => {
   // Resolve dependencies via Angular DI (functional interceptor style).
   const errorService: ErrorService = inject(ErrorService);
   const notificationService: NotificationService = inject(NotificationService);
   const localeService: LocaleService = inject(LocaleService);
+  const authService: AuthService = inject(AuthService);
+  const reauthenticationService: ReauthenticationService = inject(ReauthenticationService);
+  const router: Router = inject(Router);
 
   // Allow callers to opt out of global toasts/redirects for expected failures (e.g., whoami on startup).
   if (req.context.get(SKIP_GLOBAL_ERROR_HANDLING) === true) {
     return next(req);
   }
 
-  // Forward the request and convert any downstream failure into a typed AppError with user feedback.
-  return next(req).pipe(
-    catchError((err: unknown): Observable<never> => {
-      // Best-effort correlation id extraction for troubleshooting (header name can be adjusted to backend).
-      const correlationId: string | undefined = err instanceof HttpErrorResponse ? err.headers?.get('x-correlation-id') ?? undefined : undefined;
+  const toAppError = (err: unknown): AppError => {
+    // Best-effort correlation id extraction for troubleshooting (header name can be adjusted to backend).
+    const correlationId: string | undefined = err instanceof HttpErrorResponse ? err.headers?.get('x-correlation-id') ?? undefined : undefined;
 
-      // Map low-level error shapes into a stable error hierarchy, enriched with request metadata.
-      const appError: AppError = errorService.createAppError(err, req, correlationId);
+    // Map low-level error shapes into a stable error hierarchy, enriched with request metadata.
+    return errorService.createAppError(err, req, correlationId);
+  };
 
-      // Show a consistent toast for all errors (message is already i18n-ready via ErrorService).
+  const reportFailure = (appError: AppError, redirectOnUnauthorized: boolean): Observable<never> => {
+    // Show a consistent toast for all errors (message is already i18n-ready via ErrorService),
+    // except field errors the calling form displays on its controls.
+    const shownOnForm: boolean = req.context.get(FIELD_ERRORS_HANDLED_BY_FORM) === true
+      && appError instanceof ValidationError
+      && appError.fieldErrors.length > 0;
+    if (req.context.get(SKIP_ERROR_NOTIFICATION) === false && shownOnForm === false) {
       notificationService.showErrorFromAppError(appError);
+    }
+
+    // For expired/missing sessions, navigate to login (localized route) and remember where the user was.
+    if (appError instanceof UnauthorizedError && redirectOnUnauthorized === true) {
+      // On the login/signup pages themselves (e.g. bad credentials), keep the return URL they already carry.
+      const currentUrl: string = router.url;
+      const returnUrl: string | null = isSafeReturnUrl(currentUrl)
+        ? currentUrl
+        : sanitizeReturnUrl(router.parseUrl(currentUrl).queryParamMap.get(RETURN_URL_QUERY_PARAM));
+      const queryParams: { [key: string]: string } | undefined = returnUrl !== null
+        ? { [RETURN_URL_QUERY_PARAM]: returnUrl }
+        : undefined;
+      void localeService.navigateWithLocale(['login'], { queryParams: queryParams });
+    }
+
+    // Re-throw as AppError so components can still handle it (e.g., instanceof ValidationError).
+    return throwError((): unknown => appError);
+  };
 
-      // For expired/missing sessions, navigate to login (localized route).
-      if (appError instanceof UnauthorizedError) {
-        void localeService.navigateWithLocale(['login']);
+  // Forward the request and convert any downstream failure into a typed AppError with user feedback.
+  return next(req).pipe(
+    catchError((err: unknown): Observable<HttpEvent<unknown>> => {
+      const appError: AppError = toAppError(err);
+
+      // Only users who had a session get the in-place prompt; anonymous users go through the login page.
+      const isAuthenticationRequest: boolean = req.context.get(SKIP_REAUTHENTICATION) === true;
+      const canReauthenticate: boolean = appError instanceof UnauthorizedError
+        && isAuthenticationRequest === false
+        && authService.isAuthenticated() === true;
+      if (canReauthenticate === false) {
+        return reportFailure(appError, isAuthenticationRequest === false);
       }
 
-      // Re-throw as AppError so components can still handle it (e.g., instanceof ValidationError).
-      return throwError((): unknown => appError);
+      // Concurrent 401s share the same prompt; each request is replayed once the user signed in again.
+      return reauthenticationService.requestReauthentication().pipe(
+        switchMap((signedIn: boolean): Observable<HttpEvent<unknown>> => {
+          if (signedIn === false) {
+            // Keep the user on the page (e.g. an unsaved form) and let the caller handle the rejection.
+            return reportFailure(appError, false);
+          }
+          return next(req).pipe(
+            catchError((retryErr: unknown): Observable<never> => reportFailure(toAppError(retryErr), true))
+          );
+        })
+      );
     })
   );
 };
-
@@ -0,0 +1,90 @@
+import { HttpErrorResponse, HttpEvent, HttpInterceptorFn, HttpRequest } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { Observable, retry, throwError, timer } from 'rxjs';
+
+import { ErrorService } from '../services/error.service';
+import { AppError } from '../errors/app-error';
+import { RETRY_REQUEST } from './retry-request.token';
+
+/**
+ * Number of retries after the first attempt.
+ */
+export const HTTP_RETRY_MAX_RETRIES: number = 3;
+
+/**
+ * Delay before the first retry, doubled for each following retry (milliseconds).
+ */
+export const HTTP_RETRY_BASE_DELAY_MS: number = 500;
+
+/**
+ * Longest delay between two attempts (milliseconds); a `Retry-After` asking for longer ends the retries.
+ */
+export const HTTP_RETRY_MAX_DELAY_MS: number = 10000;
+
+const IDEMPOTENT_METHODS: ReadonlySet<string> = new Set<string>(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/**
+ * HTTP interceptor retrying requests that failed with a retryable {@link AppError} (network, timeout and server errors).
+ *
+ * @remarks
+ * - Idempotent requests (GET, PUT, DELETE) are retried; POST and PATCH only when they carry {@link RETRY_REQUEST}.
+ * - Waits with a jittered exponential backoff capped at {@link HTTP_RETRY_MAX_DELAY_MS}, or for the delay of the
+ *   `Retry-After` response header when present.
+ * - Must be registered after {@link httpErrorInterceptor}: the last failure is forwarded unchanged, so the error is
+ *   converted and reported once, after the final attempt.
+ */
+export const httpRetryInterceptor: HttpInterceptorFn = (req: HttpRequest<unknown>, next): Observable<HttpEvent<unknown>> => {
+  const errorService: ErrorService = inject(ErrorService);
+
+  if (IDEMPOTENT_METHODS.has(req.method) === false && req.context.get(RETRY_REQUEST) === false) {
+    return next(req);
+  }
+
+  return next(req).pipe(
+    retry({
+      count: HTTP_RETRY_MAX_RETRIES,
+      delay: (err: unknown, retryCount: number): Observable<number> => {
+        // Same classification as the error interceptor, so only network, timeout and server errors are retried.
+        const appError: AppError = errorService.createAppError(err, req, undefined);
+        if (appError.isRetryable === false) {
+          return throwError((): unknown => err);
+        }
+
+        const retryAfter: number | null = err instanceof HttpErrorResponse ? parseRetryAfter(err.headers?.get('Retry-After') ?? null) : null;
+        if (retryAfter !== null) {
+          // The server asked for a longer pause than the user should wait for: report the failure now.
+          return retryAfter > HTTP_RETRY_MAX_DELAY_MS ? throwError((): unknown => err) : timer(retryAfter);
+        }
+        return timer(getBackoffDelay(retryCount));
+      }
+    })
+  );
+};
+
+/**
+ * Computes the delay before a retry: exponential, capped, with a random half to spread concurrent retries.
+ *
+ * @param retryCount The number of the upcoming retry (starting at 1).
+ * @returns The delay in milliseconds.
+ */
+function getBackoffDelay(retryCount: number): number {
+  const delay: number = Math.min(HTTP_RETRY_MAX_DELAY_MS, HTTP_RETRY_BASE_DELAY_MS * 2 ** (retryCount - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Reads a `Retry-After` header, given either in seconds or as an HTTP date.
+ *
+ * @param value The header value (null when absent).
+ * @returns The delay in milliseconds, or null when the header is absent or invalid.
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date: number = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,14 @@
+import { HttpContextToken } from '@angular/common/http';
+
+/**
+ * Set to true to retry a non-idempotent request (POST, PATCH) on retryable failures, for requests the backend
+ * can safely receive more than once. Idempotent requests (GET, PUT, DELETE) are always retried.
+ *
+ * @example
+ * ```ts
+ * this.http.post(url, body, {
+ *   context: new HttpContext().set(RETRY_REQUEST, true)
+ * });
+ * ```
+ */
+export const RETRY_REQUEST: HttpContextToken<boolean> = new HttpContextToken<boolean>(() => false);
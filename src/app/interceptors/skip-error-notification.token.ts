@@ -0,0 +1,12 @@
+import { HttpContextToken } from '@angular/common/http';
+
+/**
+ * Set to true to skip the error toast of a request, for callers reporting the error themselves
+ * (the error is still converted to an {@link AppError}, and expired sessions are still handled).
+ *
+ * @example
+ * ```ts
+ * this.problemService.deleteProblem(id, new HttpContext().set(SKIP_ERROR_NOTIFICATION, true));
+ * ```
+ */
+export const SKIP_ERROR_NOTIFICATION: HttpContextToken<boolean> = new HttpContextToken<boolean>(() => false);
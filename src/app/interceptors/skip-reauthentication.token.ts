@@ -0,0 +1,14 @@
+import { HttpContextToken } from '@angular/common/http';
+
+/**
+ * Set to true on authentication requests themselves: a 401 there means wrong credentials rather than an
+ * expired session, so it must neither open the re-authentication prompt nor redirect to login.
+ *
+ * @example
+ * ```ts
+ * this.http.post(url, body, {
+ *   context: new HttpContext().set(SKIP_REAUTHENTICATION, true)
+ * });
+ * ```
+ */
+export const SKIP_REAUTHENTICATION: HttpContextToken<boolean> = new HttpContextToken<boolean>(() => false);
@@ -0,0 +1,22 @@
+import { UserRole } from '../model/user-role';
+
+/**
+ * Route `data` convention read by the authentication guards.
+ *
+ * @example
+ * ```ts
+ * {
+ *   path: 'user-management',
+ *   component: UserManagementComponent,
+ *   canMatch: [authMatchGuard],
+ *   data: { roles: [UserRole.ADMIN] } satisfies AuthRouteData
+ * }
+ * ```
+ */
+export interface AuthRouteData {
+  /**
+   * Roles the current user must hold to activate the route.
+   * When omitted, any authenticated user is allowed.
+   */
+  readonly roles?: ReadonlyArray<UserRole>;
+}
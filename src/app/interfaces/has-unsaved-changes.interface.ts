@@ -0,0 +1,18 @@
+/**
+ * Component holding edits that are lost when it is destroyed (form pages and form modals).
+ *
+ * @remarks
+ * Checked by {@link unsavedChangesGuard} before leaving a route and by {@link UnsavedChangesService#confirmDiscard}
+ * before dismissing a modal.
+ */
+export interface HasUnsavedChanges {
+  /**
+   * Whether the component holds edits that are neither saved nor cancelled.
+   */
+  hasUnsavedChanges(): boolean;
+
+  /**
+   * Called once the user confirmed leaving without saving (e.g. to delete a stored draft).
+   */
+  discardUnsavedChanges?(): void;
+}
@@ -81,4 +81,118 @@ export interface Problem {
   creationDate?: Date;
   creator?: User;
   groupAuthorizations?: GroupAuthorization[];
+  archived?: boolean;
+}
+
+/**
+ * Columns the problem list can be sorted by
+ */
+export type ProblemSortColumn = 'name' | 'description' | 'status' | 'creationDate' | 'author';
+
+/**
+ * Page, sort and filters of a problem list request
+ */
+export interface ProblemQuery {
+  /**
+   * 1-based page number.
+   */
+  page: number;
+  pageSize: number;
+  sortColumn?: ProblemSortColumn;
+  sortDirection?: 'asc' | 'desc';
+  statuses?: string[];
+  name?: string;
+  description?: string;
+  author?: string;
+  group?: string;
+  /**
+   * Inclusive creation date bounds (yyyy-MM-dd).
+   */
+  creationDateFrom?: string;
+  creationDateTo?: string;
+  includeArchived?: boolean;
+}
+
+/**
+ * Filter and sort settings of the problem list captured by a saved view
+ */
+export interface ProblemViewFilters {
+  name: string;
+  description: string;
+  statuses: string[];
+  author: string;
+  groups: string;
+  /**
+   * Creation date bounds (yyyy-MM-dd), ignored when a date range preset is set.
+   */
+  creationDateFrom: string;
+  creationDateTo: string;
+  /**
+   * Relative date range (e.g. 'thisMonth'), computed again each time the view is applied.
+   */
+  dateRangePreset: string | null;
+  showArchived: boolean;
+  sortColumn: ProblemSortColumn | null;
+  sortDirection: 'asc' | 'desc' | null;
+}
+
+/**
+ * A named problem list view saved by a user
+ */
+export interface SavedProblemView {
+  id: number;
+  name: string;
+  filters: ProblemViewFilters;
+  /**
+   * Whether the view is applied when the problem list opens (at most one view per user).
+   */
+  isDefault: boolean;
+}
+
+/**
+ * In-progress edits of the problem form, kept in the browser until they are submitted or discarded
+ */
+export interface ProblemDraft {
+  /**
+   * ID of the edited problem (null when creating a problem).
+   */
+  problemId: number | null;
+  name: string | null;
+  description: string | null;
+  status: string | null;
+  statusReason: string | null;
+  visibility: string | null;
+  groupAuthorizations: GroupAuthorization[];
+  /**
+   * When the draft was started and last saved (ISO 8601).
+   */
+  startedAt: string;
+  savedAt: string;
+  /**
+   * Fingerprint of the server copy of the problem when the draft was started (null when creating a problem).
+   */
+  baseFingerprint: string | null;
+}
+
+/**
+ * One page of a list, with the total number of matching items
+ */
+export interface PagedResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * A comment posted on a problem, optionally in reply to another comment
+ */
+export interface Comment {
+  id?: number;
+  problemId?: number;
+  parentId?: number | null;
+  author?: User;
+  content?: string;
+  creationDate?: Date;
+  updateDate?: Date;
 }
@@ -0,0 +1,9 @@
+/**
+ * Role required to access a route, declared through {@link AuthRouteData#roles}.
+ */
+export enum UserRole {
+  /**
+   * Authenticated user flagged as administrator.
+   */
+  ADMIN = 'admin'
+}
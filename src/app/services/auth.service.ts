@@ -1,8 +1,10 @@
-import { Injectable, inject } from '@angular/core';
-import { HttpClient, HttpContext, HttpHeaders } from '@angular/common/http';
-import { Observable, catchError, map, of, throwError } from 'rxjs';
+import { Injectable, OnDestroy, Signal, WritableSignal, computed, inject, signal } from '@angular/core';
+import { HttpClient, HttpContext, HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { Observable, Subject, catchError, map, of, tap, throwError } from 'rxjs';
 import { UserDto } from '@shared/dto/user/user.dto';
+import { SKIP_ERROR_NOTIFICATION } from '../interceptors/skip-error-notification.token';
 import { SKIP_GLOBAL_ERROR_HANDLING } from '../interceptors/skip-global-error-handling.token';
+import { SKIP_REAUTHENTICATION } from '../interceptors/skip-reauthentication.token';
 
 /**
  * Dummy user ID constant used when authentication is not available.
@@ -18,27 +20,143 @@ export interface SignInRequest {
   password: string;
 }
 
+/**
+ * Interface for forgot-password request payload.
+ */
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+/**
+ * Interface for reset-password request payload.
+ */
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+/**
+ * Interface for change-password request payload.
+ */
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+/**
+ * Message exchanged between tabs to keep the session state in sync.
+ */
+type SessionSyncMessage =
+  | { type: 'signed-in'; user: UserDto }
+  | { type: 'signed-out' };
+
 /**
  * Service for managing user authentication and retrieving current user information.
  * 
  * @remarks
  * This service communicates with the backend API for authentication.
  * Uses session-based authentication (cookies) managed by the backend.
+ * The {@link AuthService#currentUser} signal is the single source of truth for the session on the client side:
+ * it is hydrated at startup by `authInitializer` (whoami) and updated on sign-in/sign-out.
+ * Sign-in and sign-out are broadcast to the other tabs of the application (same origin) through a
+ * `BroadcastChannel`, so every tab shares the same {@link AuthService#currentUser}.
  */
 @Injectable({
   providedIn: 'root'
 })
-export class AuthService {
+export class AuthService implements OnDestroy {
   private readonly httpClient: HttpClient = inject(HttpClient);
   private readonly API_BASE_URL: string = ''; // Use relative URLs to go through proxy
   private readonly AUTH_SIGNIN_URL: string = `${this.API_BASE_URL}/auth/signin`;
   private readonly AUTH_SIGNOUT_URL: string = `${this.API_BASE_URL}/auth/signout`;
   private readonly AUTH_WHOAMI_URL: string = `${this.API_BASE_URL}/auth/whoami`;
+  private readonly AUTH_FORGOT_PASSWORD_URL: string = `${this.API_BASE_URL}/auth/forgot-password`;
+  private readonly AUTH_RESET_PASSWORD_URL: string = `${this.API_BASE_URL}/auth/reset-password`;
+  private readonly AUTH_CHANGE_PASSWORD_URL: string = `${this.API_BASE_URL}/auth/change-password`;
+
+  /**
+   * Maximum age (milliseconds) of the current user before guards re-validate it with the backend.
+   */
+  private readonly USER_CACHE_MAX_AGE_MS: number = 5 * 60 * 1000;
+
+  /**
+   * Timestamp (epoch milliseconds) of the last time the backend confirmed the current user.
+   * Null when no user has been confirmed during this application session.
+   */
+  private lastValidatedAt: number | null = null;
 
   /**
-   * Key used to store the current user in localStorage as a cache.
+   * Name of the channel used to synchronise the session between tabs.
    */
-  private readonly USER_STORAGE_KEY: string = 'current-user';
+  private readonly SESSION_CHANNEL_NAME: string = 'soluce-session';
+
+  /**
+   * Channel used to synchronise the session between tabs, null when the browser does not support it.
+   */
+  private readonly sessionChannel: BroadcastChannel | null = typeof BroadcastChannel !== 'undefined'
+    ? new BroadcastChannel(this.SESSION_CHANNEL_NAME)
+    : null;
+
+  /**
+   * Internal signal holding the current user, null when not authenticated.
+   */
+  private readonly currentUserSignal: WritableSignal<UserDto | null> = signal<UserDto | null>(null);
+
+  /**
+   * Emits when the user signs out in another tab.
+   */
+  private readonly signedOutElsewhereSubject: Subject<void> = new Subject<void>();
+
+  /**
+   * Read-only signal of the current user, updated on sign-in/sign-out in this tab and in the other tabs.
+   */
+  public readonly currentUser: Signal<UserDto | null> = this.currentUserSignal.asReadonly();
+
+  /**
+   * Whether a user is currently authenticated.
+   */
+  public readonly isAuthenticated: Signal<boolean> = computed<boolean>(() => {
+    const user: UserDto | null = this.currentUserSignal();
+    return user !== null && user.id !== undefined && user.id !== null;
+  });
+
+  /**
+   * Whether the current user is an administrator.
+   */
+  public readonly isAdmin: Signal<boolean> = computed<boolean>(() => this.currentUserSignal()?.admin === true);
+
+  /**
+   * Name of the current user ("firstName surname", falling back to the email), or an empty string when not authenticated.
+   */
+  public readonly displayName: Signal<string> = computed<string>(() => {
+    const user: UserDto | null = this.currentUserSignal();
+    if (user === null) {
+      return '';
+    }
+    const fullName: string = [user.firstName, user.surname]
+      .filter((part: string | undefined) => typeof part === 'string' && part.trim() !== '')
+      .join(' ');
+    return fullName !== '' ? fullName : user.email ?? '';
+  });
+
+  /**
+   * Observable emitting when the user signs out in another tab (e.g. to leave protected pages).
+   */
+  public readonly signedOutElsewhere: Observable<void> = this.signedOutElsewhereSubject.asObservable();
+
+  constructor() {
+    if (this.sessionChannel !== null) {
+      this.sessionChannel.onmessage = (event: MessageEvent<SessionSyncMessage>): void => this.onSessionSyncMessage(event.data);
+    }
+  }
+
+  /**
+   * Closes the synchronisation channel.
+   */
+  public ngOnDestroy(): void {
+    this.sessionChannel?.close();
+    this.signedOutElsewhereSubject.complete();
+  }
 
   /**
    * Sign in a user with email and password.
@@ -55,11 +173,12 @@ export class AuthService {
 
     return this.httpClient.post<UserDto>(this.AUTH_SIGNIN_URL, signInRequest, {
       headers,
-      withCredentials: true // Required for session cookies
+      withCredentials: true, // Required for session cookies
+      context: new HttpContext().set(SKIP_REAUTHENTICATION, true) // Wrong credentials must not prompt or redirect
     }).pipe(
       map((user: UserDto): UserDto => {
-        // Cache user information in localStorage
-        this.cacheCurrentUser(user);
+        this.setCurrentUser(user);
+        this.broadcastSessionChange({ type: 'signed-in', user: user });
         return user;
       }),
       catchError((error: unknown) => {
@@ -76,23 +195,132 @@ export class AuthService {
    */
   public signOut(): Observable<void> {
     return this.httpClient.post<void>(this.AUTH_SIGNOUT_URL, {}, {
-      withCredentials: true // Required for session cookies
+      withCredentials: true, // Required for session cookies
+      context: new HttpContext().set(SKIP_REAUTHENTICATION, true)
     }).pipe(
       map((): void => {
-        // Clear cached user information
-        this.clearCachedUser();
+        this.clearCurrentUser();
+        this.broadcastSessionChange({ type: 'signed-out' });
       }),
       catchError((error: unknown) => {
         console.log('Sign out failed:', error);
-        // Clear cache even if request fails
-        this.clearCachedUser();
+        // Clear the current user even if request fails
+        this.clearCurrentUser();
+        this.broadcastSessionChange({ type: 'signed-out' });
         return throwError(() => new Error('Failed to sign out'));
       })
     );
   }
 
+  /**
+   * Ask the backend to send a password reset link to an email address.
+   *
+   * @remarks
+   * Errors are re-thrown as received (typed {@link AppError} from the HTTP interceptor)
+   * so the caller can map {@link ValidationError} field errors onto its form.
+   *
+   * @param email The email address of the account to recover.
+   * @returns Observable that completes when the request is accepted.
+   */
+  public requestPasswordReset(email: string): Observable<void> {
+    const forgotPasswordRequest: ForgotPasswordRequest = { email };
+    const headers: HttpHeaders = new HttpHeaders({
+      'Content-Type': 'application/json'
+    });
+
+    return this.httpClient.post<void>(this.AUTH_FORGOT_PASSWORD_URL, forgotPasswordRequest, {
+      headers,
+      // The page displays every failure itself, so skip the toast.
+      context: new HttpContext().set(SKIP_REAUTHENTICATION, true).set(SKIP_ERROR_NOTIFICATION, true)
+    }).pipe(
+      catchError((error: unknown) => {
+        console.log('Password reset request failed:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Set a new password using the token received by email.
+   *
+   * @remarks
+   * Errors are re-thrown as received (typed {@link AppError} from the HTTP interceptor)
+   * so the caller can map {@link ValidationError} field errors onto its form.
+   *
+   * @param token The reset token from the link sent by email.
+   * @param password The new password.
+   * @returns Observable that completes when the password has been changed.
+   */
+  public resetPassword(token: string, password: string): Observable<void> {
+    const resetPasswordRequest: ResetPasswordRequest = { token, password };
+    const headers: HttpHeaders = new HttpHeaders({
+      'Content-Type': 'application/json'
+    });
+
+    return this.httpClient.post<void>(this.AUTH_RESET_PASSWORD_URL, resetPasswordRequest, {
+      headers,
+      // The page displays every failure itself, so skip the toast.
+      context: new HttpContext().set(SKIP_REAUTHENTICATION, true).set(SKIP_ERROR_NOTIFICATION, true)
+    }).pipe(
+      catchError((error: unknown) => {
+        console.log('Password reset failed:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Change the password of the signed-in user.
+   *
+   * @remarks
+   * A wrong current password must not be taken for an expired session, so the re-authentication prompt is skipped.
+   * Errors are re-thrown as received (typed {@link AppError} from the HTTP interceptor)
+   * so the caller can map {@link ValidationError} field errors onto its form.
+   *
+   * @param currentPassword The current password, proving the user's identity.
+   * @param newPassword The new password.
+   * @returns Observable that completes when the password has been changed.
+   */
+  public changePassword(currentPassword: string, newPassword: string): Observable<void> {
+    const changePasswordRequest: ChangePasswordRequest = { currentPassword, newPassword };
+    const headers: HttpHeaders = new HttpHeaders({
+      'Content-Type': 'application/json'
+    });
+
+    return this.httpClient.post<void>(this.AUTH_CHANGE_PASSWORD_URL, changePasswordRequest, {
+      headers,
+      withCredentials: true, // Required for session cookies
+      // The form displays every failure itself, so skip the toast.
+      context: new HttpContext().set(SKIP_REAUTHENTICATION, true).set(SKIP_ERROR_NOTIFICATION, true)
+    }).pipe(
+      catchError((error: unknown) => {
+        console.log('Password change failed:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Reload the current user from the backend after it changed (e.g. profile edit), including in the other tabs.
+   *
+   * @returns Observable emitting the refreshed user, or null if not authenticated anymore.
+   */
+  public refreshCurrentUser(): Observable<UserDto | null> {
+    return this.getCurrentUser().pipe(
+      tap((user: UserDto | null): void => {
+        if (user !== null) {
+          this.broadcastSessionChange({ type: 'signed-in', user: user });
+        }
+      })
+    );
+  }
+
   /**
    * Get the current authenticated user from the backend.
+   *
+   * @remarks
+   * The current user is cleared only when the backend rejects the session (401/403). Other failures
+   * (network, server errors) keep the current user, so that a transient outage does not sign the user out.
    * 
    * @returns Observable emitting the current user, or null if not authenticated.
    */
@@ -102,96 +330,110 @@ export class AuthService {
       context: new HttpContext().set(SKIP_GLOBAL_ERROR_HANDLING, true)
     }).pipe(
       map((user: UserDto): UserDto => {
-        // Cache user information
-        this.cacheCurrentUser(user);
+        this.setCurrentUser(user);
         return user;
       }),
       catchError((error: unknown) => {
-        // If not authenticated, clear cache and return null
-        console.log('Not authenticated:', error);
-        this.clearCachedUser();
-        return of(null);
+        if (error instanceof HttpErrorResponse && (error.status === 401 || error.status === 403)) {
+          // Not authenticated: clear the current user and return null
+          console.log('Not authenticated:', error);
+          this.clearCurrentUser();
+          return of(null);
+        }
+        console.log('Could not validate the session, keeping the current user:', error);
+        return of(this.currentUser());
       })
     );
   }
 
   /**
    * Get the current authenticated user's ID.
-   * First checks localStorage cache, then calls backend if needed.
    * 
    * @returns The user ID if available, or null if not authenticated.
    */
   public getCurrentUserId(): number | null {
-    const cachedUser: UserDto | null = this.getCachedUser();
-    if (cachedUser !== null && cachedUser.id !== undefined) {
-      return cachedUser.id;
+    const user: UserDto | null = this.currentUserSignal();
+    if (user !== null && user.id !== undefined) {
+      return user.id;
     }
     return null;
   }
 
   /**
-   * Check if a user is currently authenticated.
-   * 
-   * @returns True if a user ID is available (from cache), false otherwise.
+   * Get the current authenticated user's email.
+   *
+   * @returns The user email if available, or null if not authenticated.
    */
-  public isAuthenticated(): boolean {
-    return this.getCurrentUserId() !== null;
+  public getCurrentUserEmail(): string | null {
+    const user: UserDto | null = this.currentUserSignal();
+    if (user !== null && typeof user.email === 'string') {
+      return user.email;
+    }
+    return null;
   }
 
   /**
-   * Check if the current user is an administrator.
-   * 
-   * @returns True if the current user is an administrator, false otherwise.
+   * Check whether the current user must be re-validated with the backend.
+   *
+   * @remarks
+   * The session cookie may expire at any time on the backend side,
+   * so a user that was not confirmed by the backend recently is considered stale.
+   *
+   * @returns True if the user was never validated in this session or is older than the allowed age.
    */
-  public isAdmin(): boolean {
-    const cachedUser: UserDto | null = this.getCachedUser();
-    if (cachedUser !== null && cachedUser.admin === true) {
+  public isCacheStale(): boolean {
+    if (this.lastValidatedAt === null) {
       return true;
     }
-    return false;
+    return Date.now() - this.lastValidatedAt > this.USER_CACHE_MAX_AGE_MS;
   }
 
   /**
-   * Cache the current user in localStorage.
+   * Set the current user as confirmed by the backend.
    * 
-   * @param user The user to cache.
+   * @param user The authenticated user.
    */
-  private cacheCurrentUser(user: UserDto): void {
-    try {
-      window.localStorage.setItem(this.USER_STORAGE_KEY, JSON.stringify(user));
-    } catch (error: unknown) {
-      console.log('Failed to cache user:', error);
-    }
+  private setCurrentUser(user: UserDto): void {
+    this.lastValidatedAt = Date.now();
+    this.currentUserSignal.set(user);
   }
 
   /**
-   * Get the cached user from localStorage.
-   * 
-   * @returns The cached user, or null if not found or invalid.
+   * Clear the current user.
    */
-  private getCachedUser(): UserDto | null {
+  private clearCurrentUser(): void {
+    this.lastValidatedAt = null;
+    this.currentUserSignal.set(null);
+  }
+
+  /**
+   * Notify the other tabs of a sign-in or sign-out performed in this tab.
+   *
+   * @param message The session change to broadcast.
+   */
+  private broadcastSessionChange(message: SessionSyncMessage): void {
     try {
-      const stored: string | null = window.localStorage.getItem(this.USER_STORAGE_KEY);
-      if (stored === null || stored === '') {
-        return null;
-      }
-      const user: UserDto = JSON.parse(stored) as UserDto;
-      return user;
+      this.sessionChannel?.postMessage(message);
     } catch (error: unknown) {
-      console.log('Failed to retrieve cached user:', error);
-      return null;
+      console.log('Failed to broadcast session change:', error);
     }
   }
 
   /**
-   * Clear the cached user from localStorage.
-   * Public so app initializer can reset stored auth when AUTOMATIC_AUTHENTICATION is false.
+   * Apply a session change received from another tab.
+   *
+   * @param message The session change received.
    */
-  public clearCachedUser(): void {
-    try {
-      window.localStorage.removeItem(this.USER_STORAGE_KEY);
-    } catch (error: unknown) {
-      console.log('Failed to clear cached user:', error);
+  private onSessionSyncMessage(message: SessionSyncMessage): void {
+    if (message.type === 'signed-in') {
+      // The other tab just got the user from the backend, so it counts as a fresh validation.
+      this.setCurrentUser(message.user);
+      return;
+    }
+    const wasAuthenticated: boolean = this.isAuthenticated();
+    this.clearCurrentUser();
+    if (wasAuthenticated === true) {
+      this.signedOutElsewhereSubject.next();
     }
   }
 }
@@ -1,11 +1,12 @@
 import { inject, Injectable } from '@angular/core';
-import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { HttpClient, HttpContext, HttpHeaders, HttpParams } from '@angular/common/http';
 import { catchError, map, Observable, throwError } from 'rxjs';
 import { GroupDto } from '@shared/dto/group/group.dto';
 import { CreateGroupDto } from '@shared/dto/group/create-group.dto';
 import { UpdateGroupDto } from '@shared/dto/group/update-group.dto';
 import { Group } from '../model/model';
 import { GroupService } from './group.service';
+import { AppError } from '../errors/app-error';
 
 @Injectable({ providedIn: 'root' })
 export class DBGroupService extends GroupService {
@@ -24,41 +25,7 @@ export class DBGroupService extends GroupService {
   public override fetchGroups(): Observable<Group[]> {
     const url: string = `${this.API_BASE_URL}/group`;
     return this.httpClient.get<GroupDto[]>(url).pipe(
-      map((backendGroups: GroupDto[]): Group[] => {
-        const mappedGroups: Group[] = backendGroups.map((backendGroup: GroupDto): Group => {
-          // The DTO should have creatorId directly, but if transformation didn't work, extract from creator
-          const creatorId: number | undefined = backendGroup.creatorId || (backendGroup as any).creator?.id;
-          
-          // The DTO should have memberIds directly, but if transformation didn't work, extract from members
-          const memberIds: number[] = backendGroup.memberIds || ((backendGroup as any).members?.map((member: any) => member.id) || []);
-          
-          // Get creatorName from the response
-          // First check if creatorName is directly in the response (from DTO transformation)
-          // Otherwise, construct it from the creator object
-          const rawResponse: any = backendGroup as any;
-          let creatorName: string | undefined = rawResponse.creatorName || backendGroup.creatorName;
-          
-          // If creatorName is not available, construct it from creator object
-          if (!creatorName && rawResponse.creator) {
-            const firstName: string = rawResponse.creator.firstName || '';
-            const surname: string = rawResponse.creator.surname || '';
-            creatorName = `${firstName} ${surname}`.trim() || undefined;
-          }
-          
-          const group: Group = {
-            id: backendGroup.id,
-            name: backendGroup.name,
-            description: backendGroup.description,
-            memberIds: memberIds,
-            creationDate: backendGroup.creationDate ? new Date(backendGroup.creationDate) : undefined,
-            creatorId: creatorId,
-            creatorName: creatorName
-          };
-          
-          return group;
-        });
-        return mappedGroups;
-      }),
+      map((backendGroups: GroupDto[]): Group[] => backendGroups.map((backendGroup: GroupDto): Group => this.mapGroup(backendGroup))),
       catchError((error: unknown) => {
         console.log('Error fetching groups:', error);
         return throwError(() => new Error('Failed to fetch groups'));
@@ -66,14 +33,31 @@ export class DBGroupService extends GroupService {
     );
   }
 
+  /**
+   * Fetches the groups a user is a member of.
+   * Uses GET http://localhost:3000/group?memberId=:userId, which only returns the groups of that member.
+   *
+   * @param userId The ID of the member.
+   * @param context Optional request context (e.g. to skip the global error toast).
+   * @returns Observable emitting an array of {@link Group} objects.
+   */
+  public override fetchGroupsOfMember(userId: number, context?: HttpContext): Observable<Group[]> {
+    const url: string = `${this.API_BASE_URL}/group`;
+    const params: HttpParams = new HttpParams().set('memberId', userId);
+    return this.httpClient.get<GroupDto[]>(url, { params, context }).pipe(
+      map((backendGroups: GroupDto[]): Group[] => backendGroups.map((backendGroup: GroupDto): Group => this.mapGroup(backendGroup)))
+    );
+  }
+
   /**
    * Creates a new group by POSTing to the API.
    * Uses POST http://localhost:3000/group
    *
    * @param groupData The {@link CreateGroupDto} payload for creating a group.
+   * @param context Optional request context (e.g. to display field errors on the form instead of the global toast).
    * @returns Observable emitting the created {@link Group} object.
    */
-  public override createGroup(groupData: CreateGroupDto): Observable<Group> {
+  public override createGroup(groupData: CreateGroupDto, context?: HttpContext): Observable<Group> {
     const url: string = `${this.API_BASE_URL}/group`;
     const headers: HttpHeaders = new HttpHeaders({
       'Content-Type': 'application/json'
@@ -87,7 +71,7 @@ export class DBGroupService extends GroupService {
     // Store creatorId from request since backend might not return it
     const requestCreatorId: number | undefined = groupData.creatorId;
     
-    return this.httpClient.post<GroupDto>(url, body, { headers }).pipe(
+    return this.httpClient.post<GroupDto>(url, body, { headers, context }).pipe(
       map((backendGroup: GroupDto): Group => {
         // The DTO should have creatorId directly, but if transformation didn't work, extract from creator
         const creatorId: number | undefined = backendGroup.creatorId || (backendGroup as any).creator?.id || requestCreatorId;
@@ -121,7 +105,7 @@ export class DBGroupService extends GroupService {
       }),
       catchError((error: unknown) => {
         console.log('Error creating group:', error);
-        return throwError(() => new Error('Failed to create group'));
+        return throwError(() => error instanceof AppError ? error : new Error('Failed to create group'));
       })
     );
   }
@@ -132,14 +116,15 @@ export class DBGroupService extends GroupService {
    *
    * @param id The ID of the group to update.
    * @param groupData The {@link UpdateGroupDto} payload with optional fields for partial updates.
+   * @param context Optional request context (e.g. to display field errors on the form instead of the global toast).
    * @returns Observable emitting the updated {@link Group} object.
    */
-  public override updateGroup(id: number, groupData: UpdateGroupDto): Observable<Group> {
+  public override updateGroup(id: number, groupData: UpdateGroupDto, context?: HttpContext): Observable<Group> {
     const url: string = `${this.API_BASE_URL}/group/${id}`;
     const headers: HttpHeaders = new HttpHeaders({
       'Content-Type': 'application/json'
     });
-    return this.httpClient.patch<GroupDto>(url, groupData, { headers }).pipe(
+    return this.httpClient.patch<GroupDto>(url, groupData, { headers, context }).pipe(
       map((backendGroup: GroupDto): Group => {
         // The DTO should have creatorId directly, but if transformation didn't work, extract from creator
         const creatorId: number | undefined = backendGroup.creatorId || (backendGroup as any).creator?.id;
@@ -160,7 +145,7 @@ export class DBGroupService extends GroupService {
       }),
       catchError((error: unknown) => {
         console.log('Error updating group:', error);
-        return throwError(() => new Error('Failed to update group'));
+        return throwError(() => error instanceof AppError ? error : new Error('Failed to update group'));
       })
     );
   }
@@ -184,5 +169,43 @@ export class DBGroupService extends GroupService {
       })
     );
   }
-}
 
+  /**
+   * Maps a backend group DTO to the frontend {@link Group} model.
+   *
+   * @param backendGroup The group returned by the API.
+   * @returns The mapped {@link Group}.
+   */
+  private mapGroup(backendGroup: GroupDto): Group {
+    // The DTO should have creatorId directly, but if transformation didn't work, extract from creator
+    const creatorId: number | undefined = backendGroup.creatorId || (backendGroup as any).creator?.id;
+    
+    // The DTO should have memberIds directly, but if transformation didn't work, extract from members
+    const memberIds: number[] = backendGroup.memberIds || ((backendGroup as any).members?.map((member: any) => member.id) || []);
+    
+    // Get creatorName from the response
+    // First check if creatorName is directly in the response (from DTO transformation)
+    // Otherwise, construct it from the creator object
+    const rawResponse: any = backendGroup as any;
+    let creatorName: string | undefined = rawResponse.creatorName || backendGroup.creatorName;
+    
+    // If creatorName is not available, construct it from creator object
+    if (!creatorName && rawResponse.creator) {
+      const firstName: string = rawResponse.creator.firstName || '';
+      const surname: string = rawResponse.creator.surname || '';
+      creatorName = `${firstName} ${surname}`.trim() || undefined;
+    }
+    
+    const group: Group = {
+      id: backendGroup.id,
+      name: backendGroup.name,
+      description: backendGroup.description,
+      memberIds: memberIds,
+      creationDate: backendGroup.creationDate ? new Date(backendGroup.creationDate) : undefined,
+      creatorId: creatorId,
+      creatorName: creatorName
+    };
+    
+    return group;
+  }
+}
@@ -0,0 +1,167 @@
+import { inject, Injectable } from '@angular/core';
+import { HttpClient, HttpContext, HttpErrorResponse } from '@angular/common/http';
+import { catchError, map, Observable, switchMap, throwError } from 'rxjs';
+
+import { ProblemViewFilters, SavedProblemView } from '../model';
+import { AppError } from '../errors/app-error';
+import { SKIP_GLOBAL_ERROR_HANDLING } from '../interceptors/skip-global-error-handling.token';
+import { ProblemViewService } from './problem-view.service';
+
+/**
+ * Saved problem views stored by the backend, so they follow the user across browsers.
+ *
+ * @remarks
+ * Backends without the `/problem-view` endpoint answer 404 (or 501) to the first fetch: the views are then
+ * kept in `localStorage` (see {@link ProblemViewService}) for the rest of the session.
+ * Until a fetch succeeded or got such an answer, where the views are stored is unknown: changes fetch the views
+ * first, and fail when that fetch fails, so that the views are never split between the backend and `localStorage`.
+ */
+@Injectable({ providedIn: 'root' })
+export class DBProblemViewService extends ProblemViewService {
+  private readonly httpClient: HttpClient = inject(HttpClient);
+  private readonly API_BASE_URL: string = ''; // Use relative URLs to go through proxy
+
+  /**
+   * Whether the backend stores the views, null until a fetch tells (e.g. while the backend is unreachable).
+   */
+  private backendAvailable: boolean | null = null;
+
+  constructor() {
+    super();
+  }
+
+  /**
+   * Fetches the saved views of the current user.
+   * Uses GET /problem-view (without the global error toast: a missing endpoint is expected).
+   *
+   * @returns Observable emitting the {@link SavedProblemView}s.
+   */
+  public override fetchViews(): Observable<SavedProblemView[]> {
+    if (this.backendAvailable === false) {
+      return super.fetchViews();
+    }
+    const url: string = `${this.API_BASE_URL}/problem-view`;
+    return this.httpClient.get<SavedProblemView[]>(url, {
+      context: new HttpContext().set(SKIP_GLOBAL_ERROR_HANDLING, true)
+    }).pipe(
+      map((views: SavedProblemView[]): SavedProblemView[] => {
+        this.backendAvailable = true;
+        return views;
+      }),
+      catchError((error: unknown) => {
+        if (error instanceof HttpErrorResponse && (error.status === 404 || error.status === 501)) {
+          this.backendAvailable = false;
+          return super.fetchViews();
+        }
+        console.log('Error fetching problem views:', error);
+        return throwError(() => new Error('Failed to fetch problem views'));
+      })
+    );
+  }
+
+  /**
+   * Saves a new view.
+   * Uses POST /problem-view
+   *
+   * @param name The view name.
+   * @param filters The filter and sort settings of the view.
+   * @returns Observable emitting the created {@link SavedProblemView}.
+   */
+  public override createView(name: string, filters: ProblemViewFilters): Observable<SavedProblemView> {
+    return this.whenStorageKnown(
+      () => super.createView(name, filters),
+      () => {
+        const url: string = `${this.API_BASE_URL}/problem-view`;
+        return this.httpClient.post<SavedProblemView>(url, { name: name.trim(), filters }).pipe(
+          catchError((error: unknown) => {
+            console.log('Error creating problem view:', error);
+            return throwError(() => error instanceof AppError ? error : new Error('Failed to create problem view'));
+          })
+        );
+      }
+    );
+  }
+
+  /**
+   * Renames a view.
+   * Uses PATCH /problem-view/:id
+   *
+   * @param id The ID of the view.
+   * @param name The new name.
+   * @returns Observable emitting the renamed {@link SavedProblemView}.
+   */
+  public override renameView(id: number, name: string): Observable<SavedProblemView> {
+    return this.whenStorageKnown(
+      () => super.renameView(id, name),
+      () => {
+        const url: string = `${this.API_BASE_URL}/problem-view/${id}`;
+        return this.httpClient.patch<SavedProblemView>(url, { name: name.trim() }).pipe(
+          catchError((error: unknown) => {
+            console.log('Error renaming problem view:', error);
+            return throwError(() => error instanceof AppError ? error : new Error('Failed to rename problem view'));
+          })
+        );
+      }
+    );
+  }
+
+  /**
+   * Deletes a view.
+   * Uses DELETE /problem-view/:id
+   *
+   * @param id The ID of the view.
+   * @returns Observable completing once the view is deleted.
+   */
+  public override deleteView(id: number): Observable<void> {
+    return this.whenStorageKnown(
+      () => super.deleteView(id),
+      () => {
+        const url: string = `${this.API_BASE_URL}/problem-view/${id}`;
+        return this.httpClient.delete<void>(url).pipe(
+          catchError((error: unknown) => {
+            console.log('Error deleting problem view:', error);
+            return throwError(() => error instanceof AppError ? error : new Error('Failed to delete problem view'));
+          })
+        );
+      }
+    );
+  }
+
+  /**
+   * Marks a view as the default one.
+   * Uses PUT /problem-view/default
+   *
+   * @param id The ID of the view, or null to clear the default view.
+   * @returns Observable completing once the default view is saved.
+   */
+  public override setDefaultView(id: number | null): Observable<void> {
+    return this.whenStorageKnown(
+      () => super.setDefaultView(id),
+      () => {
+        const url: string = `${this.API_BASE_URL}/problem-view/default`;
+        return this.httpClient.put<void>(url, { id }).pipe(
+          catchError((error: unknown) => {
+            console.log('Error setting the default problem view:', error);
+            return throwError(() => error instanceof AppError ? error : new Error('Failed to set the default problem view'));
+          })
+        );
+      }
+    );
+  }
+
+  /**
+   * Runs a change on the storage holding the views, fetching the views first when that storage is unknown.
+   *
+   * @param onLocalStorage The change when the views are kept in `localStorage`.
+   * @param onBackend The change when the backend stores the views.
+   * @returns The observable of the change, failing when the storage cannot be determined.
+   */
+  private whenStorageKnown<T>(onLocalStorage: () => Observable<T>, onBackend: () => Observable<T>): Observable<T> {
+    if (this.backendAvailable !== null) {
+      return this.backendAvailable ? onBackend() : onLocalStorage();
+    }
+    return this.fetchViews().pipe(
+      switchMap((): Observable<T> => this.backendAvailable === true ? onBackend() : onLocalStorage())
+    );
+  }
+}
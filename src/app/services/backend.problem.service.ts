@@ -1,11 +1,13 @@
 import { inject, Injectable } from '@angular/core';
-import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { HttpClient, HttpContext, HttpHeaders, HttpParams } from '@angular/common/http';
 import { catchError, forkJoin, map, Observable, of, switchMap, tap, throwError } from 'rxjs';
 import { Authorization } from '@shared/dto/group/authorization.enum';
 import { CreateGroupAuthorizationDto, UpdateProblemDto } from '@shared/dto';
 
-import { Problem, GroupAuthorization } from '../model';
+import { Comment, PagedResult, Problem, ProblemQuery, GroupAuthorization } from '../model';
 import { ProblemService } from './problem.service';
+import { AppError } from '../errors/app-error';
+import { PROBLEM_STATUS_ORDER } from '../utils/problem-status-workflow';
 
 @Injectable({ providedIn: 'root' })
 export class DBProblemService extends ProblemService {
@@ -14,10 +16,95 @@ export class DBProblemService extends ProblemService {
     super();
   }
 
-  public override fetchProblemsOfUserGroups(): Observable<Problem[]> {
-    return this.fetchProblems(
-      '/problem?includeCreator=true&includeAuthorizations=true',
-      'error favorite places'
+  /**
+   * Fetch one page of the problems the groups of the current user can work on.
+   * Sorting, filtering and paging are done by the backend (statuses are filtered on the status enum values).
+   * Statuses are sorted in workflow order: the order of the enum values is sent along with the sort (see
+   * {@link PROBLEM_STATUS_ORDER}), so the backend does not sort them alphabetically.
+   *
+   * @param query The page, sort and filters, sent as query parameters
+   * @returns Observable emitting the page and the total number of matching problems
+   */
+  public override fetchProblemsOfUserGroups(query: ProblemQuery): Observable<PagedResult<Problem>> {
+    const params: HttpParams = this.toProblemQueryParams(query);
+    return this.httpClient.get<any>('/problem', { params }).pipe(
+      map((backendPage: any) => {
+        const page: PagedResult<Problem> = {
+          items: (backendPage.items ?? []).map((backendProblem: any) => this.mapProblem(backendProblem)),
+          total: backendPage.total ?? 0,
+          page: backendPage.page ?? query.page,
+          pageSize: backendPage.pageSize ?? query.pageSize
+        };
+        return page;
+      }),
+      catchError((error: unknown) => {
+        console.log(error);
+        return throwError(() => error instanceof AppError ? error : new Error('Failed to fetch problems'));
+      })
+    );
+  }
+
+  /**
+   * Maps a {@link ProblemQuery} to the query parameters of `GET /problem` (empty filters are omitted).
+   *
+   * @param query The page, sort and filters
+   * @returns The query parameters
+   */
+  private toProblemQueryParams(query: ProblemQuery): HttpParams {
+    let params: HttpParams = new HttpParams()
+      .set('includeCreator', true)
+      .set('includeAuthorizations', true)
+      .set('page', query.page)
+      .set('pageSize', query.pageSize);
+    if (query.sortColumn) {
+      params = params.set('sort', query.sortColumn).set('order', query.sortDirection ?? 'asc');
+      if (query.sortColumn === 'status') {
+        // Explicit sort key: the backend ranks each status by its position in this list
+        for (const status of PROBLEM_STATUS_ORDER) {
+          params = params.append('sortOrder', status);
+        }
+      }
+    }
+    for (const status of query.statuses ?? []) {
+      params = params.append('status', status);
+    }
+    const textFilters: Array<[string, string | undefined]> = [
+      ['name', query.name],
+      ['description', query.description],
+      ['author', query.author],
+      ['group', query.group],
+      ['createdFrom', query.creationDateFrom],
+      ['createdTo', query.creationDateTo]
+    ];
+    for (const [name, value] of textFilters) {
+      if (value !== undefined && value.trim() !== '') {
+        params = params.set(name, value.trim());
+      }
+    }
+    if (query.includeArchived === true) {
+      params = params.set('includeArchived', true);
+    }
+    return params;
+  }
+
+  /**
+   * Fetch a single {@link Problem} with its creator and group authorizations.
+   *
+   * Typed {@link AppError}s (e.g. {@link NotFoundError}, {@link ForbiddenError}) are re-thrown as is
+   * so the caller can render the matching state.
+   *
+   * @param id The ID of the problem to fetch.
+   * @param context Optional request context (e.g. to report errors without the global toast).
+   * @returns Observable emitting the {@link Problem}.
+   */
+  public override fetchProblem(id: number, context?: HttpContext): Observable<Problem> {
+    const url: string = `/problem/${id}?includeCreator=true&includeAuthorizations=true`;
+    return this.httpClient.get<any>(url, { context }).pipe(
+      map((backendProblem: any) => this.mapProblem(backendProblem)),
+      catchError((error: unknown) => {
+        console.log(error);
+        return throwError(() => error instanceof AppError ? error : new Error('Failed to fetch problem'));
+      })
     );
   }
 
@@ -28,18 +115,19 @@ export class DBProblemService extends ProblemService {
    * { name: string; description?: string; open: boolean }
    *
    * @param body The creation payload sent to the backend.
+   * @param context Optional request context (e.g. to report errors without the global toast).
    * @returns Observable emitting the created {@link Problem} as returned by the API.
    */
-  public override createProblem(body: { name: string; description?: string; open: boolean }): Observable<Problem> {
+  public override createProblem(body: { name: string; description?: string; open: boolean }, context?: HttpContext): Observable<Problem> {
     const url: string = '/problem';
     console.log('Backend service - sending body:', body);
     const headers: HttpHeaders = new HttpHeaders({
       'Content-Type': 'application/json'
     });
-    return this.httpClient.post<Problem>(url, body, { headers }).pipe(
+    return this.httpClient.post<Problem>(url, body, { headers, context }).pipe(
       catchError((error) => {
         console.log(error);
-        return throwError(() => new Error('Failed to create problem'));
+        return throwError(() => error instanceof AppError ? error : new Error('Failed to create problem'));
       })
     );
   }
@@ -52,49 +140,205 @@ export class DBProblemService extends ProblemService {
    *
    * @param id The ID of the problem to update
    * @param body The {@link UpdateProblemDto} payload with optional fields for partial updates.
+   * @param context Optional request context (e.g. to report errors without the global toast).
    * @returns Observable emitting the updated {@link Problem} as returned by the API.
    */
-  public override updateProblem(id: number, body: UpdateProblemDto): Observable<Problem> {
+  public override updateProblem(id: number, body: UpdateProblemDto, context?: HttpContext): Observable<Problem> {
     const url: string = `/problem/${id}`;
     console.log('Backend service - updating problem:', id, 'with body:', body);
     const headers: HttpHeaders = new HttpHeaders({
       'Content-Type': 'application/json'
     });
-    return this.httpClient.patch<Problem>(url, body, { headers }).pipe(
+    return this.httpClient.patch<Problem>(url, body, { headers, context }).pipe(
       catchError((error) => {
         console.log(error);
-        return throwError(() => new Error('Failed to update problem'));
+        return throwError(() => error instanceof AppError ? error : new Error('Failed to update problem'));
       })
     );
   }
 
-  private fetchProblems(
-    url: string,
-    errorMessage: string
-  ): Observable<Problem[]> {
+  /**
+   * Delete a {@link Problem} by DELETEing it on the API.
+   *
+   * @param id The ID of the problem to delete
+   * @param context Optional request context (e.g. to report errors without the global toast)
+   * @returns Observable that completes when the problem is deleted
+   */
+  public override deleteProblem(id: number, context?: HttpContext): Observable<void> {
+    const url: string = `/problem/${id}`;
+    console.log('Backend service - deleting problem:', id);
+    const headers: HttpHeaders = new HttpHeaders({
+      'Content-Type': 'application/json'
+    });
+    return this.httpClient.delete<void>(url, { headers, context }).pipe(
+      catchError((error: unknown) => {
+        console.log(error);
+        return throwError(() => error instanceof AppError ? error : new Error('Failed to delete problem'));
+      })
+    );
+  }
+
+  /**
+   * Archive a {@link Problem} by POSTing to its archive endpoint.
+   *
+   * @param id The ID of the problem to archive
+   * @returns Observable emitting the archived {@link Problem}
+   */
+  public override archiveProblem(id: number): Observable<Problem> {
+    return this.postArchiveAction(id, 'archive', 'Failed to archive problem');
+  }
+
+  /**
+   * Restore an archived {@link Problem} by POSTing to its unarchive endpoint.
+   *
+   * @param id The ID of the problem to restore
+   * @returns Observable emitting the restored {@link Problem}
+   */
+  public override unarchiveProblem(id: number): Observable<Problem> {
+    return this.postArchiveAction(id, 'unarchive', 'Failed to unarchive problem');
+  }
+
+  /**
+   * POSTs an archive/unarchive action for a problem.
+   *
+   * @param id The ID of the problem
+   * @param action The action endpoint
+   * @param errorMessage The message of the error raised on failure
+   * @returns Observable emitting the updated {@link Problem}
+   */
+  private postArchiveAction(id: number, action: 'archive' | 'unarchive', errorMessage: string): Observable<Problem> {
+    const url: string = `/problem/${id}/${action}`;
+    console.log(`Backend service - ${action} problem:`, id);
+    const headers: HttpHeaders = new HttpHeaders({
+      'Content-Type': 'application/json'
+    });
+    return this.httpClient.post<any>(url, {}, { headers }).pipe(
+      map((backendProblem: any) => this.mapProblem(backendProblem)),
+      catchError((error: unknown) => {
+        console.log(error);
+        return throwError(() => error instanceof AppError ? error : new Error(errorMessage));
+      })
+    );
+  }
+
+  /**
+   * Fetch the comments of a {@link Problem}.
+   *
+   * @param problemId The ID of the problem
+   * @returns Observable emitting the {@link Comment}s, oldest first
+   */
+  public override fetchComments(problemId: number): Observable<Comment[]> {
+    const url: string = `/problem/${problemId}/comments`;
     return this.httpClient.get<any[]>(url).pipe(
-      map((backendProblems: any[]) => {
-        return backendProblems.map((backendProblem: any) => {
-          const problem: Problem = {
-            id: backendProblem.id,
-            name: backendProblem.name,
-            description: backendProblem.description,
-            status: backendProblem.status,
-            open: backendProblem.open,
-            creationDate: backendProblem.creationDate,
-            creator: backendProblem.creator,
-            groupAuthorizations: this.mapGroupAuthorizations(backendProblem.groupAuthorizations || [])
-          };
-          return problem;
-        });
-      }),
-      catchError((error) => {
+      map((backendComments: any[]) => backendComments.map((backendComment: any) => this.mapComment(backendComment))),
+      catchError((error: unknown) => {
         console.log(error);
-        return throwError(() => new Error(errorMessage));
+        return throwError(() => error instanceof AppError ? error : new Error('Failed to fetch comments'));
+      })
+    );
+  }
+
+  /**
+   * Add a {@link Comment} to a problem by POSTing it to the API (the author is the current user).
+   *
+   * @param problemId The ID of the problem
+   * @param content The markdown content
+   * @param parentId The ID of the comment replied to, or null for a top-level comment
+   * @returns Observable emitting the created {@link Comment}
+   */
+  public override addComment(problemId: number, content: string, parentId: number | null): Observable<Comment> {
+    const url: string = `/problem/${problemId}/comments`;
+    const headers: HttpHeaders = new HttpHeaders({
+      'Content-Type': 'application/json'
+    });
+    return this.httpClient.post<any>(url, { content, parentId }, { headers }).pipe(
+      map((backendComment: any) => this.mapComment(backendComment)),
+      catchError((error: unknown) => {
+        console.log(error);
+        return throwError(() => error instanceof AppError ? error : new Error('Failed to add comment'));
+      })
+    );
+  }
+
+  /**
+   * Edit a {@link Comment} by PATCHing its content.
+   *
+   * @param problemId The ID of the problem
+   * @param commentId The ID of the comment
+   * @param content The new markdown content
+   * @returns Observable emitting the updated {@link Comment}
+   */
+  public override updateComment(problemId: number, commentId: number, content: string): Observable<Comment> {
+    const url: string = `/problem/${problemId}/comments/${commentId}`;
+    const headers: HttpHeaders = new HttpHeaders({
+      'Content-Type': 'application/json'
+    });
+    return this.httpClient.patch<any>(url, { content }, { headers }).pipe(
+      map((backendComment: any) => this.mapComment(backendComment)),
+      catchError((error: unknown) => {
+        console.log(error);
+        return throwError(() => error instanceof AppError ? error : new Error('Failed to update comment'));
       })
     );
   }
 
+  /**
+   * Delete a {@link Comment} (and its replies) on the API.
+   *
+   * @param problemId The ID of the problem
+   * @param commentId The ID of the comment
+   * @returns Observable that completes when the comment is deleted
+   */
+  public override deleteComment(problemId: number, commentId: number): Observable<void> {
+    const url: string = `/problem/${problemId}/comments/${commentId}`;
+    return this.httpClient.delete<void>(url).pipe(
+      catchError((error: unknown) => {
+        console.log(error);
+        return throwError(() => error instanceof AppError ? error : new Error('Failed to delete comment'));
+      })
+    );
+  }
+
+  /**
+   * Maps a backend comment object to the frontend {@link Comment} interface.
+   * 
+   * @param backendComment The backend comment object
+   * @returns The mapped Comment object
+   */
+  private mapComment(backendComment: any): Comment {
+    const comment: Comment = {
+      id: backendComment.id,
+      problemId: backendComment.problemId,
+      parentId: backendComment.parentId ?? null,
+      author: backendComment.author,
+      content: backendComment.content,
+      creationDate: backendComment.creationDate ? new Date(backendComment.creationDate) : undefined,
+      updateDate: backendComment.updateDate ? new Date(backendComment.updateDate) : undefined
+    };
+    return comment;
+  }
+
+  /**
+   * Maps a backend problem object to the frontend {@link Problem} interface.
+   * 
+   * @param backendProblem The backend problem object
+   * @returns The mapped Problem object
+   */
+  private mapProblem(backendProblem: any): Problem {
+    const problem: Problem = {
+      id: backendProblem.id,
+      name: backendProblem.name,
+      description: backendProblem.description,
+      status: backendProblem.status,
+      open: backendProblem.open,
+      creationDate: backendProblem.creationDate,
+      creator: backendProblem.creator,
+      groupAuthorizations: this.mapGroupAuthorizations(backendProblem.groupAuthorizations || []),
+      archived: backendProblem.archived === true
+    };
+    return problem;
+  }
+
   /**
    * Maps backend GroupAuthorization objects to frontend GroupAuthorization interface.
    * Backend uses 'authorization' and 'createdAt', frontend uses 'authorizationLevel' and 'grantedDate'.
@@ -120,9 +364,10 @@ export class DBProblemService extends ProblemService {
    * @param groupId The ID of the group
    * @param problemId The ID of the problem
    * @param authorization The authorization level
+   * @param context Optional request context (e.g. to report errors without the global toast)
    * @returns Observable that completes when the authorization is created
    */
-  public createGroupAuthorization(groupId: number, problemId: number, authorization: Authorization): Observable<void> {
+  public override createGroupAuthorization(groupId: number, problemId: number, authorization: Authorization, context?: HttpContext): Observable<void> {
     const url: string = '/group-authorization';
     const body: CreateGroupAuthorizationDto = {
       groupId: groupId,
@@ -133,10 +378,10 @@ export class DBProblemService extends ProblemService {
     const headers: HttpHeaders = new HttpHeaders({
       'Content-Type': 'application/json'
     });
-    return this.httpClient.post<void>(url, body, { headers }).pipe(
+    return this.httpClient.post<void>(url, body, { headers, context }).pipe(
       catchError((error: unknown) => {
         console.log('Error creating group authorization:', error);
-        return throwError(() => new Error('Failed to create group authorization'));
+        return throwError(() => error instanceof AppError ? error : new Error('Failed to create group authorization'));
       })
     );
   }
@@ -178,18 +423,19 @@ export class DBProblemService extends ProblemService {
    * Deletes a group authorization by its ID.
    * 
    * @param authorizationId The ID of the group authorization to delete
+   * @param context Optional request context (e.g. to report errors without the global toast)
    * @returns Observable that completes when the authorization is deleted
    */
-  public deleteGroupAuthorization(authorizationId: number): Observable<void> {
+  public override deleteGroupAuthorization(authorizationId: number, context?: HttpContext): Observable<void> {
     const url: string = `/group-authorization/${authorizationId}`;
     console.log('Deleting group authorization:', authorizationId);
     const headers: HttpHeaders = new HttpHeaders({
       'Content-Type': 'application/json'
     });
-    return this.httpClient.delete<void>(url, { headers }).pipe(
+    return this.httpClient.delete<void>(url, { headers, context }).pipe(
       catchError((error: unknown) => {
         console.log('Error deleting group authorization:', error);
-        return throwError(() => new Error('Failed to delete group authorization'));
+        return throwError(() => error instanceof AppError ? error : new Error('Failed to delete group authorization'));
       })
     );
   }
@@ -1,11 +1,12 @@
 import { inject, Injectable } from '@angular/core';
-import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { HttpClient, HttpContext, HttpHeaders } from '@angular/common/http';
 import { catchError, map, Observable, throwError } from 'rxjs';
 import { UserDto } from '@shared/dto/user/user.dto';
 import { CreateUserDto } from '@shared/dto/user/create-user.dto';
 import { UpdateUserDto } from '@shared/dto/user/update-user.dto';
 import { User } from '../model/model';
 import { UserService } from './user.service';
+import { AppError } from '../errors/app-error';
 
 @Injectable({ providedIn: 'root' })
 export class DBUserService extends UserService {
@@ -53,9 +54,10 @@ export class DBUserService extends UserService {
    * Uses POST http://localhost:3000/auth/signup
    *
    * @param userData The {@link CreateUserDto} payload for creating a user.
+   * @param context Optional request context (e.g. to display field errors on the form instead of the global toast).
    * @returns Observable emitting the created {@link User} object.
    */
-  public override createUser(userData: CreateUserDto): Observable<User> {
+  public override createUser(userData: CreateUserDto, context?: HttpContext): Observable<User> {
     const url: string = `${this.API_BASE_URL}/auth/signup`;
     console.log('Backend service - creating user:', userData);
     const headers: HttpHeaders = new HttpHeaders({
@@ -68,7 +70,7 @@ export class DBUserService extends UserService {
       password: userData.password,
       admin: userData.admin || false
     };
-    return this.httpClient.post<UserDto>(url, body, { headers }).pipe(
+    return this.httpClient.post<UserDto>(url, body, { headers, context }).pipe(
       map((backendUser: UserDto): User => {
         const user: User = {
           id: backendUser.id,
@@ -82,7 +84,7 @@ export class DBUserService extends UserService {
       }),
       catchError((error: unknown) => {
         console.log('Error creating user:', error);
-        return throwError(() => new Error('Failed to create user'));
+        return throwError(() => error instanceof AppError ? error : new Error('Failed to create user'));
       })
     );
   }
@@ -93,15 +95,16 @@ export class DBUserService extends UserService {
    *
    * @param id The ID of the user to update.
    * @param userData The {@link UpdateUserDto} payload with optional fields for partial updates.
+   * @param context Optional request context (e.g. to display field errors on the form instead of the global toast).
    * @returns Observable emitting the updated {@link User} object.
    */
-  public override updateUser(id: number, userData: UpdateUserDto): Observable<User> {
+  public override updateUser(id: number, userData: UpdateUserDto, context?: HttpContext): Observable<User> {
     const url: string = `${this.API_BASE_URL}/auth/${id}`;
     console.log('Backend service - updating user:', id, 'with data:', userData);
     const headers: HttpHeaders = new HttpHeaders({
       'Content-Type': 'application/json'
     });
-    return this.httpClient.patch<UserDto>(url, userData, { headers }).pipe(
+    return this.httpClient.patch<UserDto>(url, userData, { headers, context }).pipe(
       map((backendUser: UserDto): User => {
         const user: User = {
           id: backendUser.id,
@@ -115,7 +118,7 @@ export class DBUserService extends UserService {
       }),
       catchError((error: unknown) => {
         console.log('Error updating user:', error);
-        return throwError(() => new Error('Failed to update user'));
+        return throwError(() => error instanceof AppError ? error : new Error('Failed to update user'));
       })
     );
   }
@@ -0,0 +1,22 @@
+import { inject, Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+
+import { Group } from '../model/model';
+import { GroupService } from './group.service';
+import { ListStore } from './list-store';
+
+/**
+ * In-memory cache of the group list of the administration page (see {@link ListStore}).
+ */
+@Injectable({ providedIn: 'root' })
+export class GroupStore extends ListStore<Group> {
+  private readonly groupService: GroupService = inject(GroupService);
+
+  constructor() {
+    super();
+  }
+
+  protected override fetchAll(): Observable<Group[]> {
+    return this.groupService.fetchGroups();
+  }
+}
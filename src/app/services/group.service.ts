@@ -4,7 +4,8 @@
  */
 
 import { Injectable } from '@angular/core';
-import { Observable, of } from 'rxjs';
+import { HttpContext } from '@angular/common/http';
+import { map, Observable, of } from 'rxjs';
 import { CreateGroupDto } from '@shared/dto/group/create-group.dto';
 import { UpdateGroupDto } from '@shared/dto/group/update-group.dto';
 import { Group } from '../model/model';
@@ -32,14 +33,30 @@ export class GroupService {
     return of(mockGroups);
   }
 
+  /**
+   * Fetches the groups a user is a member of.
+   * Base mock implementation used in development without a backend.
+   *
+   * @param userId The ID of the member.
+   * @param context Optional request context (e.g. to skip the global error toast).
+   * @returns An observable emitting an array of {@link Group} objects.
+   */
+  public fetchGroupsOfMember(userId: number, context?: HttpContext): Observable<Group[]> {
+    // Mock implementation - will be overridden by backend service
+    return this.fetchGroups().pipe(
+      map((groups: Group[]) => groups.filter((group: Group) => group.memberIds?.includes(userId) === true))
+    );
+  }
+
   /**
    * Creates a new group.
    * Base mock implementation used in development without a backend.
    *
    * @param group The {@link CreateGroupDto} payload for creating a group.
+   * @param context Optional request context (e.g. to display field errors on the form instead of the global toast).
    * @returns An observable emitting the created {@link Group} object.
    */
-  public createGroup(group: CreateGroupDto): Observable<Group> {
+  public createGroup(group: CreateGroupDto, context?: HttpContext): Observable<Group> {
     // Mock implementation - will be overridden by backend service
     const createdGroup: Group = {
       id: Date.now(),
@@ -56,9 +73,10 @@ export class GroupService {
    *
    * @param id The ID of the group to update.
    * @param group The {@link UpdateGroupDto} payload with optional fields for partial updates.
+   * @param context Optional request context (e.g. to display field errors on the form instead of the global toast).
    * @returns An observable emitting the updated {@link Group} object.
    */
-  public updateGroup(id: number, group: UpdateGroupDto): Observable<Group> {
+  public updateGroup(id: number, group: UpdateGroupDto, context?: HttpContext): Observable<Group> {
     // Mock implementation - will be overridden by backend service
     const updatedGroup: Group = {
       id: id,
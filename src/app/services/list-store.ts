@@ -0,0 +1,116 @@
+import { Signal, signal, WritableSignal } from '@angular/core';
+import { Observable, Subscription } from 'rxjs';
+
+/**
+ * Default duration after which a loaded list is considered stale (5 minutes).
+ */
+export const DEFAULT_LIST_MAX_AGE_MS: number = 5 * 60 * 1000;
+
+/**
+ * Signal-based in-memory cache of an entity list.
+ *
+ * @remarks
+ * The list is fetched once and kept in {@link ListStore#items}; components derive their filtered and
+ * sorted views with `computed` signals, so sorting and filtering never hit the backend.
+ * The list is fetched again only on {@link ListStore#refresh} (explicit refresh, after a mutation),
+ * or by {@link ListStore#load} when it is stale or was loaded for another scope (e.g. another user).
+ *
+ * Subclasses provide the fetch call (typically an injectable store wrapping a data service).
+ */
+export abstract class ListStore<T> {
+  private readonly itemsSignal: WritableSignal<T[] | undefined> = signal<T[] | undefined>(undefined);
+  private readonly loadingSignal: WritableSignal<boolean> = signal<boolean>(false);
+  private readonly errorSignal: WritableSignal<unknown> = signal<unknown>(null);
+
+  /**
+   * Cached items, undefined until the first successful load.
+   */
+  public readonly items: Signal<T[] | undefined> = this.itemsSignal.asReadonly();
+
+  /**
+   * Whether a fetch is in progress.
+   */
+  public readonly loading: Signal<boolean> = this.loadingSignal.asReadonly();
+
+  /**
+   * Error of the last fetch, null when it succeeded.
+   */
+  public readonly error: Signal<unknown> = this.errorSignal.asReadonly();
+
+  private loadedAt: number | null = null;
+  private loadedScope: unknown = null;
+  private fetchSubscription: Subscription | null = null;
+
+  /**
+   * @param maxAgeMs Duration after which the cached list is considered stale.
+   */
+  protected constructor(private readonly maxAgeMs: number = DEFAULT_LIST_MAX_AGE_MS) {}
+
+  /**
+   * Fetches the full list from the backend.
+   */
+  protected abstract fetchAll(): Observable<T[]>;
+
+  /**
+   * Key of the data scope the list belongs to (e.g. the current user ID); the cache is not reused across scopes.
+   */
+  protected getScope(): unknown {
+    return null;
+  }
+
+  /**
+   * Loads the list unless a fresh copy is already cached (or being fetched).
+   */
+  public load(): void {
+    if (this.loadingSignal() === true || this.isStale() === false) {
+      return;
+    }
+    this.refresh();
+  }
+
+  /**
+   * Fetches the list again, regardless of the cache (explicit refresh, after a mutation).
+   */
+  public refresh(): void {
+    this.fetchSubscription?.unsubscribe();
+    const scope: unknown = this.getScope();
+    if (scope !== this.loadedScope) {
+      // Never show the list of another scope while the new one is loading
+      this.itemsSignal.set(undefined);
+    }
+    this.loadingSignal.set(true);
+    this.fetchSubscription = this.fetchAll().subscribe({
+      next: (items: T[]): void => {
+        this.itemsSignal.set(items);
+        this.errorSignal.set(null);
+        this.loadedAt = Date.now();
+        this.loadedScope = scope;
+      },
+      error: (error: unknown): void => {
+        console.error('Error loading list:', error);
+        this.errorSignal.set(error);
+        this.loadingSignal.set(false);
+      },
+      complete: (): void => {
+        this.loadingSignal.set(false);
+      }
+    });
+  }
+
+  /**
+   * Marks the cached list as stale: the next {@link ListStore#load} fetches it again.
+   */
+  public invalidate(): void {
+    this.loadedAt = null;
+  }
+
+  /**
+   * Whether the cached list must be fetched again.
+   */
+  public isStale(): boolean {
+    if (this.loadedAt === null || this.getScope() !== this.loadedScope) {
+      return true;
+    }
+    return Date.now() - this.loadedAt > this.maxAgeMs;
+  }
+}
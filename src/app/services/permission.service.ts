@@ -0,0 +1,183 @@
+import { inject, Injectable, Signal } from '@angular/core';
+import { HttpContext } from '@angular/common/http';
+import { toObservable, toSignal } from '@angular/core/rxjs-interop';
+import { catchError, map, Observable, of, switchMap } from 'rxjs';
+import { Authorization } from '@shared/dto/group/authorization.enum';
+import { UserDto } from '@shared/dto/user/user.dto';
+
+import { Comment, Group, Problem, User } from '../model/model';
+import { AuthService } from './auth.service';
+import { GroupService } from './group.service';
+import { SKIP_ERROR_NOTIFICATION } from '../interceptors/skip-error-notification.token';
+import { isPublicProblem } from '../utils/problem-visibility-labels';
+
+/**
+ * Rank of each authorization level, a higher rank granting more rights.
+ */
+const AUTHORIZATION_RANK: Readonly<Record<Authorization, number>> = {
+  [Authorization.READER]: 1,
+  [Authorization.CONTRIBUTOR]: 2,
+  [Authorization.ADMINISTRATOR]: 3
+};
+
+/**
+ * Checks whether a user carries its group memberships (whoami may include them).
+ */
+function hasGroups(user: UserDto): user is UserDto & { groups: Group[] } {
+  return 'groups' in user && Array.isArray(user.groups);
+}
+
+/**
+ * Computes the rights of the current user on problems.
+ *
+ * @remarks
+ * The effective level on a problem is the highest {@link Authorization} granted by the problem's
+ * `groupAuthorizations` to a group the user is a member of. Application administrators and the
+ * problem creator are administrators of the problem; public problems can be read by everyone.
+ */
+@Injectable({ providedIn: 'root' })
+export class PermissionService {
+  private readonly authService: AuthService = inject(AuthService);
+  private readonly groupService: GroupService = inject(GroupService);
+
+  /**
+   * IDs of the groups the current user is a member of, reloaded when the current user changes.
+   */
+  private readonly memberGroupIds: Signal<ReadonlySet<number>> = toSignal(
+    toObservable(this.authService.currentUser).pipe(
+      switchMap((user: UserDto | null) => this.loadMemberGroupIds(user))
+    ),
+    { initialValue: new Set<number>() }
+  );
+
+  /**
+   * Returns the effective authorization level of the current user on a problem.
+   *
+   * @param problem The problem
+   * @returns The highest granted level, or null when the user has no right on the problem
+   */
+  public getEffectiveAuthorization(problem: Problem): Authorization | null {
+    const user: UserDto | null = this.authService.currentUser();
+    if (user === null || user.id === undefined || user.id === null) {
+      return null;
+    }
+    if (user.admin === true || this.isCreator(problem.creator, user.id)) {
+      return Authorization.ADMINISTRATOR;
+    }
+    const memberGroupIds: ReadonlySet<number> = this.memberGroupIds();
+    let effective: Authorization | null = isPublicProblem(problem.open) ? Authorization.READER : null;
+    for (const groupAuthorization of problem.groupAuthorizations ?? []) {
+      const level: Authorization | undefined = groupAuthorization.authorizationLevel;
+      const groupId: number | undefined = groupAuthorization.group?.id;
+      if (level === undefined || groupId === undefined || memberGroupIds.has(groupId) === false) {
+        continue;
+      }
+      if (effective === null || AUTHORIZATION_RANK[level] > AUTHORIZATION_RANK[effective]) {
+        effective = level;
+      }
+    }
+    return effective;
+  }
+
+  /**
+   * Checks whether the current user has at least the given level on a problem.
+   *
+   * @param problem The problem
+   * @param required The minimum level
+   * @returns True if the effective level is at least `required`
+   */
+  public hasAuthorization(problem: Problem, required: Authorization): boolean {
+    const effective: Authorization | null = this.getEffectiveAuthorization(problem);
+    return effective !== null && AUTHORIZATION_RANK[effective] >= AUTHORIZATION_RANK[required];
+  }
+
+  /**
+   * Whether the current user can edit the name, description and visibility of a problem.
+   */
+  public canEdit(problem: Problem): boolean {
+    return this.hasAuthorization(problem, Authorization.CONTRIBUTOR);
+  }
+
+  /**
+   * Whether the current user can change the status of a problem.
+   */
+  public canChangeStatus(problem: Problem): boolean {
+    return this.hasAuthorization(problem, Authorization.CONTRIBUTOR);
+  }
+
+  /**
+   * Whether the current user can grant or revoke group authorizations on a problem.
+   */
+  public canManageAuthorizations(problem: Problem): boolean {
+    return this.hasAuthorization(problem, Authorization.ADMINISTRATOR);
+  }
+
+  /**
+   * Whether the current user can archive, restore or delete a problem.
+   */
+  public canDelete(problem: Problem): boolean {
+    return this.hasAuthorization(problem, Authorization.ADMINISTRATOR);
+  }
+
+  /**
+   * Whether the current user can comment a problem (any level, readers included).
+   */
+  public canComment(problem: Problem): boolean {
+    return this.getEffectiveAuthorization(problem) !== null;
+  }
+
+  /**
+   * Whether the current user can edit or delete a comment: its author or an administrator of the problem.
+   */
+  public canModerateComment(problem: Problem, comment: Comment): boolean {
+    const userId: number | null = this.authService.getCurrentUserId();
+    if (userId !== null && comment.author?.id === userId) {
+      return true;
+    }
+    return this.hasAuthorization(problem, Authorization.ADMINISTRATOR);
+  }
+
+  /**
+   * Checks whether a user is the creator of a problem.
+   */
+  private isCreator(creator: User | undefined, userId: number): boolean {
+    return creator !== undefined && creator.id === userId;
+  }
+
+  /**
+   * Loads the IDs of the groups a user is a member of (empty when signed out or when the groups cannot be loaded).
+   * Uses the groups carried by the whoami user when present, otherwise only fetches the groups of that member.
+   *
+   * @param user The current user
+   * @returns Observable emitting the group IDs
+   */
+  private loadMemberGroupIds(user: UserDto | null): Observable<ReadonlySet<number>> {
+    if (user === null || user.id === undefined || user.id === null) {
+      return of(new Set<number>());
+    }
+    const userId: number = user.id;
+    if (hasGroups(user)) {
+      return of(this.toGroupIds(user.groups));
+    }
+    // Missing memberships only hide actions, so the failure must not raise the global toast.
+    const context: HttpContext = new HttpContext().set(SKIP_ERROR_NOTIFICATION, true);
+    return this.groupService.fetchGroupsOfMember(userId, context).pipe(
+      map((groups: Group[]) => this.toGroupIds(groups)),
+      catchError((error: unknown) => {
+        console.log('Failed to load group memberships', error);
+        return of(new Set<number>());
+      })
+    );
+  }
+
+  /**
+   * Returns the IDs of a list of groups.
+   */
+  private toGroupIds(groups: Group[]): ReadonlySet<number> {
+    return new Set<number>(
+      groups
+        .map((group: Group) => group.id)
+        .filter((groupId: number | undefined): groupId is number => groupId !== undefined)
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { inject, Injectable } from '@angular/core';
+
+import { GroupAuthorization, Problem, ProblemDraft } from '../model';
+import { AuthService } from './auth.service';
+
+/**
+ * Number of days after which a draft is no longer offered for restore.
+ */
+export const PROBLEM_DRAFT_MAX_AGE_DAYS: number = 30;
+
+/**
+ * Drafts of the problem form, so that edits survive a closed tab or an expired session.
+ *
+ * @remarks
+ * Drafts are stored in the browser `localStorage`, under a key per user and per problem
+ * (`new` when creating a problem).
+ */
+@Injectable({ providedIn: 'root' })
+export class ProblemDraftService {
+  private readonly authService: AuthService = inject(AuthService);
+  private readonly STORAGE_KEY_PREFIX: string = 'problem-draft';
+
+  /**
+   * Read the draft of a problem; unreadable or expired drafts are removed.
+   *
+   * @param problemId The ID of the problem (null when creating a problem).
+   * @returns The {@link ProblemDraft}, or null when there is none.
+   */
+  public loadDraft(problemId: number | null): ProblemDraft | null {
+    const key: string = this.getStorageKey(problemId);
+    const storedDraft: string | null = localStorage.getItem(key);
+    if (storedDraft === null) {
+      return null;
+    }
+    try {
+      const draft: ProblemDraft = JSON.parse(storedDraft) as ProblemDraft;
+      const age: number = Date.now() - new Date(draft.savedAt).getTime();
+      if (Number.isNaN(age) || age > PROBLEM_DRAFT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000) {
+        localStorage.removeItem(key);
+        return null;
+      }
+      return {
+        ...draft,
+        groupAuthorizations: (draft.groupAuthorizations ?? []).map((authorization: GroupAuthorization) => ({
+          ...authorization,
+          grantedDate: authorization.grantedDate ? new Date(authorization.grantedDate) : undefined
+        }))
+      };
+    } catch (error: unknown) {
+      console.warn('Ignoring unreadable problem draft:', error);
+      localStorage.removeItem(key);
+      return null;
+    }
+  }
+
+  /**
+   * Save the draft of a problem, replacing the previous one.
+   *
+   * @param draft The draft; its group authorizations are stored without the group members.
+   */
+  public saveDraft(draft: ProblemDraft): void {
+    const storedDraft: ProblemDraft = {
+      ...draft,
+      groupAuthorizations: draft.groupAuthorizations.map((authorization: GroupAuthorization) => ({
+        id: authorization.id,
+        group: authorization.group ? { id: authorization.group.id, name: authorization.group.name } : undefined,
+        authorizationLevel: authorization.authorizationLevel,
+        grantedDate: authorization.grantedDate
+      }))
+    };
+    try {
+      localStorage.setItem(this.getStorageKey(draft.problemId), JSON.stringify(storedDraft));
+    } catch (error: unknown) {
+      // Storage full or disabled: the form still works, without draft
+      console.warn('Could not save problem draft:', error);
+    }
+  }
+
+  /**
+   * Remove the draft of a problem.
+   *
+   * @param problemId The ID of the problem (null when creating a problem).
+   */
+  public clearDraft(problemId: number | null): void {
+    localStorage.removeItem(this.getStorageKey(problemId));
+  }
+
+  /**
+   * Compute the fingerprint of the server copy of a problem, to detect changes made since a draft was started.
+   *
+   * @param problem The problem as returned by the backend.
+   * @returns A string that changes whenever an editable field of the problem changes.
+   */
+  public getFingerprint(problem: Problem): string {
+    const authorizations: string[] = (problem.groupAuthorizations ?? [])
+      .map((authorization: GroupAuthorization) => `${authorization.group?.id}:${authorization.authorizationLevel}`)
+      .sort();
+    return JSON.stringify([problem.name ?? null, problem.description ?? null, problem.status ?? null, problem.open ?? null, authorizations]);
+  }
+
+  private getStorageKey(problemId: number | null): string {
+    return `${this.STORAGE_KEY_PREFIX}:${this.authService.getCurrentUserId() ?? 'anonymous'}:${problemId ?? 'new'}`;
+  }
+}
@@ -0,0 +1,133 @@
+import { inject, Injectable, Signal, signal, WritableSignal } from '@angular/core';
+import { Subscription } from 'rxjs';
+
+import { PagedResult, Problem, ProblemQuery } from '../model';
+import { AuthService } from './auth.service';
+import { DEFAULT_LIST_MAX_AGE_MS } from './list-store';
+import { ProblemService } from './problem.service';
+
+/**
+ * A cached page and when it was fetched.
+ */
+interface CachedPage {
+  readonly result: PagedResult<Problem>;
+  readonly loadedAt: number;
+}
+
+/**
+ * Signal-based store of the problem list page currently displayed.
+ *
+ * @remarks
+ * Sorting, filtering and paging are done by the backend (see {@link ProblemService#fetchProblemsOfUserGroups}).
+ * Fetched pages are cached per query, so going back to a page or a filter already seen does not hit the backend
+ * until the cache is stale, explicitly refreshed, or invalidated after a mutation.
+ * It does not extend {@link ListStore}, which caches a whole list filtered in memory (users, groups).
+ */
+@Injectable({ providedIn: 'root' })
+export class ProblemStore {
+  private readonly problemService: ProblemService = inject(ProblemService);
+  private readonly authService: AuthService = inject(AuthService);
+
+  private readonly querySignal: WritableSignal<ProblemQuery | null> = signal<ProblemQuery | null>(null);
+  private readonly pageSignal: WritableSignal<PagedResult<Problem> | undefined> = signal<PagedResult<Problem> | undefined>(undefined);
+  private readonly loadingSignal: WritableSignal<boolean> = signal<boolean>(false);
+  private readonly errorSignal: WritableSignal<unknown> = signal<unknown>(null);
+
+  /**
+   * Query of the displayed page.
+   */
+  public readonly query: Signal<ProblemQuery | null> = this.querySignal.asReadonly();
+
+  /**
+   * Displayed page, undefined until the first page is loaded.
+   */
+  public readonly page: Signal<PagedResult<Problem> | undefined> = this.pageSignal.asReadonly();
+
+  /**
+   * Whether a page is being fetched.
+   */
+  public readonly loading: Signal<boolean> = this.loadingSignal.asReadonly();
+
+  /**
+   * Error of the last fetch, null when it succeeded.
+   */
+  public readonly error: Signal<unknown> = this.errorSignal.asReadonly();
+
+  private readonly cache: Map<string, CachedPage> = new Map<string, CachedPage>();
+  private cacheScope: number | null = null;
+  private fetchSubscription: Subscription | null = null;
+
+  /**
+   * Displays the page matching a query, from the cache when it is still fresh.
+   *
+   * @param query The page, sort and filters
+   */
+  public load(query: ProblemQuery): void {
+    this.querySignal.set(query);
+    this.checkScope();
+    const cached: CachedPage | undefined = this.cache.get(this.toCacheKey(query));
+    if (cached !== undefined && Date.now() - cached.loadedAt <= DEFAULT_LIST_MAX_AGE_MS) {
+      this.fetchSubscription?.unsubscribe();
+      this.loadingSignal.set(false);
+      this.pageSignal.set(cached.result);
+      return;
+    }
+    this.fetch(query);
+  }
+
+  /**
+   * Fetches the displayed page again (explicit refresh, after a mutation); other cached pages are dropped.
+   */
+  public refresh(): void {
+    this.cache.clear();
+    const query: ProblemQuery | null = this.querySignal();
+    if (query !== null) {
+      this.fetch(query);
+    }
+  }
+
+  /**
+   * Drops the cached pages: the next {@link ProblemStore#load} fetches from the backend.
+   */
+  public invalidate(): void {
+    this.cache.clear();
+  }
+
+  private fetch(query: ProblemQuery): void {
+    this.fetchSubscription?.unsubscribe();
+    this.loadingSignal.set(true);
+    this.fetchSubscription = this.problemService.fetchProblemsOfUserGroups(query).subscribe({
+      next: (result: PagedResult<Problem>): void => {
+        this.cache.set(this.toCacheKey(query), { result, loadedAt: Date.now() });
+        this.pageSignal.set(result);
+        this.errorSignal.set(null);
+      },
+      error: (error: unknown): void => {
+        console.error('Error loading problems:', error);
+        // The previous page does not match the new query, so it must not stay displayed
+        this.pageSignal.set(undefined);
+        this.errorSignal.set(error);
+        this.loadingSignal.set(false);
+      },
+      complete: (): void => {
+        this.loadingSignal.set(false);
+      }
+    });
+  }
+
+  /**
+   * Drops the cache when the user changed (the list depends on the groups of the current user).
+   */
+  private checkScope(): void {
+    const scope: number | null = this.authService.getCurrentUserId();
+    if (scope !== this.cacheScope) {
+      this.cache.clear();
+      this.pageSignal.set(undefined);
+      this.cacheScope = scope;
+    }
+  }
+
+  private toCacheKey(query: ProblemQuery): string {
+    return JSON.stringify(query);
+  }
+}
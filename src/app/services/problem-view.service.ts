@@ -0,0 +1,177 @@
+import { inject, Injectable } from '@angular/core';
+import { Observable, of, throwError } from 'rxjs';
+
+import { ProblemViewFilters, SavedProblemView } from '../model';
+import { NotFoundError } from '../errors/not-found-error';
+import { ValidationError } from '../errors/validation-error';
+import { AuthService } from './auth.service';
+
+/**
+ * Maximum number of characters of a view name.
+ */
+export const PROBLEM_VIEW_NAME_MAX_LENGTH: number = 60;
+
+/**
+ * Saved views of the problem list (named filter and sort combinations), per user.
+ *
+ * @remarks
+ * Base implementation storing the views in the browser `localStorage`, under a key per user.
+ * {@link DBProblemViewService} uses the backend endpoint when it is available.
+ */
+@Injectable({ providedIn: 'root' })
+export class ProblemViewService {
+  protected readonly authService: AuthService = inject(AuthService);
+  private readonly STORAGE_KEY_PREFIX: string = 'problem-views';
+
+  /**
+   * Fetch the saved views of the current user.
+   *
+   * @returns An observable emitting the {@link SavedProblemView}s, in creation order.
+   */
+  public fetchViews(): Observable<SavedProblemView[]> {
+    return of(this.readStoredViews());
+  }
+
+  /**
+   * Save a new view.
+   *
+   * @param name The view name, unique per user.
+   * @param filters The filter and sort settings of the view.
+   * @returns An observable emitting the created {@link SavedProblemView}, or failing with a {@link ValidationError}.
+   */
+  public createView(name: string, filters: ProblemViewFilters): Observable<SavedProblemView> {
+    const views: SavedProblemView[] = this.readStoredViews();
+    const error: ValidationError | null = this.validateName(name, views, null, 'POST');
+    if (error !== null) {
+      return throwError(() => error);
+    }
+    const view: SavedProblemView = {
+      id: views.reduce((maxId: number, candidate: SavedProblemView) => Math.max(maxId, candidate.id), 0) + 1,
+      name: name.trim(),
+      filters,
+      isDefault: false
+    };
+    this.writeStoredViews([...views, view]);
+    return of(view);
+  }
+
+  /**
+   * Rename a view.
+   *
+   * @param id The ID of the view.
+   * @param name The new name, unique per user.
+   * @returns An observable emitting the renamed {@link SavedProblemView}, or failing with a
+   * {@link NotFoundError} or a {@link ValidationError}.
+   */
+  public renameView(id: number, name: string): Observable<SavedProblemView> {
+    const views: SavedProblemView[] = this.readStoredViews();
+    const view: SavedProblemView | undefined = views.find((candidate: SavedProblemView) => candidate.id === id);
+    if (view === undefined) {
+      return throwError(() => this.createNotFoundError(id, 'PATCH'));
+    }
+    const error: ValidationError | null = this.validateName(name, views, id, 'PATCH');
+    if (error !== null) {
+      return throwError(() => error);
+    }
+    view.name = name.trim();
+    this.writeStoredViews(views);
+    return of(view);
+  }
+
+  /**
+   * Delete a view.
+   *
+   * @param id The ID of the view.
+   * @returns An observable completing once the view is deleted, or failing with a {@link NotFoundError}.
+   */
+  public deleteView(id: number): Observable<void> {
+    const views: SavedProblemView[] = this.readStoredViews();
+    if (views.some((candidate: SavedProblemView) => candidate.id === id) === false) {
+      return throwError(() => this.createNotFoundError(id, 'DELETE'));
+    }
+    this.writeStoredViews(views.filter((candidate: SavedProblemView) => candidate.id !== id));
+    return of(undefined);
+  }
+
+  /**
+   * Mark a view as the default one (the previous default view, if any, is unmarked).
+   *
+   * @param id The ID of the view, or null to open the problem list without a default view.
+   * @returns An observable completing once the default view is saved, or failing with a {@link NotFoundError}.
+   */
+  public setDefaultView(id: number | null): Observable<void> {
+    const views: SavedProblemView[] = this.readStoredViews();
+    if (id !== null && views.some((candidate: SavedProblemView) => candidate.id === id) === false) {
+      return throwError(() => this.createNotFoundError(id, 'PUT'));
+    }
+    this.writeStoredViews(views.map((view: SavedProblemView) => ({ ...view, isDefault: view.id === id })));
+    return of(undefined);
+  }
+
+  /**
+   * Checks that a view name is set, not too long, and not used by another view.
+   */
+  protected validateName(
+    name: string,
+    views: ReadonlyArray<SavedProblemView>,
+    excludedId: number | null,
+    method: string
+  ): ValidationError | null {
+    const trimmedName: string = name.trim();
+    let message: string | null = null;
+    if (trimmedName === '') {
+      message = $localize`The view name is required.`;
+    } else if (trimmedName.length > PROBLEM_VIEW_NAME_MAX_LENGTH) {
+      message = $localize`The view name is too long.`;
+    } else if (views.some((view: SavedProblemView) => view.id !== excludedId && view.name.toLowerCase() === trimmedName.toLowerCase())) {
+      message = $localize`A view with this name already exists.`;
+    }
+    if (message === null) {
+      return null;
+    }
+    return new ValidationError({
+      status: 400,
+      statusText: 'Bad Request',
+      url: '/problem-view',
+      method,
+      backendBody: null,
+      userMessage: message,
+      fieldErrors: [{ field: 'name', message }]
+    });
+  }
+
+  private createNotFoundError(id: number, method: string): NotFoundError {
+    return new NotFoundError({
+      userMessage: $localize`The requested view does not exist.`,
+      statusText: 'Not Found',
+      url: `/problem-view/${id}`,
+      method,
+      backendBody: null
+    });
+  }
+
+  /**
+   * Reads the views of the current user; unreadable data is ignored.
+   */
+  private readStoredViews(): SavedProblemView[] {
+    const storedViews: string | null = localStorage.getItem(this.getStorageKey());
+    if (storedViews === null) {
+      return [];
+    }
+    try {
+      const views: unknown = JSON.parse(storedViews);
+      return Array.isArray(views) ? views as SavedProblemView[] : [];
+    } catch (error: unknown) {
+      console.warn('Ignoring unreadable saved problem views:', error);
+      return [];
+    }
+  }
+
+  private writeStoredViews(views: ReadonlyArray<SavedProblemView>): void {
+    localStorage.setItem(this.getStorageKey(), JSON.stringify(views));
+  }
+
+  private getStorageKey(): string {
+    return `${this.STORAGE_KEY_PREFIX}:${this.authService.getCurrentUserId() ?? 'anonymous'}`;
+  }
+}
@@ -6,7 +6,7 @@
 */
 
 import { Authorization } from '@shared/dto/group/authorization.enum';
-import { Problem } from '../model';
+import { Comment, Problem } from '../model';
 
 export const problem_list_mock: Problem[] = [
   {
@@ -60,3 +60,22 @@ export const problem_list_mock: Problem[] = [
     ]
   }
 ];
+
+export const comment_list_mock: Comment[] = [
+  {
+    id: 1,
+    problemId: 1,
+    parentId: null,
+    author: { id: 1, firstName: 'Renaud', surname: 'Dupont' },
+    content: 'Reproduit **trois fois** ce matin avec de la confiture de fraise.',
+    creationDate: new Date('2025-01-29T08:30:00')
+  },
+  {
+    id: 2,
+    problemId: 1,
+    parentId: 1,
+    author: { id: 2, firstName: 'Alice', surname: 'Martin' },
+    content: 'Même constat avec le beurre, voir la loi de *Murphy*.',
+    creationDate: new Date('2025-01-29T10:15:00')
+  }
+];
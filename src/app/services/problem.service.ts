@@ -6,23 +6,61 @@
  */
 
 import { inject, Injectable, signal } from '@angular/core';
-import { Problem } from '../model';
-import { problem_list_mock } from './problem.service.mock-data';
-import { catchError, map, Observable, of, tap, throwError } from 'rxjs';
-import { HttpClient } from '@angular/common/http';
+import { Comment, PagedResult, Problem, ProblemQuery } from '../model';
+import { comment_list_mock, problem_list_mock } from './problem.service.mock-data';
+import { catchError, map, Observable, of, switchMap, tap, throwError } from 'rxjs';
+import { HttpClient, HttpContext } from '@angular/common/http';
 import { UpdateProblemDto } from '@shared/dto';
+import { Authorization } from '@shared/dto/group/authorization.enum';
+import { ProblemStatus } from '@shared/dto/problem/problem-status.enum';
+import { NotFoundError } from '../errors/not-found-error';
+import { compareProblemStatuses, toProblemStatus } from '../utils/problem-status-workflow';
+import { getProblemStatusLabel } from '../utils/problem-status-labels';
 
 @Injectable({ providedIn: 'root' })
 export class ProblemService {
   /**
-   * fetch problems which groups of user has authorization to work on
+   * fetch one page of the problems which groups of user has authorization to work on
+   *
+   * Base mock implementation used in development without a backend. It filters, sorts
+   * and pages the mock list the way the backend does.
+   *
+   * @param query The page, sort and filters.
+   * @returns An observable emitting the requested page and the total number of matching problems.
    */
-  public fetchProblemsOfUserGroups(): Observable<Problem[]> {
-    return of(
-      problem_list_mock.sort((a, b) => {
-        return a.id! - b.id!;
-      })
-    );
+  public fetchProblemsOfUserGroups(query: ProblemQuery): Observable<PagedResult<Problem>> {
+    const matching: Problem[] = this.filterAndSortMockProblems(problem_list_mock, query);
+    const start: number = (query.page - 1) * query.pageSize;
+    return of({
+      items: matching.slice(start, start + query.pageSize),
+      total: matching.length,
+      page: query.page,
+      pageSize: query.pageSize
+    });
+  }
+
+  /**
+   * Fetch a single problem by its ID.
+   *
+   * Base mock implementation used in development without a backend. It looks the
+   * problem up in the mock list and fails like the backend would when it is missing.
+   *
+   * @param id The ID of the problem to fetch.
+   * @param context Optional request context (e.g. to report errors without the global toast).
+   * @returns An observable emitting the {@link Problem}, or failing with a {@link NotFoundError}.
+   */
+  public fetchProblem(id: number, context?: HttpContext): Observable<Problem> {
+    const problem: Problem | undefined = problem_list_mock.find((candidate: Problem) => candidate.id === id);
+    if (problem === undefined) {
+      return throwError(() => new NotFoundError({
+        userMessage: $localize`The requested problem does not exist.`,
+        statusText: 'Not Found',
+        url: `/problem/${id}`,
+        method: 'GET',
+        backendBody: null
+      }));
+    }
+    return of(problem);
   }
 
   /**
@@ -36,9 +74,10 @@ export class ProblemService {
    * name, an optional description, and a boolean flag for visibility.
    * - When `open` is `true`, visibility is interpreted as 'Public'.
    * - When `open` is `false`, visibility is interpreted as 'Private'.
+   * @param context Optional request context (e.g. to report errors without the global toast).
    * @returns An observable emitting the created {@link Problem}.
    */
-  public createProblem(body: { name: string; description?: string; open: boolean }): Observable<Problem> {
+  public createProblem(body: { name: string; description?: string; open: boolean }, context?: HttpContext): Observable<Problem> {
     const mockCreated: Problem = {
       id: Math.floor(Math.random() * 100000),
       name: body.name,
@@ -59,9 +98,10 @@ export class ProblemService {
    * - When `open` is `true`, visibility is interpreted as 'Public'.
    * - When `open` is `false`, visibility is interpreted as 'Private'.
    * - All fields are optional, allowing partial updates.
+   * @param context Optional request context (e.g. to report errors without the global toast).
    * @returns An observable emitting the updated {@link Problem}.
    */
-  public updateProblem(id: number, body: UpdateProblemDto): Observable<Problem> {
+  public updateProblem(id: number, body: UpdateProblemDto, context?: HttpContext): Observable<Problem> {
     const mockUpdated: Problem = {
       id: id,
       name: body.name,
@@ -73,30 +113,278 @@ export class ProblemService {
   }
 
   /**
-   * Returns the localized status text based on the current locale.
-   * This method can be reused across different components that display problem statuses.
+   * Update a problem whose status change comes with a reason (e.g. why it is blocked).
+   *
+   * The {@link UpdateProblemDto} has no field for the reason: once the problem is updated, the reason is
+   * recorded as a comment of the problem (see {@link addComment}), so it is kept with the problem history.
+   * A failure to add the comment is reported by the HTTP error interceptor and does not fail the update.
    *
-   * @param status The status value from the backend
-   * @returns The localized status text
+   * @param id The ID of the problem to update.
+   * @param body The {@link UpdateProblemDto} payload (see {@link updateProblem}).
+   * @param statusReason The reason of the status change, or undefined when none is required.
+   * @param context Optional request context of the update (e.g. to report errors without the global toast).
+   * @returns An observable emitting the updated {@link Problem}.
    */
-  public getLocalizedStatus(status: string | undefined): string {
-    if (!status) {
-      return '-';
+  public updateProblemWithReason(id: number, body: UpdateProblemDto, statusReason: string | undefined, context?: HttpContext): Observable<Problem> {
+    const reason: string = statusReason?.trim() ?? '';
+    return this.updateProblem(id, body, context).pipe(
+      switchMap((updated: Problem) => {
+        if (reason === '' || body.status === undefined) {
+          return of(updated);
+        }
+        const content: string = $localize`Status changed to ${getProblemStatusLabel(body.status)}:status:: ${reason}:reason:`;
+        return this.addComment(id, content, null).pipe(
+          map((): Problem => updated),
+          catchError((error: unknown) => {
+            console.log('Failed to record the status reason:', error);
+            return of(updated);
+          })
+        );
+      })
+    );
+  }
+
+  /**
+   * Delete a problem.
+   *
+   * Base mock implementation used in development without a backend. It removes
+   * the problem from the mock list.
+   *
+   * @param id The ID of the problem to delete.
+   * @param context Optional request context (e.g. to report errors without the global toast).
+   * @returns An observable emitting void when the deletion is complete.
+   */
+  public deleteProblem(id: number, context?: HttpContext): Observable<void> {
+    const index: number = problem_list_mock.findIndex((problem: Problem) => problem.id === id);
+    if (index !== -1) {
+      problem_list_mock.splice(index, 1);
     }
+    return of(void 0);
+  }
 
-    switch (status.toLowerCase()) {
-      case 'new':
-        return $localize`New`;
-      case 'in progress':
-        return $localize`In Progress`;
-      case 'blocked':
-        return $localize`Blocked`;
-      case 'resolved':
-        return $localize`Resolved`;
-      case 'closed':
-        return $localize`Closed`;
-      default:
-        return status;
+  /**
+   * Archive a problem: it is kept but hidden from the lists by default.
+   *
+   * Base mock implementation used in development without a backend.
+   *
+   * @param id The ID of the problem to archive.
+   * @returns An observable emitting the archived {@link Problem}.
+   */
+  public archiveProblem(id: number): Observable<Problem> {
+    return this.setMockArchived(id, true);
+  }
+
+  /**
+   * Restore an archived problem.
+   *
+   * Base mock implementation used in development without a backend.
+   *
+   * @param id The ID of the problem to restore.
+   * @returns An observable emitting the restored {@link Problem}.
+   */
+  public unarchiveProblem(id: number): Observable<Problem> {
+    return this.setMockArchived(id, false);
+  }
+
+  /**
+   * Grant a group an authorization on a problem.
+   *
+   * Base mock implementation used in development without a backend. It simulates
+   * the creation without changing the mock list.
+   *
+   * @param groupId The ID of the group.
+   * @param problemId The ID of the problem.
+   * @param authorization The authorization level.
+   * @param context Optional request context (e.g. to report errors without the global toast).
+   * @returns An observable completing once the authorization is created.
+   */
+  public createGroupAuthorization(groupId: number, problemId: number, authorization: Authorization, context?: HttpContext): Observable<void> {
+    return of(void 0);
+  }
+
+  /**
+   * Revoke a group authorization.
+   *
+   * Base mock implementation used in development without a backend. It simulates
+   * the deletion without changing the mock list.
+   *
+   * @param authorizationId The ID of the group authorization.
+   * @param context Optional request context (e.g. to report errors without the global toast).
+   * @returns An observable completing once the authorization is deleted.
+   */
+  public deleteGroupAuthorization(authorizationId: number, context?: HttpContext): Observable<void> {
+    return of(void 0);
+  }
+
+  /**
+   * Fetch the comments of a problem.
+   *
+   * Base mock implementation used in development without a backend.
+   *
+   * @param problemId The ID of the problem.
+   * @returns An observable emitting the {@link Comment}s, oldest first.
+   */
+  public fetchComments(problemId: number): Observable<Comment[]> {
+    return of(comment_list_mock.filter((comment: Comment) => comment.problemId === problemId));
+  }
+
+  /**
+   * Add a comment to a problem.
+   *
+   * Base mock implementation used in development without a backend. The author is not known
+   * here: the backend sets it from the session.
+   *
+   * @param problemId The ID of the problem.
+   * @param content The markdown content of the comment.
+   * @param parentId The ID of the comment replied to, or null for a top-level comment.
+   * @returns An observable emitting the created {@link Comment}.
+   */
+  public addComment(problemId: number, content: string, parentId: number | null): Observable<Comment> {
+    const nextId: number = comment_list_mock.reduce((maxId: number, comment: Comment) => Math.max(maxId, comment.id ?? 0), 0) + 1;
+    const created: Comment = {
+      id: nextId,
+      problemId: problemId,
+      parentId: parentId,
+      content: content,
+      creationDate: new Date()
+    };
+    comment_list_mock.push(created);
+    return of(created);
+  }
+
+  /**
+   * Edit the content of a comment.
+   *
+   * Base mock implementation used in development without a backend.
+   *
+   * @param problemId The ID of the problem.
+   * @param commentId The ID of the comment.
+   * @param content The new markdown content.
+   * @returns An observable emitting the updated {@link Comment}, or failing with a {@link NotFoundError}.
+   */
+  public updateComment(problemId: number, commentId: number, content: string): Observable<Comment> {
+    const comment: Comment | undefined = comment_list_mock.find(
+      (candidate: Comment) => candidate.problemId === problemId && candidate.id === commentId
+    );
+    if (comment === undefined) {
+      return throwError(() => new NotFoundError({
+        userMessage: $localize`The requested comment does not exist.`,
+        statusText: 'Not Found',
+        url: `/problem/${problemId}/comments/${commentId}`,
+        method: 'PATCH',
+        backendBody: null
+      }));
+    }
+    comment.content = content;
+    comment.updateDate = new Date();
+    return of(comment);
+  }
+
+  /**
+   * Delete a comment and its replies.
+   *
+   * Base mock implementation used in development without a backend.
+   *
+   * @param problemId The ID of the problem.
+   * @param commentId The ID of the comment.
+   * @returns An observable emitting void when the deletion is complete.
+   */
+  public deleteComment(problemId: number, commentId: number): Observable<void> {
+    const removedIds: Set<number> = new Set<number>([commentId]);
+    for (let index: number = 0; index < comment_list_mock.length; index++) {
+      const comment: Comment = comment_list_mock[index];
+      if (comment.problemId === problemId && comment.parentId !== null && comment.parentId !== undefined && removedIds.has(comment.parentId) && comment.id !== undefined) {
+        removedIds.add(comment.id);
+      }
+    }
+    for (let index: number = comment_list_mock.length - 1; index >= 0; index--) {
+      const comment: Comment = comment_list_mock[index];
+      if (comment.problemId === problemId && comment.id !== undefined && removedIds.has(comment.id)) {
+        comment_list_mock.splice(index, 1);
+      }
+    }
+    return of(void 0);
+  }
+
+  /**
+   * Filters and sorts mock problems like the backend does.
+   *
+   * @param problems The mock problems.
+   * @param query The sort and filters.
+   * @returns The matching problems, sorted (by ID when no sort is requested).
+   */
+  private filterAndSortMockProblems(problems: Problem[], query: ProblemQuery): Problem[] {
+    const contains = (value: string | undefined, filter: string | undefined): boolean =>
+      !filter || (value ?? '').toLowerCase().includes(filter.toLowerCase());
+    const authorName = (problem: Problem): string =>
+      `${problem.creator?.firstName ?? ''} ${problem.creator?.surname ?? ''}`.trim();
+    const statuses: ProblemStatus[] = (query.statuses ?? [])
+      .map((status: string) => toProblemStatus(status))
+      .filter((status: ProblemStatus | null): status is ProblemStatus => status !== null);
+    const fromDate: Date | null = query.creationDateFrom ? new Date(query.creationDateFrom) : null;
+    const toDate: Date | null = query.creationDateTo ? new Date(query.creationDateTo) : null;
+    toDate?.setHours(23, 59, 59, 999);
+
+    const filteredProblems: Problem[] = problems.filter((problem: Problem) => {
+      const creationDate: Date | null = problem.creationDate ? new Date(problem.creationDate) : null;
+      return (query.includeArchived === true || problem.archived !== true)
+        && contains(problem.name, query.name)
+        && contains(problem.description, query.description)
+        && contains(authorName(problem), query.author)
+        && (statuses.length === 0 || statuses.some((status: ProblemStatus) => status === toProblemStatus(problem.status)))
+        && (!query.group || (problem.groupAuthorizations ?? []).some((auth) => contains(auth.group?.name, query.group)))
+        && (fromDate === null || (creationDate !== null && creationDate >= fromDate))
+        && (toDate === null || (creationDate !== null && creationDate <= toDate));
+    });
+
+    const direction: number = query.sortDirection === 'desc' ? -1 : 1;
+    if (query.sortColumn === 'status') {
+      // Statuses are sorted in workflow order, not alphabetically
+      return filteredProblems.sort((a: Problem, b: Problem) => direction * compareProblemStatuses(a.status, b.status));
+    }
+    const sortValue = (problem: Problem): string | number => {
+      switch (query.sortColumn) {
+        case 'name':
+          return (problem.name ?? '').toLowerCase();
+        case 'description':
+          return (problem.description ?? '').toLowerCase();
+        case 'creationDate':
+          return problem.creationDate ? new Date(problem.creationDate).getTime() : 0;
+        case 'author':
+          return authorName(problem).toLowerCase();
+        default:
+          return problem.id ?? 0;
+      }
+    };
+    return filteredProblems.sort((a: Problem, b: Problem) => {
+      const aValue: string | number = sortValue(a);
+      const bValue: string | number = sortValue(b);
+      if (aValue < bValue) {
+        return -direction;
+      }
+      return aValue > bValue ? direction : 0;
+    });
+  }
+
+  /**
+   * Set the archived flag of a mock problem.
+   *
+   * @param id The ID of the problem.
+   * @param archived The new archived flag.
+   * @returns An observable emitting the updated {@link Problem}, or failing with a {@link NotFoundError}.
+   */
+  private setMockArchived(id: number, archived: boolean): Observable<Problem> {
+    const problem: Problem | undefined = problem_list_mock.find((candidate: Problem) => candidate.id === id);
+    if (problem === undefined) {
+      return throwError(() => new NotFoundError({
+        userMessage: $localize`The requested problem does not exist.`,
+        statusText: 'Not Found',
+        url: `/problem/${id}`,
+        method: 'POST',
+        backendBody: null
+      }));
     }
+    problem.archived = archived;
+    return of(problem);
   }
 }
@@ -0,0 +1,44 @@
+import { Injectable, inject } from '@angular/core';
+import { NgbModal, NgbModalRef } from '@ng-bootstrap/ng-bootstrap';
+import { Observable, from } from 'rxjs';
+import { ReauthenticationDialogComponent } from '../components/Components/Common/reauthentication-dialog.component';
+
+/**
+ * Prompts the user to sign in again when the session expires during an action.
+ *
+ * @remarks
+ * Only one prompt is open at a time: concurrent callers share the outcome of the pending dialog,
+ * so several requests failing with 401 at once result in a single sign-in.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ReauthenticationService {
+  private readonly modalService: NgbModal = inject(NgbModal);
+
+  /**
+   * Outcome of the dialog currently open, or null when no prompt is pending.
+   */
+  private pendingPrompt: Observable<boolean> | null = null;
+
+  /**
+   * Opens the sign-in dialog, or joins the one already open.
+   *
+   * @returns Observable emitting true once the user signed in again, false if they cancelled.
+   */
+  public requestReauthentication(): Observable<boolean> {
+    if (this.pendingPrompt === null) {
+      const modalRef: NgbModalRef = this.modalService.open(ReauthenticationDialogComponent, {
+        backdrop: 'static',
+        keyboard: false
+      });
+      const outcome: Promise<boolean> = modalRef.result
+        .then((): boolean => true, (): boolean => false)
+        .finally((): void => {
+          this.pendingPrompt = null;
+        });
+      this.pendingPrompt = from(outcome);
+    }
+    return this.pendingPrompt;
+  }
+}
@@ -0,0 +1,88 @@
+import { DestroyRef, inject, Injectable } from '@angular/core';
+import { NgbModal, NgbModalRef } from '@ng-bootstrap/ng-bootstrap';
+
+import { HasUnsavedChanges } from '../interfaces/has-unsaved-changes.interface';
+import { ConfirmationDialogComponent } from '../components/Components/Common/confirmation-dialog.component';
+
+/**
+ * Asks the user before unsaved edits are lost, when leaving a form page or dismissing a form modal,
+ * and makes the browser warn before a tab holding unsaved edits is closed or reloaded.
+ */
+@Injectable({ providedIn: 'root' })
+export class UnsavedChangesService {
+  private readonly modalService: NgbModal = inject(NgbModal);
+
+  /**
+   * Components checked when the tab is closed or reloaded.
+   */
+  private readonly watchedComponents: Set<HasUnsavedChanges> = new Set<HasUnsavedChanges>();
+
+  constructor() {
+    window.addEventListener('beforeunload', (event: BeforeUnloadEvent): void => this.onBeforeUnload(event));
+  }
+
+  /**
+   * Makes the browser warn before the tab is closed or reloaded while a component holds unsaved edits.
+   *
+   * @param component The component holding the edits.
+   * @param destroyRef The {@link DestroyRef} of the component, ending the watch when it is destroyed.
+   */
+  public warnBeforeUnload(component: HasUnsavedChanges, destroyRef: DestroyRef): void {
+    this.watchedComponents.add(component);
+    destroyRef.onDestroy((): void => {
+      this.watchedComponents.delete(component);
+    });
+  }
+
+  /**
+   * Resolves whether the edits of a component may be discarded, asking the user when there are any.
+   *
+   * @param component The component holding the edits (null or undefined when it is already destroyed).
+   * @returns A promise resolving to true when there are no edits or the user chose to discard them.
+   */
+  public confirmDiscard(component: HasUnsavedChanges | null | undefined): Promise<boolean> {
+    if (component === null || component === undefined || component.hasUnsavedChanges() === false) {
+      return Promise.resolve(true);
+    }
+    // Blur any focused element to prevent aria-hidden accessibility warning
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+
+    const modalRef: NgbModalRef = this.modalService.open(ConfirmationDialogComponent, {
+      size: 'md',
+      backdrop: 'static',
+      keyboard: false
+    });
+
+    modalRef.componentInstance.initialize(
+      $localize`Unsaved changes`,
+      $localize`You have unsaved changes. Do you want to discard them?`,
+      $localize`Discard changes`,
+      $localize`Keep editing`,
+      'btn-danger',
+      'discard'
+    );
+
+    return modalRef.result.then(
+      (result: string) => {
+        const discard: boolean = result === 'discard';
+        if (discard) {
+          component.discardUnsavedChanges?.();
+        }
+        return discard;
+      },
+      () => false
+    );
+  }
+
+  private onBeforeUnload(event: BeforeUnloadEvent): void {
+    for (const component of this.watchedComponents) {
+      if (component.hasUnsavedChanges()) {
+        event.preventDefault();
+        event.returnValue = '';
+        return;
+      }
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { inject, Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+
+import { User } from '../model/model';
+import { ListStore } from './list-store';
+import { UserService } from './user.service';
+
+/**
+ * In-memory cache of the user list of the administration page (see {@link ListStore}).
+ */
+@Injectable({ providedIn: 'root' })
+export class UserStore extends ListStore<User> {
+  private readonly userService: UserService = inject(UserService);
+
+  constructor() {
+    super();
+  }
+
+  protected override fetchAll(): Observable<User[]> {
+    return this.userService.fetchUsers();
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { Injectable } from '@angular/core';
+import { HttpContext } from '@angular/common/http';
 import { Observable, of } from 'rxjs';
 import { CreateUserDto } from '@shared/dto/user/create-user.dto';
 import { UpdateUserDto } from '@shared/dto/user/update-user.dto';
@@ -45,9 +46,10 @@ export class UserService {
    * Base mock implementation used in development without a backend.
    *
    * @param user The {@link CreateUserDto} payload for creating a user.
+   * @param context Optional request context (e.g. to display field errors on the form instead of the global toast).
    * @returns An observable emitting the created {@link User} object.
    */
-  public createUser(user: CreateUserDto): Observable<User> {
+  public createUser(user: CreateUserDto, context?: HttpContext): Observable<User> {
     // Mock implementation - will be overridden by backend service
     const createdUser: User = {
       id: Date.now(),
@@ -66,9 +68,10 @@ export class UserService {
    *
    * @param id The ID of the user to update.
    * @param user The {@link UpdateUserDto} payload with optional fields for partial updates.
+   * @param context Optional request context (e.g. to display field errors on the form instead of the global toast).
    * @returns An observable emitting the updated {@link User} object.
    */
-  public updateUser(id: number, user: UpdateUserDto): Observable<User> {
+  public updateUser(id: number, user: UpdateUserDto, context?: HttpContext): Observable<User> {
     // Mock implementation - will be overridden by backend service
     const updatedUser: User = {
       id: id,
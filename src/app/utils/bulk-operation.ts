@@ -0,0 +1,94 @@
+/**
+ * Runs one operation per item (e.g. one request per selected problem) with a bounded number of operations
+ * in flight, collecting the outcome of every item instead of stopping at the first failure.
+ */
+
+import { catchError, from, map, mergeMap, Observable, of, reduce, tap } from 'rxjs';
+import { AppError } from '../errors/app-error';
+
+/**
+ * Maximum number of operations running at the same time.
+ */
+export const BULK_OPERATION_CONCURRENCY: number = 4;
+
+/**
+ * Item an operation failed (or was refused) for.
+ */
+export interface BulkItemFailure<T> {
+  readonly item: T;
+  /**
+   * Message safe to show to end users.
+   */
+  readonly message: string;
+}
+
+/**
+ * Outcome of a bulk operation.
+ */
+export interface BulkOperationResult<T> {
+  readonly succeeded: ReadonlyArray<T>;
+  readonly failed: ReadonlyArray<BulkItemFailure<T>>;
+}
+
+/**
+ * Runs an operation for each item, at most `concurrency` at a time.
+ *
+ * @param items The items.
+ * @param operation Returns the operation of an item; its failure is recorded, the other items still run.
+ * @param onItemDone Called after each item, with the number of items done so far (e.g. to display progress).
+ * @param concurrency Maximum number of operations in flight.
+ * @returns An observable emitting the {@link BulkOperationResult} once every operation is done (items keep their order).
+ */
+export function runBulkOperation<T>(
+  items: ReadonlyArray<T>,
+  operation: (item: T) => Observable<unknown>,
+  onItemDone?: (doneCount: number) => void,
+  concurrency: number = BULK_OPERATION_CONCURRENCY
+): Observable<BulkOperationResult<T>> {
+  let doneCount: number = 0;
+  const outcomes: Observable<{ index: number; failure: BulkItemFailure<T> | null }> = from(items.map((item: T, index: number) => ({ item, index }))).pipe(
+    mergeMap(({ item, index }: { item: T; index: number }) => operation(item).pipe(
+      reduce((): null => null, null),
+      map((): { index: number; failure: BulkItemFailure<T> | null } => ({ index, failure: null })),
+      catchError((error: unknown) => {
+        console.error('Bulk operation failed for item:', item, error);
+        return of({ index, failure: { item, message: getBulkErrorMessage(error) } });
+      }),
+      tap(() => onItemDone?.(++doneCount))
+    ), concurrency)
+  );
+  return outcomes.pipe(
+    reduce(
+      (failures: Array<BulkItemFailure<T> | null>, outcome: { index: number; failure: BulkItemFailure<T> | null }) => {
+        failures[outcome.index] = outcome.failure;
+        return failures;
+      },
+      new Array<BulkItemFailure<T> | null>(items.length).fill(null)
+    ),
+    map((failures: Array<BulkItemFailure<T> | null>): BulkOperationResult<T> => ({
+      succeeded: items.filter((_item: T, index: number) => failures[index] === null),
+      failed: failures.filter((failure: BulkItemFailure<T> | null): failure is BulkItemFailure<T> => failure !== null)
+    }))
+  );
+}
+
+/**
+ * Combines the result of a bulk operation with the items refused before running it (e.g. missing permission).
+ *
+ * @param result The result of the operation.
+ * @param refused The refused items.
+ * @returns The combined result.
+ */
+export function withRefusedItems<T>(result: BulkOperationResult<T>, refused: ReadonlyArray<BulkItemFailure<T>>): BulkOperationResult<T> {
+  return { succeeded: result.succeeded, failed: [...refused, ...result.failed] };
+}
+
+/**
+ * Returns the message recorded for a failed item.
+ *
+ * @param error The error of the operation.
+ * @returns The user message of an {@link AppError}, or a generic message.
+ */
+export function getBulkErrorMessage(error: unknown): string {
+  return error instanceof AppError ? error.userMessage : $localize`An unexpected error occurred. Please try again.`;
+}
@@ -0,0 +1,103 @@
+/**
+ * Parsing of CSV files (RFC 4180), as written by spreadsheets and by `table-export.ts`.
+ *
+ * @remarks
+ * - Fields may be quoted; quoted fields may contain separators, quotes (doubled) and line breaks.
+ * - Lines end with CRLF or LF; a leading UTF-8 BOM is ignored, as are empty lines.
+ * - The separator is a comma, or a semicolon when the header line has more semicolons than commas
+ *   (spreadsheets use semicolons in locales with a decimal comma).
+ */
+
+const UTF8_BOM: string = '\uFEFF';
+
+/**
+ * Content of a parsed CSV file.
+ */
+export interface ParsedCsv {
+  /**
+   * Cells of the first line.
+   */
+  readonly headers: ReadonlyArray<string>;
+  /**
+   * Following lines, each with as many cells as there are headers (missing cells are empty, extra cells are dropped).
+   */
+  readonly rows: ReadonlyArray<ReadonlyArray<string>>;
+}
+
+/**
+ * Parses a CSV file whose first line holds the column headers.
+ *
+ * @param content The file content.
+ * @returns The headers and the rows (both empty for an empty file).
+ */
+export function parseCsv(content: string): ParsedCsv {
+  const text: string = content.startsWith(UTF8_BOM) ? content.slice(1) : content;
+  const lines: string[][] = splitCsv(text, detectSeparator(text))
+    .filter((cells: string[]) => cells.some((cell: string) => cell.trim() !== ''));
+  if (lines.length === 0) {
+    return { headers: [], rows: [] };
+  }
+  const headers: string[] = lines[0].map((header: string) => header.trim());
+  const rows: string[][] = lines.slice(1).map((cells: string[]) =>
+    headers.map((_header: string, index: number) => cells[index] ?? '')
+  );
+  return { headers, rows };
+}
+
+function detectSeparator(text: string): string {
+  let commas: number = 0;
+  let semicolons: number = 0;
+  let quoted: boolean = false;
+  for (const char of text) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (quoted === false && (char === '\n' || char === '\r')) {
+      break;
+    } else if (quoted === false && char === ',') {
+      commas++;
+    } else if (quoted === false && char === ';') {
+      semicolons++;
+    }
+  }
+  return semicolons > commas ? ';' : ',';
+}
+
+function splitCsv(text: string, separator: string): string[][] {
+  const lines: string[][] = [];
+  let cells: string[] = [];
+  let cell: string = '';
+  let quoted: boolean = false;
+  for (let index: number = 0; index < text.length; index++) {
+    const char: string = text[index];
+    if (quoted === true) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      cells.push(cell);
+      lines.push(cells);
+      cells = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) {
+    cells.push(cell);
+    lines.push(cells);
+  }
+  return lines;
+}
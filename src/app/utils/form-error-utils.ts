@@ -0,0 +1,87 @@
+/**
+ * Helpers to display backend validation errors on reactive forms.
+ */
+
+import { AbstractControl, FormGroup } from '@angular/forms';
+import { FieldError } from '../errors/field-error';
+import { ValidationError } from '../errors/validation-error';
+
+/**
+ * Key of the control error holding a message sent by the backend.
+ */
+export const SERVER_ERROR_KEY: string = 'server';
+
+/**
+ * Backend field names (DTO property names) whose control does not follow the naming convention,
+ * mapped to the control name (e.g. `{ open: 'visibilityCtrl' }`).
+ */
+export type FieldControlMap = Readonly<Record<string, string>>;
+
+/**
+ * Sets backend field errors on the matching form controls.
+ *
+ * @remarks
+ * - A field `email` is matched with the control named in `fieldMap`, then with the control `emailCtrl`
+ *   (repository naming convention), or `email` as a fallback.
+ * - Nested fields (e.g. `groupAuthorizations[0].groupId`) are matched by their first segment when the full name does not match.
+ * - The message is stored under the {@link SERVER_ERROR_KEY} error key and the control is marked as touched so it is displayed.
+ *   Editing the control runs its validators again, which clears the message.
+ *
+ * @param form The form holding the controls.
+ * @param fieldErrors The field errors from a {@link ValidationError}.
+ * @param fieldMap Controls of the fields that do not follow the naming convention.
+ * @returns The field errors that did not match any control (to be displayed globally).
+ */
+export function applyFieldErrors(
+  form: FormGroup,
+  fieldErrors: ReadonlyArray<FieldError>,
+  fieldMap: FieldControlMap = {}
+): ReadonlyArray<FieldError> {
+  const unmatched: FieldError[] = [];
+  for (const fieldError of fieldErrors) {
+    const control: AbstractControl | null = findControl(form, fieldError.field, fieldMap)
+      ?? findControl(form, fieldError.field.split(/[.[]/)[0], fieldMap);
+    if (control === null) {
+      unmatched.push(fieldError);
+      continue;
+    }
+    control.setErrors({ ...(control.errors ?? {}), [SERVER_ERROR_KEY]: fieldError.message });
+    control.markAsTouched();
+  }
+  return unmatched;
+}
+
+/**
+ * Displays a failed request on a form when it is a {@link ValidationError} with field errors.
+ *
+ * @remarks
+ * Field errors go to their controls (see {@link applyFieldErrors}); the others are joined under the
+ * {@link SERVER_ERROR_KEY} error key of the form itself, for display above the fields.
+ * Requests sent with {@link FIELD_ERRORS_HANDLED_BY_FORM} get no toast for these errors.
+ *
+ * @param form The form holding the controls.
+ * @param error The error raised by the request.
+ * @param fieldMap Controls of the fields that do not follow the naming convention.
+ * @returns True when the error was displayed on the form; false for any other error (left to the global toast).
+ */
+export function applyValidationError(form: FormGroup, error: unknown, fieldMap: FieldControlMap = {}): boolean {
+  if (!(error instanceof ValidationError) || error.fieldErrors.length === 0) {
+    return false;
+  }
+  const unmatched: ReadonlyArray<FieldError> = applyFieldErrors(form, error.fieldErrors, fieldMap);
+  if (unmatched.length > 0) {
+    form.setErrors({
+      ...(form.errors ?? {}),
+      [SERVER_ERROR_KEY]: unmatched.map((fieldError: FieldError) => fieldError.message).join(' ')
+    });
+  }
+  return true;
+}
+
+function findControl(form: FormGroup, field: string, fieldMap: FieldControlMap): AbstractControl | null {
+  const mappedName: string | undefined = fieldMap[field];
+  if (mappedName !== undefined) {
+    return form.get(mappedName);
+  }
+  return form.get(field + 'Ctrl') ?? form.get(field);
+}
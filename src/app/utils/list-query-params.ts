@@ -0,0 +1,159 @@
+/**
+ * Helpers to persist the filter and sort settings of the list cards in the URL query string.
+ *
+ * @remarks
+ * Empty or default values are written as `null`, which removes the parameter from the URL when navigating
+ * with `queryParamsHandling: 'merge'`. Invalid values read from the URL (hand-edited or outdated links)
+ * fall back to the defaults instead of failing.
+ */
+
+import { ActivatedRoute, ParamMap, Params, Router } from '@angular/router';
+
+/**
+ * Query parameter names shared by the list cards.
+ */
+export const LIST_QUERY_PARAMS = {
+  sort: 'sort',
+  from: 'from',
+  to: 'to',
+  page: 'page',
+  pageSize: 'size'
+} as const;
+
+/**
+ * Marks the navigations done by {@link writeListQueryParams}, so a list does not re-apply the URL it just wrote
+ * (while the user keeps typing, the URL may already be behind the inputs).
+ */
+const LIST_QUERY_PARAMS_NAVIGATION: string = 'listQueryParams';
+
+/**
+ * Sort settings of a list.
+ */
+export interface ListSort<C extends string> {
+  readonly column: C;
+  readonly direction: 'asc' | 'desc';
+}
+
+/**
+ * Parses a `column:direction` sort parameter (e.g. `creationDate:desc`).
+ *
+ * @param value The raw parameter value.
+ * @param columns The sortable columns of the list.
+ * @returns The sort settings, or null when the parameter is missing or invalid.
+ */
+export function parseSortParam<C extends string>(value: string | null, columns: ReadonlyArray<C>): ListSort<C> | null {
+  if (value === null) {
+    return null;
+  }
+  const [column, direction = 'asc'] = value.split(':');
+  if (columns.includes(column as C) === false || (direction !== 'asc' && direction !== 'desc')) {
+    return null;
+  }
+  return { column: column as C, direction };
+}
+
+/**
+ * Formats sort settings as a `column:direction` parameter.
+ *
+ * @param column The sort column, empty when the list is not sorted.
+ * @param direction The sort direction, empty when the list is not sorted.
+ * @returns The parameter value, or null when the list is not sorted.
+ */
+export function formatSortParam(column: string, direction: string): string | null {
+  return column !== '' && direction !== '' ? `${column}:${direction}` : null;
+}
+
+/**
+ * Reads a text parameter.
+ *
+ * @param params The query parameters.
+ * @param name The parameter name.
+ * @returns The value, or an empty string when missing.
+ */
+export function readTextParam(params: ParamMap, name: string): string {
+  return params.get(name) ?? '';
+}
+
+/**
+ * Reads a `YYYY-MM-DD` date parameter.
+ *
+ * @param params The query parameters.
+ * @param name The parameter name.
+ * @returns The date, or an empty string when missing or not a valid date.
+ */
+export function readDateParam(params: ParamMap, name: string): string {
+  const value: string | null = params.get(name);
+  if (value === null || /^\d{4}-\d{2}-\d{2}$/.test(value) === false || isNaN(new Date(value).getTime()) === true) {
+    return '';
+  }
+  return value;
+}
+
+/**
+ * Reads a positive integer parameter.
+ *
+ * @param params The query parameters.
+ * @param name The parameter name.
+ * @param fallback The value used when the parameter is missing or invalid.
+ * @returns The value.
+ */
+export function readPositiveIntParam(params: ParamMap, name: string, fallback: number): number {
+  const value: number = Number(params.get(name));
+  return Number.isInteger(value) === true && value > 0 ? value : fallback;
+}
+
+/**
+ * Reads a `true`/`false` parameter.
+ *
+ * @param params The query parameters.
+ * @param name The parameter name.
+ * @returns The value, or null when missing or invalid.
+ */
+export function readBooleanParam(params: ParamMap, name: string): boolean | null {
+  const value: string | null = params.get(name);
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  return null;
+}
+
+/**
+ * Converts a filter value to a parameter value, dropping empty and default values.
+ *
+ * @param value The filter value.
+ * @param defaultValue The value that is not written to the URL.
+ * @returns The parameter value, or null to remove the parameter.
+ */
+export function toParamValue<T extends string | number | boolean>(value: T | null, defaultValue: T | '' = ''): string | null {
+  return value === null || value === defaultValue ? null : String(value);
+}
+
+/**
+ * Records the settings of a list in the URL of its route, without adding a browser history entry.
+ *
+ * @param router The router.
+ * @param route The route displaying the list.
+ * @param queryParams The parameters to write (null values remove the parameter; other parameters are kept).
+ */
+export function writeListQueryParams(router: Router, route: ActivatedRoute, queryParams: Params): void {
+  // Navigating to the current URL is a no-op for the router
+  void router.navigate([], {
+    relativeTo: route,
+    queryParams,
+    queryParamsHandling: 'merge',
+    replaceUrl: true,
+    info: LIST_QUERY_PARAMS_NAVIGATION
+  });
+}
+
+/**
+ * Checks whether the navigation in progress was started by {@link writeListQueryParams}.
+ * Lists call it when their query parameters change, to only react to links and back and forward navigation.
+ *
+ * @param router The router.
+ * @returns True if the navigation only records list settings.
+ */
+export function isListQueryParamsNavigation(router: Router): boolean {
+  return router.getCurrentNavigation()?.extras.info === LIST_QUERY_PARAMS_NAVIGATION;
+}
+
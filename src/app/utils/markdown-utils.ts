@@ -0,0 +1,86 @@
+/**
+ * Minimal markdown rendering for user content (comments).
+ *
+ * @remarks
+ * Supports paragraphs, line breaks, `-`/`*` bullet lists, fenced code blocks, inline code,
+ * `**bold**`, `*italic*` and `[links](https://...)`. The source is HTML-escaped before any markup
+ * is added, so user content can never inject HTML.
+ */
+
+/**
+ * Escapes the HTML special characters of a text.
+ *
+ * @param text The raw text.
+ * @returns The escaped text.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Renders markdown to HTML.
+ *
+ * @param source The markdown source.
+ * @returns The HTML (safe to bind with `[innerHTML]`).
+ */
+export function renderMarkdown(source: string): string {
+  const normalized: string = source.replace(/\r\n?/g, '\n');
+  // Odd parts are the contents of fenced code blocks
+  const parts: string[] = normalized.split('```');
+  const html: string[] = parts.map((part: string, index: number) => {
+    const isCodeBlock: boolean = index % 2 === 1 && index < parts.length - 1;
+    if (isCodeBlock) {
+      // Drop the optional language hint on the opening fence line
+      const code: string = part.includes('\n') ? part.substring(part.indexOf('\n') + 1) : part;
+      return `<pre><code>${escapeHtml(code.replace(/\n$/, ''))}</code></pre>`;
+    }
+    return renderBlocks(index % 2 === 1 ? '```' + part : part);
+  });
+  return html.join('');
+}
+
+/**
+ * Renders paragraphs and bullet lists.
+ */
+function renderBlocks(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map((block: string) => block.replace(/^\n+|\n+$/g, ''))
+    .filter((block: string) => block.trim() !== '')
+    .map((block: string) => {
+      const lines: string[] = block.split('\n');
+      const isList: boolean = lines.every((line: string) => /^\s*[-*]\s+/.test(line));
+      if (isList) {
+        const items: string = lines
+          .map((line: string) => `<li>${renderInline(line.replace(/^\s*[-*]\s+/, ''))}</li>`)
+          .join('');
+        return `<ul>${items}</ul>`;
+      }
+      return `<p>${lines.map((line: string) => renderInline(line)).join('<br>')}</p>`;
+    })
+    .join('');
+}
+
+/**
+ * Renders inline code, emphasis and links.
+ */
+function renderInline(text: string): string {
+  // Odd parts are inline code spans, rendered verbatim
+  return text
+    .split(/(`[^`]+`)/)
+    .map((part: string, index: number) => {
+      if (index % 2 === 1) {
+        return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+      }
+      return escapeHtml(part)
+        .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer">$1</a>')
+        .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+        .replace(/\*([^*\s][^*]*)\*/g, '<em>$1</em>');
+    })
+    .join('');
+}
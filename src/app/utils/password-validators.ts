@@ -0,0 +1,60 @@
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+
+/**
+ * Minimum number of characters of a password.
+ */
+export const PASSWORD_MIN_LENGTH: number = 8;
+
+/**
+ * Details of the `passwordStrength` validation error: each flag is true when the rule is NOT met.
+ */
+export interface PasswordStrengthError {
+  readonly minLength: boolean;
+  readonly lowercase: boolean;
+  readonly uppercase: boolean;
+  readonly digit: boolean;
+}
+
+/**
+ * Validator enforcing the password policy shared by signup, user administration and password reset:
+ * at least {@link PASSWORD_MIN_LENGTH} characters with a lowercase letter, an uppercase letter and a digit.
+ *
+ * @remarks
+ * Empty values are considered valid (combine with `Validators.required` when the password is mandatory),
+ * so the validator can also be used on optional password fields (e.g. edit forms).
+ *
+ * @param control The password control.
+ * @returns `{ passwordStrength: PasswordStrengthError }` when the password is too weak, otherwise null.
+ */
+export const passwordStrengthValidator: ValidatorFn = (control: AbstractControl): ValidationErrors | null => {
+  const value: unknown = control.value;
+  if (typeof value !== 'string' || value === '') {
+    return null;
+  }
+  const error: PasswordStrengthError = {
+    minLength: value.length < PASSWORD_MIN_LENGTH,
+    lowercase: /[a-z]/.test(value) === false,
+    uppercase: /[A-Z]/.test(value) === false,
+    digit: /[0-9]/.test(value) === false
+  };
+  const isWeak: boolean = error.minLength || error.lowercase || error.uppercase || error.digit;
+  return isWeak ? { passwordStrength: error } : null;
+};
+
+/**
+ * Form group validator checking that two password controls hold the same value.
+ *
+ * @param passwordControlName Name of the password control.
+ * @param confirmationControlName Name of the confirmation control.
+ * @returns A validator returning `{ passwordMismatch: true }` when the values differ.
+ */
+export function passwordMatchValidator(passwordControlName: string, confirmationControlName: string): ValidatorFn {
+  return (group: AbstractControl): ValidationErrors | null => {
+    const password: unknown = group.get(passwordControlName)?.value;
+    const confirmation: unknown = group.get(confirmationControlName)?.value;
+    if (confirmation === null || confirmation === undefined || confirmation === '') {
+      return null;
+    }
+    return password === confirmation ? null : { passwordMismatch: true };
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Validation rules of the problem name and description, shared by the problem form and the CSV import.
+ */
+
+import { FieldError } from '../errors/field-error';
+
+/**
+ * Minimum length of a problem name.
+ */
+export const PROBLEM_NAME_MIN_LENGTH: number = 3;
+
+/**
+ * Minimum length of a problem description.
+ */
+export const PROBLEM_DESCRIPTION_MIN_LENGTH: number = 5;
+
+/**
+ * Validates the name and description of a problem.
+ *
+ * @param name The name (null or empty when missing).
+ * @param description The description (null or empty when missing).
+ * @returns The field errors (`name`, `description`); empty when both are valid.
+ */
+export function validateProblemFields(name: string | null, description: string | null): ReadonlyArray<FieldError> {
+  const errors: FieldError[] = [];
+  if ((name ?? '').length < PROBLEM_NAME_MIN_LENGTH) {
+    errors.push({ field: 'name', message: $localize`Name is required (min ${PROBLEM_NAME_MIN_LENGTH}:min: characters).` });
+  }
+  if ((description ?? '').length < PROBLEM_DESCRIPTION_MIN_LENGTH) {
+    errors.push({ field: 'description', message: $localize`Description is required (min ${PROBLEM_DESCRIPTION_MIN_LENGTH}:min: characters).` });
+  }
+  return errors;
+}
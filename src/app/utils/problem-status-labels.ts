@@ -0,0 +1,57 @@
+/**
+ * Display of {@link ProblemStatus} values: localized labels and badge colors.
+ *
+ * @remarks
+ * Filters, sorting and the workflow always work on the enum values (see `problem-status-workflow.ts`);
+ * the localized text is only used for display, so it never leaks into comparisons.
+ */
+
+import { ProblemStatus } from '@shared/dto/problem/problem-status.enum';
+import { toProblemStatus } from './problem-status-workflow';
+
+/**
+ * Localized label of each status.
+ */
+export const PROBLEM_STATUS_LABELS: Readonly<Record<ProblemStatus, string>> = {
+  [ProblemStatus.NEW]: $localize`New`,
+  [ProblemStatus.IN_PROGRESS]: $localize`In Progress`,
+  [ProblemStatus.BLOCKED]: $localize`Blocked`,
+  [ProblemStatus.RESOLVED]: $localize`Resolved`,
+  [ProblemStatus.CLOSED]: $localize`Closed`
+};
+
+/**
+ * Bootstrap background class of the badge of each status.
+ */
+const PROBLEM_STATUS_BADGE_CLASSES: Readonly<Record<ProblemStatus, string>> = {
+  [ProblemStatus.NEW]: 'bg-info',
+  [ProblemStatus.IN_PROGRESS]: 'bg-primary',
+  [ProblemStatus.BLOCKED]: 'bg-danger',
+  [ProblemStatus.RESOLVED]: 'bg-success',
+  [ProblemStatus.CLOSED]: 'bg-secondary'
+};
+
+/**
+ * Returns the localized label of a status.
+ *
+ * @param status The raw status (as sent by the backend).
+ * @returns The localized label, the raw value for unknown (legacy) statuses, or '-' when there is no status.
+ */
+export function getProblemStatusLabel(status: string | null | undefined): string {
+  if (!status) {
+    return '-';
+  }
+  const problemStatus: ProblemStatus | null = toProblemStatus(status);
+  return problemStatus !== null ? PROBLEM_STATUS_LABELS[problemStatus] : status;
+}
+
+/**
+ * Returns the Bootstrap background class of the badge of a status.
+ *
+ * @param status The raw status (as sent by the backend).
+ * @returns The badge classes (light badge for unknown statuses).
+ */
+export function getProblemStatusBadgeClass(status: string | null | undefined): string {
+  const problemStatus: ProblemStatus | null = toProblemStatus(status);
+  return problemStatus !== null ? PROBLEM_STATUS_BADGE_CLASSES[problemStatus] : 'bg-light text-dark';
+}
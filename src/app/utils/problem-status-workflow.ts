@@ -0,0 +1,152 @@
+/**
+ * Problem status workflow: allowed transitions between {@link ProblemStatus} values.
+ *
+ * @remarks
+ * New → In Progress → Blocked / Resolved → Closed. Blocked problems go back to In Progress,
+ * Resolved and Closed problems can be reopened (back to In Progress).
+ */
+
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+import { ProblemStatus } from '@shared/dto/problem/problem-status.enum';
+import { FieldError } from '../errors/field-error';
+
+/**
+ * Next statuses reachable from each status.
+ */
+export const PROBLEM_STATUS_TRANSITIONS: Readonly<Record<ProblemStatus, ReadonlyArray<ProblemStatus>>> = {
+  [ProblemStatus.NEW]: [ProblemStatus.IN_PROGRESS],
+  [ProblemStatus.IN_PROGRESS]: [ProblemStatus.BLOCKED, ProblemStatus.RESOLVED],
+  [ProblemStatus.BLOCKED]: [ProblemStatus.IN_PROGRESS],
+  [ProblemStatus.RESOLVED]: [ProblemStatus.CLOSED, ProblemStatus.IN_PROGRESS],
+  [ProblemStatus.CLOSED]: [ProblemStatus.IN_PROGRESS]
+};
+
+/**
+ * All statuses in workflow order (used to list and sort statuses, rather than alphabetically).
+ */
+export const PROBLEM_STATUS_ORDER: ReadonlyArray<ProblemStatus> = [
+  ProblemStatus.NEW,
+  ProblemStatus.IN_PROGRESS,
+  ProblemStatus.BLOCKED,
+  ProblemStatus.RESOLVED,
+  ProblemStatus.CLOSED
+];
+
+/**
+ * Statuses that can only be entered with a reason.
+ */
+export const STATUSES_REQUIRING_REASON: ReadonlyArray<ProblemStatus> = [ProblemStatus.BLOCKED, ProblemStatus.CLOSED];
+
+/**
+ * Converts a raw status (as sent by the backend, held by a form control or read from the URL) to a {@link ProblemStatus}.
+ *
+ * @param status The raw status, compared with the enum values ignoring case, spaces, dashes and underscores
+ * (`In Progress`, `in_progress` and `IN_PROGRESS` all match).
+ * @returns The matching status, or null for unknown values.
+ */
+export function toProblemStatus(status: string | null | undefined): ProblemStatus | null {
+  if (status === null || status === undefined) {
+    return null;
+  }
+  const normalizedStatus: string = normalizeStatus(status);
+  const match: ProblemStatus | undefined = PROBLEM_STATUS_ORDER
+    .find((candidate: ProblemStatus) => normalizeStatus(candidate) === normalizedStatus);
+  return match ?? null;
+}
+
+/**
+ * Compares two raw statuses by their position in the workflow (unknown statuses last).
+ *
+ * @param a The first status.
+ * @param b The second status.
+ * @returns A negative number if `a` comes first, a positive number if `b` comes first, 0 otherwise.
+ */
+export function compareProblemStatuses(a: string | null | undefined, b: string | null | undefined): number {
+  return getStatusRank(a) - getStatusRank(b);
+}
+
+/**
+ * Returns the statuses a problem can be set to: its current status followed by the allowed next ones.
+ *
+ * @param current The current status; null for a new problem (or an unknown legacy status), which can only be New.
+ * @returns The selectable statuses.
+ */
+export function getSelectableStatuses(current: ProblemStatus | null): ReadonlyArray<ProblemStatus> {
+  if (current === null) {
+    return [ProblemStatus.NEW];
+  }
+  return [current, ...PROBLEM_STATUS_TRANSITIONS[current]];
+}
+
+/**
+ * Checks whether a problem may move from one status to another (keeping the same status is always allowed).
+ *
+ * @param from The current status (null for a new problem).
+ * @param to The requested status.
+ * @returns True if the transition is allowed.
+ */
+export function isStatusTransitionAllowed(from: ProblemStatus | null, to: ProblemStatus): boolean {
+  return getSelectableStatuses(from).includes(to);
+}
+
+/**
+ * Checks whether moving from one status to another requires a reason.
+ *
+ * @param from The current status (null for a new problem).
+ * @param to The requested status (null when none is selected).
+ * @returns True if the status changes to one of {@link STATUSES_REQUIRING_REASON}.
+ */
+export function isStatusReasonRequired(from: ProblemStatus | null, to: ProblemStatus | null): boolean {
+  return to !== null && to !== from && STATUSES_REQUIRING_REASON.includes(to);
+}
+
+/**
+ * Validates a status change before it is sent to the backend.
+ *
+ * @param from The current status (null for a new problem).
+ * @param to The requested raw status.
+ * @param reason The reason entered by the user.
+ * @returns The field errors (`status`, `statusReason`); empty when the change is valid.
+ */
+export function validateStatusTransition(from: ProblemStatus | null, to: string | null, reason: string | null): ReadonlyArray<FieldError> {
+  const target: ProblemStatus | null = toProblemStatus(to);
+  if (target === null || isStatusTransitionAllowed(from, target) === false) {
+    return [{ field: 'status', message: $localize`This status change is not allowed.` }];
+  }
+  if (isStatusReasonRequired(from, target) === true && (reason ?? '').trim() === '') {
+    return [{ field: 'statusReason', message: $localize`A reason is required for this status.` }];
+  }
+  return [];
+}
+
+/**
+ * Form group validator requiring a reason when the selected status is one of {@link STATUSES_REQUIRING_REASON}.
+ *
+ * @param getCurrentStatus Returns the status the problem currently has (null for a new problem).
+ * @param statusControlName Name of the status control.
+ * @param reasonControlName Name of the reason control.
+ * @returns A validator returning `{ statusReasonRequired: true }` when the reason is missing.
+ */
+export function statusReasonValidator(
+  getCurrentStatus: () => ProblemStatus | null,
+  statusControlName: string,
+  reasonControlName: string
+): ValidatorFn {
+  return (group: AbstractControl): ValidationErrors | null => {
+    const target: ProblemStatus | null = toProblemStatus(group.get(statusControlName)?.value);
+    if (isStatusReasonRequired(getCurrentStatus(), target) === false) {
+      return null;
+    }
+    const reason: unknown = group.get(reasonControlName)?.value;
+    return typeof reason === 'string' && reason.trim() !== '' ? null : { statusReasonRequired: true };
+  };
+}
+
+function normalizeStatus(status: string): string {
+  return status.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+function getStatusRank(status: string | null | undefined): number {
+  const problemStatus: ProblemStatus | null = toProblemStatus(status);
+  return problemStatus === null ? PROBLEM_STATUS_ORDER.length : PROBLEM_STATUS_ORDER.indexOf(problemStatus);
+}
@@ -0,0 +1,33 @@
+/**
+ * Display of the visibility of a problem (its `open` value): localized Public/Private labels.
+ */
+
+/**
+ * Localized label of a public problem.
+ */
+export const PROBLEM_PUBLIC_LABEL: string = $localize`Public`;
+
+/**
+ * Localized label of a private problem.
+ */
+export const PROBLEM_PRIVATE_LABEL: string = $localize`Private`;
+
+/**
+ * Returns whether a problem is public.
+ *
+ * @param open The `open` value of the problem: 'Public' | 'Private' (mock data), or the boolean of the backend DTO.
+ * @returns True for 'Public' or true.
+ */
+export function isPublicProblem(open: string | boolean | undefined): boolean {
+  return open === 'Public' || open === true;
+}
+
+/**
+ * Returns the localized visibility label of a problem.
+ *
+ * @param open The `open` value of the problem (see {@link isPublicProblem}).
+ * @returns The localized label.
+ */
+export function getProblemVisibilityLabel(open: string | boolean | undefined): string {
+  return isPublicProblem(open) ? PROBLEM_PUBLIC_LABEL : PROBLEM_PRIVATE_LABEL;
+}
@@ -0,0 +1,49 @@
+/**
+ * Helpers for the `returnUrl` query parameter carried through the login and signup pages.
+ */
+
+/**
+ * Name of the query parameter holding the URL to go back to after authentication.
+ */
+export const RETURN_URL_QUERY_PARAM: string = 'returnUrl';
+
+/**
+ * Pages that must never be used as a return target (would loop back into the authentication flow).
+ */
+const AUTHENTICATION_PAGES: ReadonlyArray<string> = ['login', 'signup', 'forgot-password', 'reset-password'];
+
+/**
+ * Checks that a return URL is an internal application path.
+ *
+ * @remarks
+ * Rejects absolute URLs (`https://...`), protocol-relative URLs (`//host`), backslash tricks (`/\host`),
+ * control characters and authentication pages, so the value can safely be passed to `Router#navigateByUrl`.
+ *
+ * @param url The candidate return URL (typically read from the query string).
+ * @returns True if the URL is a safe internal path.
+ */
+export function isSafeReturnUrl(url: string | null | undefined): url is string {
+  if (url === null || url === undefined || url === '') {
+    return false;
+  }
+  if (url.startsWith('/') === false || url.startsWith('//') === true || url.startsWith('/\\') === true) {
+    return false;
+  }
+  if (/[\u0000-\u001F\u007F]/.test(url) === true) {
+    return false;
+  }
+  const path: string = url.split(/[?#]/)[0];
+  const segments: string[] = path.split('/').filter((segment: string) => segment.length > 0);
+  // Locale prefix is optional: check the first two segments (e.g. /fr/login or /login).
+  return segments.slice(0, 2).some((segment: string) => AUTHENTICATION_PAGES.includes(segment)) === false;
+}
+
+/**
+ * Returns the return URL when it is safe, otherwise null.
+ *
+ * @param url The candidate return URL.
+ * @returns The validated URL or null.
+ */
+export function sanitizeReturnUrl(url: string | null | undefined): string | null {
+  return isSafeReturnUrl(url) ? url : null;
+}
@@ -0,0 +1,195 @@
+/**
+ * Export of table rows to CSV or JSON files.
+ *
+ * @remarks
+ * - CSV follows RFC 4180 (comma separator, CRLF line breaks, fields quoted when they contain a comma,
+ *   a quote or a line break, quotes doubled) and starts with a UTF-8 BOM so that Excel detects the encoding.
+ * - CSV dates use the locale-neutral {@link CSV_DATE_FORMAT}, so that exports can be imported again (see
+ *   {@link parseCsvDate}); CSV booleans are localized ({@link CSV_TRUE_LABEL}); JSON dates are ISO 8601 strings.
+ * - Text cells starting with `=`, `+`, `-` or `@` are prefixed with a quote in CSV, so that spreadsheets
+ *   do not evaluate them as formulas ({@link unescapeCsvFormula} removes it).
+ */
+
+import { formatDate } from '@angular/common';
+
+/**
+ * Export file formats.
+ */
+export type ExportFormat = 'csv' | 'json';
+
+/**
+ * Value of an exported cell.
+ */
+export type ExportValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Column of an export.
+ */
+export interface ExportColumn<T> {
+  /**
+   * Property name in JSON exports (stable, not translated).
+   */
+  readonly key: string;
+  /**
+   * Localized header in CSV exports.
+   */
+  readonly header: string;
+  readonly value: (row: T) => ExportValue;
+}
+
+/**
+ * Format of the CSV dates (local time), understood by spreadsheets in every locale.
+ */
+export const CSV_DATE_FORMAT: string = 'yyyy-MM-dd HH:mm:ss';
+
+/**
+ * CSV cell of a true boolean.
+ */
+export const CSV_TRUE_LABEL: string = $localize`Yes`;
+
+/**
+ * CSV cell of a false boolean.
+ */
+export const CSV_FALSE_LABEL: string = $localize`No`;
+
+/**
+ * Date cell: `yyyy-MM-dd`, optionally followed by `HH:mm` or `HH:mm:ss` (local time).
+ */
+const CSV_DATE_PATTERN: RegExp = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+const CSV_FORMULA_PATTERN: RegExp = /^[=+\-@]/;
+const CSV_SEPARATOR: string = ',';
+const CSV_LINE_BREAK: string = '\r\n';
+const UTF8_BOM: string = '\uFEFF';
+
+/**
+ * Converts rows to CSV.
+ *
+ * @param rows The rows, in export order.
+ * @param columns The exported columns.
+ * @param locale The locale dates are formatted for (e.g. the `LOCALE_ID`).
+ * @returns The CSV content, with the UTF-8 BOM and a header line.
+ */
+export function toCsv<T>(rows: ReadonlyArray<T>, columns: ReadonlyArray<ExportColumn<T>>, locale: string): string {
+  const lines: string[] = [
+    columns.map((column: ExportColumn<T>) => escapeCsvField(column.header)).join(CSV_SEPARATOR),
+    ...rows.map((row: T) => columns
+      .map((column: ExportColumn<T>) => escapeCsvField(formatCsvValue(column.value(row), locale)))
+      .join(CSV_SEPARATOR))
+  ];
+  return UTF8_BOM + lines.join(CSV_LINE_BREAK) + CSV_LINE_BREAK;
+}
+
+/**
+ * Converts rows to JSON: an array with one object per row, keyed by the column keys.
+ *
+ * @param rows The rows, in export order.
+ * @param columns The exported columns.
+ * @returns The indented JSON content.
+ */
+export function toJson<T>(rows: ReadonlyArray<T>, columns: ReadonlyArray<ExportColumn<T>>): string {
+  const objects: Array<Record<string, string | number | boolean | null>> = rows.map((row: T) => {
+    const object: Record<string, string | number | boolean | null> = {};
+    for (const column of columns) {
+      const value: ExportValue = column.value(row);
+      object[column.key] = value instanceof Date ? toIsoString(value) : value ?? null;
+    }
+    return object;
+  });
+  return JSON.stringify(objects, null, 2);
+}
+
+/**
+ * Parses a CSV date cell.
+ *
+ * @param value The cell: {@link CSV_DATE_FORMAT} (as exported), a date without time, or an ISO 8601 date-time.
+ * @returns The date, or null when the cell is not a valid date.
+ */
+export function parseCsvDate(value: string): Date | null {
+  const match: RegExpExecArray | null = CSV_DATE_PATTERN.exec(value.trim());
+  if (match !== null) {
+    const [, year, month, day, hours, minutes, seconds] = match;
+    const date: Date = new Date(Number(year), Number(month) - 1, Number(day), Number(hours ?? 0), Number(minutes ?? 0), Number(seconds ?? 0));
+    // Reject overflowing values (e.g. 2026-02-31), which Date silently moves to the next month
+    return date.getMonth() === Number(month) - 1 && date.getDate() === Number(day) ? date : null;
+  }
+  const time: number = Date.parse(value.trim());
+  return /^\d{4}-\d{2}-\d{2}T/.test(value.trim()) && Number.isNaN(time) === false ? new Date(time) : null;
+}
+
+/**
+ * Removes the quote the export adds before text cells that look like formulas.
+ *
+ * @param value The cell.
+ * @returns The cell as it was before the export.
+ */
+export function unescapeCsvFormula(value: string): string {
+  return value.startsWith("'") && CSV_FORMULA_PATTERN.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+/**
+ * Exports rows to a file downloaded by the browser.
+ *
+ * @param rows The rows, in export order.
+ * @param columns The exported columns.
+ * @param format The file format.
+ * @param baseName The file name without date nor extension (e.g. `problems`).
+ * @param locale The locale CSV dates are formatted for.
+ */
+export function exportRows<T>(
+  rows: ReadonlyArray<T>,
+  columns: ReadonlyArray<ExportColumn<T>>,
+  format: ExportFormat,
+  baseName: string,
+  locale: string
+): void {
+  const fileName: string = `${baseName}-${formatDate(new Date(), 'yyyy-MM-dd', 'en')}.${format}`;
+  if (format === 'csv') {
+    downloadFile(toCsv(rows, columns, locale), fileName, 'text/csv;charset=utf-8');
+  } else {
+    downloadFile(toJson(rows, columns), fileName, 'application/json;charset=utf-8');
+  }
+}
+
+/**
+ * Makes the browser download a text file.
+ *
+ * @param content The file content.
+ * @param fileName The file name.
+ * @param mimeType The MIME type of the content.
+ */
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const url: string = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link: HTMLAnchorElement = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+function formatCsvValue(value: ExportValue, locale: string): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? '' : formatDate(value, CSV_DATE_FORMAT, locale);
+  }
+  if (typeof value === 'boolean') {
+    return value ? CSV_TRUE_LABEL : CSV_FALSE_LABEL;
+  }
+  if (typeof value === 'string') {
+    return CSV_FORMULA_PATTERN.test(value) ? `'${value}` : value;
+  }
+  return String(value);
+}
+
+function escapeCsvField(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+function toIsoString(date: Date): string | null {
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}